@@ -0,0 +1,86 @@
+// public/sw.js - keeps the customer menu usable on weak connections
+const CACHE_VERSION = 'v1';
+const SHELL_CACHE = `waiter-shell-${CACHE_VERSION}`;
+const MENU_CACHE = `waiter-menu-${CACHE_VERSION}`;
+
+// Restaurant, menu and categories responses for the customer menu
+const MENU_API_PATTERN = /\/public\/restaurants\/[^/]+(\/menu|\/categories)?$/;
+
+// Third-party assets the UI can't render without (Tailwind, Remix Icons)
+const CDN_HOSTS = ['cdn.tailwindcss.com', 'cdn.jsdelivr.net'];
+
+// Built bundles and images from our own origin (never API responses)
+const STATIC_ASSET_PATTERN = /\.(js|css|png|jpe?g|svg|webp|woff2?)$/;
+
+self.addEventListener('install', (event) => {
+  event.waitUntil(
+    caches.open(SHELL_CACHE).then((cache) => cache.addAll(['/', '/index.html'])).then(() => self.skipWaiting())
+  );
+});
+
+self.addEventListener('activate', (event) => {
+  // Drop caches from older versions
+  event.waitUntil(
+    caches.keys()
+      .then((keys) => Promise.all(
+        keys.filter((key) => key !== SHELL_CACHE && key !== MENU_CACHE).map((key) => caches.delete(key))
+      ))
+      .then(() => self.clients.claim())
+  );
+});
+
+// Network first, falling back to the last good response
+const networkFirst = async (request, cacheName) => {
+  const cache = await caches.open(cacheName);
+  try {
+    const response = await fetch(request);
+    if (response.ok) {
+      cache.put(request, response.clone());
+    }
+    return response;
+  } catch (error) {
+    const cached = await cache.match(request);
+    if (cached) return cached;
+    throw error;
+  }
+};
+
+// Serve from cache straight away and refresh in the background
+const staleWhileRevalidate = async (request, cacheName) => {
+  const cache = await caches.open(cacheName);
+  const cached = await cache.match(request);
+  const network = fetch(request)
+    .then((response) => {
+      if (response.ok || response.type === 'opaque') {
+        cache.put(request, response.clone());
+      }
+      return response;
+    })
+    .catch(() => cached);
+  return cached || network;
+};
+
+self.addEventListener('fetch', (event) => {
+  const { request } = event;
+  if (request.method !== 'GET') return;
+
+  const url = new URL(request.url);
+
+  if (MENU_API_PATTERN.test(url.pathname)) {
+    event.respondWith(networkFirst(request, MENU_CACHE));
+    return;
+  }
+
+  // SPA navigations fall back to the cached shell
+  if (request.mode === 'navigate') {
+    event.respondWith(
+      fetch(request).catch(() => caches.match('/index.html', { cacheName: SHELL_CACHE }))
+    );
+    return;
+  }
+
+  const isStaticAsset = url.origin === self.location.origin && STATIC_ASSET_PATTERN.test(url.pathname);
+  if (isStaticAsset || CDN_HOSTS.includes(url.hostname)) {
+    event.respondWith(staleWhileRevalidate(request, SHELL_CACHE));
+  }
+});
@@ -3,6 +3,7 @@ import React from 'react';
 import { BrowserRouter as Router, Routes, Route } from 'react-router-dom';
 import { AuthProvider, useAuth } from './contexts/AuthContext';
 import { ToastProvider } from './contexts/ToastContext';
+import { RealtimeProvider } from './contexts/RealtimeContext';
 
 import Login from './components/Login';
 import Dashboard from './components/Dashboard';
@@ -42,7 +43,9 @@ const App: React.FC = () => {
     <Router>
       <ToastProvider>
         <AuthProvider>
-          <AppContent />
+          <RealtimeProvider>
+            <AppContent />
+          </RealtimeProvider>
         </AuthProvider>
       </ToastProvider>
     </Router>
@@ -2,6 +2,10 @@ import React, { useState, useEffect, useCallback } from 'react';
 import { useToast } from '../contexts/ToastContext';
 import logo from "../assets/logo.png";
 import { useNavigate, useLocation } from 'react-router-dom';
+import { publicService } from '../services/public';
+import { getApiErrorMessage } from '../services/api';
+import { getOpeningStatus, formatUpcomingTime } from '../services/schedule';
+import type { OperatingHours } from '../types';
 
 interface Restaurant {
   _id: string;
@@ -17,6 +21,7 @@ interface Restaurant {
     country: string;
   };
   isActive: boolean;
+  operatingHours?: OperatingHours;
 }
 
 interface Category {
@@ -83,26 +88,23 @@ const RestaurantList: React.FC = () => {
   const loadInitialData = async () => {
     try {
       setLoading(true);
-      const [restaurantsResponse, categoriesResponse] = await Promise.all([
-        fetch('http://localhost:5000/api/restaurants'),
-        fetch('http://localhost:5000/api/public/categories'),
+      const [restaurantsResult, categoriesResult] = await Promise.allSettled([
+        publicService.getRestaurants<Restaurant>(),
+        publicService.getCategories<Category>(),
       ]);
 
-      const restaurantsData = await restaurantsResponse.json();
-      const categoriesData = await categoriesResponse.json();
-
-      if (restaurantsResponse.ok) {
-        const activeRestaurants = (restaurantsData.restaurants || []).filter((r: Restaurant) => r.isActive);
+      if (restaurantsResult.status === 'fulfilled') {
+        const activeRestaurants = restaurantsResult.value.filter(r => r.isActive);
         setRestaurants(activeRestaurants);
         setFilteredRestaurants(activeRestaurants);
       } else {
-        showError(`Failed to load restaurants: ${restaurantsData.error}`);
+        showError(`Failed to load restaurants: ${getApiErrorMessage(restaurantsResult.reason)}`);
       }
 
-      if (categoriesResponse.ok) {
-        setCategories(categoriesData.categories || []);
+      if (categoriesResult.status === 'fulfilled') {
+        setCategories(categoriesResult.value);
       } else {
-        console.warn('Could not load categories:', categoriesData.error);
+        console.warn('Could not load categories:', getApiErrorMessage(categoriesResult.reason));
       }
     } catch (error: any) {
       showError(`Failed to load data: ${error.message}`);
@@ -123,21 +125,11 @@ const RestaurantList: React.FC = () => {
 
     setFilterLoading(true);
     try {
-      const response = await fetch(
-        `http://localhost:5000/api/public/restaurants/by-category/${encodeURIComponent(categoryName)}`
-      );
-      const data = await response.json();
-
-      if (response.ok) {
-        const categoryRestaurants = data.restaurants || [];
-        const filtered = applySearchFilter(categoryRestaurants, searchTerm);
-        setFilteredRestaurants(filtered);
-      } else {
-        showError(`Failed to filter by category: ${data.error}`);
-        setFilteredRestaurants([]);
-      }
-    } catch (error: any) {
-      showError(`Failed to filter restaurants: ${error.message}`);
+      const categoryRestaurants = await publicService.getRestaurantsByCategory<Restaurant>(categoryName);
+      const filtered = applySearchFilter(categoryRestaurants, searchTerm);
+      setFilteredRestaurants(filtered);
+    } catch (error) {
+      showError(`Failed to filter by category: ${getApiErrorMessage(error)}`);
       setFilteredRestaurants([]);
     } finally {
       setFilterLoading(false);
@@ -166,18 +158,11 @@ const RestaurantList: React.FC = () => {
     } else {
       setFilterLoading(true);
       try {
-        const response = await fetch(
-          `http://localhost:5000/api/public/restaurants/by-category/${encodeURIComponent(selectedCategory)}`
-        );
-        const data = await response.json();
-
-        if (response.ok) {
-          const categoryRestaurants = data.restaurants || [];
-          const filtered = applySearchFilter(categoryRestaurants, term);
-          setFilteredRestaurants(filtered);
-        }
-      } catch (error: any) {
-        showError(`Failed to filter restaurants: ${error.message}`);
+        const categoryRestaurants = await publicService.getRestaurantsByCategory<Restaurant>(selectedCategory);
+        const filtered = applySearchFilter(categoryRestaurants, term);
+        setFilteredRestaurants(filtered);
+      } catch (error) {
+        showError(`Failed to filter restaurants: ${getApiErrorMessage(error)}`);
       } finally {
         setFilterLoading(false);
       }
@@ -594,9 +579,7 @@ const RestaurantCard: React.FC<RestaurantCardProps> = ({ restaurant, selectedCat
     const loadRestaurantCategories = async () => {
       setLoadingCategories(true);
       try {
-        const response = await fetch(`http://localhost:5000/api/public/restaurants/${restaurant._id}/categories`);
-        const data = await response.json();
-        if (response.ok) setRestaurantCategories(data.categories || []);
+        setRestaurantCategories(await publicService.getRestaurantCategories<Category>(restaurant._id));
       } catch (error) {
         console.warn('Failed to load restaurant categories:', error);
       } finally {
@@ -607,6 +590,9 @@ const RestaurantCard: React.FC<RestaurantCardProps> = ({ restaurant, selectedCat
   }, [restaurant._id]);
 
   const queryParams = location.search;
+  const now = new Date();
+  const openingStatus = getOpeningStatus(restaurant.operatingHours, now);
+  const isClosed = !!openingStatus && !openingStatus.isOpen;
 
   return (
     <div className="bg-white rounded-2xl lg:rounded-3xl shadow-sm hover:shadow-xl transition-all duration-300 overflow-hidden group flex flex-col h-full">
@@ -631,9 +617,9 @@ const RestaurantCard: React.FC<RestaurantCardProps> = ({ restaurant, selectedCat
 
         {/* Status Badge */}
         <div className="absolute top-2 lg:top-3 left-2 lg:left-3">
-          <div className="flex items-center gap-1 lg:gap-1.5 px-2 py-1 lg:px-3 lg:py-1.5 bg-green-500 rounded-full shadow-lg">
-            <span className="w-1.5 h-1.5 lg:w-2 lg:h-2 bg-white rounded-full animate-pulse"></span>
-            <span className="text-[10px] lg:text-xs font-bold text-white">Open</span>
+          <div className={`flex items-center gap-1 lg:gap-1.5 px-2 py-1 lg:px-3 lg:py-1.5 rounded-full shadow-lg ${isClosed ? 'bg-slate-700' : 'bg-green-500'}`}>
+            <span className={`w-1.5 h-1.5 lg:w-2 lg:h-2 bg-white rounded-full ${isClosed ? '' : 'animate-pulse'}`}></span>
+            <span className="text-[10px] lg:text-xs font-bold text-white">{isClosed ? 'Closed' : 'Open'}</span>
           </div>
         </div>
       </div>
@@ -660,6 +646,17 @@ const RestaurantCard: React.FC<RestaurantCardProps> = ({ restaurant, selectedCat
           <span className="line-clamp-1">{restaurant.address.city}, {restaurant.address.country}</span>
         </div>
 
+        {openingStatus && (
+          <div className={`flex items-center gap-1 lg:gap-1.5 text-[10px] lg:text-xs mb-2 lg:mb-3 ${isClosed ? 'text-amber-600' : 'text-slate-500'}`}>
+            <i className="ri-time-line text-xs lg:text-sm"></i>
+            <span className="line-clamp-1">
+              {isClosed
+                ? `Closed now${openingStatus.opensAt ? ` · Opens ${formatUpcomingTime(openingStatus.opensAt, now)}` : ''}`
+                : openingStatus.closesAt && `Open until ${formatUpcomingTime(openingStatus.closesAt, now)}`}
+            </span>
+          </div>
+        )}
+
         {/* Categories */}
         {loadingCategories ? (
           <div className="flex items-center justify-center py-2 mb-2 lg:mb-3">
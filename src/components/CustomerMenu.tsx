@@ -1,6 +1,52 @@
 import React, { useState, useEffect, useRef, useCallback } from 'react';
 import { useParams, useNavigate, useLocation } from 'react-router-dom';
+import axios from 'axios';
 import { useToast } from '../contexts/ToastContext';
+import { getApiErrorMessage } from '../services/api';
+import { publicService } from '../services/public';
+import { orderService, getItemNote } from '../services/orders';
+import { createIdempotencyKey, isNetworkError } from '../services/orderQueue';
+import { useOrderQueue } from '../hooks/useOrderQueue';
+import { useSharedCart } from '../hooks/useSharedCart';
+import { useTableToken } from '../hooks/useTableToken';
+import {
+  getCartKey,
+  getCartKeyItemId,
+  getModifierTotal,
+  getSelectionRange,
+  describeSelectionRange,
+  validateModifiers,
+  formatModifiers
+} from '../services/modifiers';
+import {
+  ALLERGENS,
+  DIETS,
+  MAX_SPICE_LEVEL,
+  EMPTY_MENU_FILTERS,
+  parseMenuFilters,
+  applyMenuFilters,
+  matchesMenuFilters,
+  countActiveFilters,
+  getAllergenLabel
+} from '../services/menuFilters';
+import type { MenuFilters } from '../services/menuFilters';
+import { getOpeningStatus, getCategoryAvailability, formatUpcomingTime } from '../services/schedule';
+import { isSoldOut, applyStockUpdate, getAvailableQuantity } from '../services/inventory';
+import { compareSortOrder, sortMenuItems } from '../services/menuOrder';
+import { RealtimeProvider } from '../contexts/RealtimeContext';
+import { useRealtimeStock } from '../hooks/useRealtimeStock';
+import type { CartSyncState } from '../hooks/useSharedCart';
+import type {
+  Allergen,
+  CartItems,
+  CartLine,
+  CreateOrderData,
+  IngredientStock,
+  MenuSchedule,
+  ModifierGroup,
+  OperatingHours,
+  SelectedModifier
+} from '../types';
 
 interface MenuItem {
   _id: string;
@@ -33,9 +79,37 @@ interface MenuItem {
     takeawayOrdersCount: number;
   };
   totalTakeawayPrice?: number;
+  sortOrder?: number;
   isTakeawayAvailable?: boolean;
+  modifierGroups?: ModifierGroup[];
+  allergens?: Allergen[];
+  trackStock?: boolean;
+  stockQuantity?: number;
 }
 
+// Price of one unit of a cart line: dine-in or takeaway price, plus its options
+const getUnitPrice = (item: MenuItem, line: { isTakeaway: boolean; modifiers?: SelectedModifier[] }) => {
+  let price = item.price;
+  if (line.isTakeaway && item.takeaway?.isTakeawayAvailable) {
+    price = (item.takeaway.takeawayPrice || item.price) + (item.takeaway.packagingFee || 0);
+  }
+  return price + getModifierTotal(line.modifiers);
+};
+
+// A cart line joined with its menu item, for display
+interface CartDisplayItem extends MenuItem {
+  cartKey: string;
+  quantity: number;
+  isTakeaway: boolean;
+  modifiers?: SelectedModifier[];
+  note?: string;
+  guestName?: string;
+  displayPrice: number;
+}
+
+const MAX_LINE_NOTE_LENGTH = 140;
+const MAX_ORDER_NOTES_LENGTH = 500;
+
 interface Restaurant {
   _id: string;
   name: string;
@@ -58,12 +132,17 @@ interface Restaurant {
     average: number;
     count: number;
   };
+  operatingHours?: OperatingHours;
+  menuSchedules?: MenuSchedule[];
+  ingredientStock?: IngredientStock[];
 }
 
 interface Category {
   _id: string;
   name: string;
   description?: string;
+  sortOrder?: number;
+  isHidden?: boolean;
 }
 
 // Order History Interfaces
@@ -73,6 +152,7 @@ interface OrderItem {
   quantity: number;
   price: number;
   isTakeaway: boolean;
+  modifiers?: SelectedModifier[];
   specialInstructions?: string;
 }
 
@@ -88,7 +168,7 @@ interface Order {
   items: OrderItem[];
   totalAmount: number;
   status: 'pending' | 'confirmed' | 'preparing' | 'ready' | 'served' | 'completed' | 'cancelled';
-  paymentStatus: 'pending' | 'paid' | 'refunded';
+  paymentStatus: 'pending' | 'partially_paid' | 'paid' | 'refunded';
   orderType: 'dine-in' | 'takeaway';
   table?: {
     tableNumber: string;
@@ -109,7 +189,17 @@ interface OrderHistoryState {
   };
 }
 
+// Customers follow the restaurant's stock stream so items sell out while the menu is open
 const CustomerMenu: React.FC = () => {
+  const { restaurantId } = useParams<{ restaurantId: string }>();
+  return (
+    <RealtimeProvider publicStream={restaurantId ? { scope: 'stock', id: restaurantId } : undefined}>
+      <CustomerMenuView />
+    </RealtimeProvider>
+  );
+};
+
+const CustomerMenuView: React.FC = () => {
   const { restaurantId } = useParams<{ restaurantId: string }>();
   const navigate = useNavigate();
   const location = useLocation();
@@ -121,7 +211,8 @@ const CustomerMenu: React.FC = () => {
   const [loading, setLoading] = useState(true);
   const [selectedCategory, setSelectedCategory] = useState<string>('all');
   const [searchTerm, setSearchTerm] = useState('');
-  const [cart, setCart] = useState<{[key: string]: { quantity: number; isTakeaway: boolean }}>({});
+  const [showFilters, setShowFilters] = useState(false);
+  const [now, setNow] = useState(() => Date.now());
   const [showCart, setShowCart] = useState(false);
   const [cartAnimation, setCartAnimation] = useState(false);
   const [isClosing, setIsClosing] = useState(false);
@@ -137,6 +228,11 @@ const CustomerMenu: React.FC = () => {
   // Takeaway modal state
   const [showTakeawayModal, setShowTakeawayModal] = useState(false);
   const [takeawayItemId, setTakeawayItemId] = useState<string | null>(null);
+  const [takeawayModifiers, setTakeawayModifiers] = useState<SelectedModifier[] | undefined>(undefined);
+
+  // Options modal state, for items with option groups
+  const [optionsItemId, setOptionsItemId] = useState<string | null>(null);
+  const [optionsIsTakeaway, setOptionsIsTakeaway] = useState(false);
   
   // Restaurant rating state
   const [restaurantUserRating, setRestaurantUserRating] = useState(0);
@@ -148,8 +244,15 @@ const CustomerMenu: React.FC = () => {
   // Customer info modal state - with name persistence
   const [showCustomerModal, setShowCustomerModal] = useState(false);
   const [customerName, setCustomerName] = useState('');
+  // Notes for the whole order, e.g. allergies; not shared with the table
+  const [orderNotes, setOrderNotes] = useState('');
   const [showNameEditModal, setShowNameEditModal] = useState(false);
   const [tempCustomerName, setTempCustomerName] = useState('');
+
+  // Group ordering: the name this device joined the table's order with
+  const [guestName, setGuestName] = useState('');
+  const [showJoinModal, setShowJoinModal] = useState(false);
+  const [pendingCartItem, setPendingCartItem] = useState<{ itemId: string; isTakeaway: boolean; modifiers?: SelectedModifier[] } | null>(null);
   
   // Order submission loading state
   const [isSubmittingOrder, setIsSubmittingOrder] = useState(false);
@@ -191,10 +294,16 @@ const CustomerMenu: React.FC = () => {
     type: 'success' | 'error' | 'warning' | 'info';
   } | null>(null);
 
-  // Get table number from URL query parameter
-  const getTableNumberFromUrl = () => {
+  // Get the signed table token from a table QR link
+  const getTableTokenFromUrl = () => {
+    const searchParams = new URLSearchParams(location.search);
+    return searchParams.get('t') || null;
+  };
+
+  // Old links carried a bare table number, which is no longer accepted
+  const hasLegacyTableInUrl = () => {
     const searchParams = new URLSearchParams(location.search);
-    return searchParams.get('table') || '';
+    return !!searchParams.get('table') && !searchParams.get('t');
   };
 
   // Get category from URL query parameter
@@ -209,9 +318,83 @@ const CustomerMenu: React.FC = () => {
     return searchParams.get('item') || null;
   };
 
-  const tableNumber = getTableNumberFromUrl();
+  // Get shared cart ID from URL query parameter
+  const getCartIdFromUrl = () => {
+    const searchParams = new URLSearchParams(location.search);
+    return searchParams.get('cart') || null;
+  };
+
+  const urlTableToken = getTableTokenFromUrl();
+  const { table: verifiedTable, state: tableTokenState, error: tableTokenError } =
+    useTableToken(restaurantId, urlTableToken, hasLegacyTableInUrl());
+  const tableNumber = verifiedTable?.tableNumber || '';
   const urlCategory = getCategoryFromUrl();
   const urlItemId = getItemIdFromUrl();
+  const urlCartId = getCartIdFromUrl();
+
+  // Diet, allergen, spice and price filters live in the URL so a filtered menu can be shared
+  const menuFilters = parseMenuFilters(new URLSearchParams(location.search));
+  const activeFilterCount = countActiveFilters(menuFilters);
+
+  const updateMenuFilters = (filters: MenuFilters) => {
+    const searchParams = applyMenuFilters(new URLSearchParams(location.search), filters);
+    navigate({ search: searchParams.toString() }, { replace: true });
+  };
+
+  // Opening hours and scheduled menus are checked against the clock, so re-check every minute
+  useEffect(() => {
+    const interval = window.setInterval(() => setNow(Date.now()), 60000);
+    return () => window.clearInterval(interval);
+  }, []);
+
+  const currentTime = new Date(now);
+  const openingStatus = getOpeningStatus(restaurant?.operatingHours, currentTime);
+  const getAvailability = (categoryId: string) =>
+    getCategoryAvailability(categoryId, restaurant?.menuSchedules, currentTime);
+
+  // Why an item can't be ordered right now, if it can't
+  const getUnavailableMessage = (item: MenuItem) => {
+    if (isSoldOut(item, restaurant?.ingredientStock)) return 'Sold out';
+    const availability = getAvailability(item.category._id);
+    if (availability.state === 'available') return null;
+    return availability.opensAt
+      ? `Available from ${formatUpcomingTime(availability.opensAt, currentTime)}`
+      : 'Not available right now';
+  };
+
+  // The restaurant can hide a whole category, along with its items
+  const hiddenCategoryIds = new Set(categories.filter(category => category.isHidden).map(category => category._id));
+
+  const visibleCategories = categories.filter(category =>
+    !hiddenCategoryIds.has(category._id) && getAvailability(category._id).state !== 'hidden'
+  );
+
+  const hasActiveFilters = !!searchTerm || selectedCategory !== 'all' || activeFilterCount > 0;
+
+  const clearAllFilters = () => {
+    setSearchTerm('');
+    setSelectedCategory('all');
+    if (activeFilterCount > 0) updateMenuFilters(EMPTY_MENU_FILTERS);
+  };
+
+  // Scanning a table QR puts everyone at that table on one group order
+  const isGroupOrder = !!tableNumber;
+
+  // Cart survives reloads and can be shared with the rest of the table
+  const { cart, setCart, clearCart, guests, shareUrl, syncState } = useSharedCart({
+    restaurantId,
+    tableNumber,
+    sharedCartId: urlCartId,
+    tableToken: verifiedTable ? urlTableToken : null,
+    guestName: isGroupOrder ? guestName : undefined
+  });
+
+  // Every line going into the order; in group mode each one is tagged with its guest
+  const orderLines: (CartLine & { key: string; itemId: string; guestName?: string })[] = isGroupOrder && guests
+    ? Object.entries(guests).flatMap(([name, items]) =>
+        Object.entries(items).map(([key, line]) => ({ ...line, key, itemId: getCartKeyItemId(key), guestName: name }))
+      )
+    : Object.entries(cart).map(([key, line]) => ({ ...line, key, itemId: getCartKeyItemId(key) }));
   const primaryColor = restaurant?.theme?.primaryColor || '#FF6B6B';
 
   // Get or create customer ID from localStorage
@@ -232,6 +415,7 @@ const CustomerMenu: React.FC = () => {
       const savedName = localStorage.getItem(customerNameKey);
       if (savedName) {
         setCustomerName(savedName);
+        setGuestName(savedName);
       }
     } catch (error) {
       console.error('Failed to load customer name:', error);
@@ -245,6 +429,7 @@ const CustomerMenu: React.FC = () => {
       const customerNameKey = `customer_name_${customerId}`;
       localStorage.setItem(customerNameKey, name);
       setCustomerName(name);
+      setGuestName(name);
     } catch (error) {
       console.error('Failed to save customer name:', error);
     }
@@ -284,14 +469,8 @@ const CustomerMenu: React.FC = () => {
 const loadRestaurantRating = async () => {
   try {
     const customerId = getCustomerId();
-    const response = await fetch(
-      `http://localhost:5000/api/public/restaurants/${restaurantId}/user-rating?sessionId=${customerId}`
-    );
-    
-    if (response.ok) {
-      const data = await response.json();
-      setRestaurantUserRating(data.userRating || 0);
-    }
+    const userRating = await publicService.getRestaurantUserRating(restaurantId!, customerId);
+    setRestaurantUserRating(userRating);
   } catch (error) {
     console.error('Failed to load restaurant rating:', error);
   }
@@ -308,7 +487,7 @@ useEffect(() => {
   // Handle URL parameters for category and item highlighting
   useEffect(() => {
     if (!loading && menuItems.length > 0) {
-      if (urlCategory && categories.some(cat => cat._id === urlCategory)) {
+      if (urlCategory && categories.some(cat => cat._id === urlCategory && !cat.isHidden)) {
         setSelectedCategory(urlCategory);
       }
       
@@ -336,22 +515,15 @@ useEffect(() => {
       const currentSearchTerm = searchTermRef.current;
       saveScrollPosition();
       
-      const [restaurantResponse, menuResponse, categoriesResponse] = await Promise.all([
-        fetch(`http://localhost:5000/api/public/restaurants/${restaurantId}`),
-        fetch(`http://localhost:5000/api/public/restaurants/${restaurantId}/menu`),
-        fetch(`http://localhost:5000/api/public/restaurants/${restaurantId}/categories`)
+      const [restaurantData, menuData, categoriesData] = await Promise.all([
+        publicService.getRestaurant<Restaurant>(restaurantId!),
+        publicService.getRestaurantMenu<MenuItem>(restaurantId!),
+        publicService.getRestaurantCategories<Category>(restaurantId!).catch(() => [])
       ]);
 
-      if (!restaurantResponse.ok) throw new Error('Failed to load restaurant');
-      if (!menuResponse.ok) throw new Error('Failed to load menu');
-      
-      const restaurantData = await restaurantResponse.json();
-      const menuData = await menuResponse.json();
-      const categoriesData = categoriesResponse.ok ? await categoriesResponse.json() : { categories: [] };
-
-      setRestaurant(restaurantData.restaurant || restaurantData);
-      setMenuItems(menuData.menuItems || []);
-      setCategories(categoriesData.categories || []);
+      setRestaurant(restaurantData);
+      setMenuItems(menuData);
+      setCategories([...categoriesData].sort(compareSortOrder));
       
       // Restore the category and search term after data loads
       setSelectedCategory(currentCategory);
@@ -362,21 +534,25 @@ useEffect(() => {
         restoreScrollPosition();
       }, 200);
       
-    } catch (error: any) {
-      showError(`Failed to load restaurant menu: ${error.message}`);
+    } catch (error) {
+      // Offline with nothing cached by the service worker yet
+      showError(isNetworkError(error)
+        ? "You're offline and this menu hasn't been saved on this device yet"
+        : `Failed to load restaurant menu: ${getApiErrorMessage(error)}`);
       navigate('/waiter/restaurants');
     } finally {
       setLoading(false);
     }
   };
 
-  const filteredItems = menuItems.filter(item => {
+  const filteredItems = sortMenuItems(menuItems.filter(item => {
     const matchesCategory = selectedCategory === 'all' || item.category._id === selectedCategory;
     const matchesSearch = item.name.toLowerCase().includes(searchTerm.toLowerCase()) ||
                          item.description.toLowerCase().includes(searchTerm.toLowerCase()) ||
                          item.ingredients.some(ing => ing.toLowerCase().includes(searchTerm.toLowerCase()));
-    return matchesCategory && matchesSearch;
-  });
+    const isHidden = hiddenCategoryIds.has(item.category._id) || getAvailability(item.category._id).state === 'hidden';
+    return matchesCategory && matchesSearch && !isHidden && matchesMenuFilters(item, menuFilters);
+  }), item => item.category._id, categories.map(category => category._id));
 
   const getRestaurantRating = () => {
     return restaurant?.rating?.average || 0;
@@ -384,7 +560,8 @@ useEffect(() => {
 
   const averageRestaurantRating = getRestaurantRating();
 
-  const addToCart = (itemId: string, isTakeaway: boolean = false) => {
+  // modifiers is undefined until the customer has picked options for an item that has them
+  const addToCart = (itemId: string, isTakeaway: boolean = false, modifiers?: SelectedModifier[]) => {
     const item = menuItems.find(mi => mi._id === itemId);
     
     const isTakeawayAvailable = item?.takeaway?.isTakeawayAvailable || item?.isTakeawayAvailable;
@@ -394,26 +571,54 @@ useEffect(() => {
       return;
     }
 
+    if (item && isSoldOut(item, restaurant?.ingredientStock)) {
+      showCustomerToast(`Sorry, ${item.name} is sold out`, 'warning');
+      return;
+    }
+
+    const unavailableMessage = item && getUnavailableMessage(item);
+    if (unavailableMessage) {
+      showCustomerToast(`${item.name} is not being served right now. ${unavailableMessage}.`, 'warning');
+      return;
+    }
+
+    // Guests join the table's order with their name before adding items
+    if (isGroupOrder && !guestName) {
+      setPendingCartItem({ itemId, isTakeaway, modifiers });
+      setTempCustomerName(customerName);
+      setShowJoinModal(true);
+      return;
+    }
+
+    if (item?.modifierGroups?.length && !modifiers) {
+      setOptionsItemId(itemId);
+      setOptionsIsTakeaway(isTakeaway);
+      return;
+    }
+
+    const key = getCartKey(itemId, modifiers);
+
     setCart(prev => {
-      const existing = prev[itemId];
+      const existing = prev[key];
       if (existing) {
         return {
           ...prev,
-          [itemId]: { 
-            quantity: existing.quantity + 1, 
-            isTakeaway: existing.isTakeaway 
+          [key]: { 
+            ...existing,
+            quantity: existing.quantity + 1
           }
         };
       } else {
         if (isTakeawayAvailable && !isTakeaway) {
           setTakeawayItemId(itemId);
+          setTakeawayModifiers(modifiers);
           setShowTakeawayModal(true);
           return prev;
         }
         showCustomerToast('Item added to cart!', 'success');
         return {
           ...prev,
-          [itemId]: { quantity: 1, isTakeaway }
+          [key]: { quantity: 1, isTakeaway, modifiers }
         };
       }
     }); 
@@ -422,24 +627,72 @@ useEffect(() => {
     setTimeout(() => setCartAnimation(false), 600);
   };
 
+  // Cart keys holding this item, one per set of options
+  const getItemCartKeys = (itemId: string) =>
+    Object.keys(cart).filter(key => getCartKeyItemId(key) === itemId);
+
+  // New counts arrive as other orders are accepted; warn if something in the cart just ran out
+  useRealtimeStock((update) => {
+    const ingredientStock = update.ingredients || restaurant?.ingredientStock;
+    const updatedItems = applyStockUpdate(menuItems, update, item => item._id);
+    const soldOutInCart = updatedItems.filter((item, index) =>
+      getItemCartKeys(item._id).length > 0
+      && isSoldOut(item, ingredientStock)
+      && !isSoldOut(menuItems[index], restaurant?.ingredientStock)
+    );
+
+    setMenuItems(updatedItems);
+    if (update.ingredients) {
+      setRestaurant(prev => (prev ? { ...prev, ingredientStock: update.ingredients } : prev));
+    }
+    if (soldOutInCart.length > 0) {
+      showCustomerToast(
+        `${soldOutInCart.map(item => item.name).join(', ')} just sold out. Please remove ${soldOutInCart.length > 1 ? 'them' : 'it'} from your cart.`,
+        'warning'
+      );
+    }
+  });
+
+  // From the menu card: takes one off the item's most recently added line
   const removeFromCart = (itemId: string) => {
+    const key = getItemCartKeys(itemId).pop();
+    if (!key) return;
+
     setCart(prev => {
       const newCart = { ...prev };
-      if (newCart[itemId].quantity > 1) {
-        newCart[itemId] = { ...newCart[itemId], quantity: newCart[itemId].quantity - 1 };
+      if (!newCart[key]) return prev;
+      if (newCart[key].quantity > 1) {
+        newCart[key] = { ...newCart[key], quantity: newCart[key].quantity - 1 };
       } else {
-        delete newCart[itemId];
+        delete newCart[key];
       }
       return newCart;
     });
   };
 
   const getCartItemCount = () => {
-    return Object.values(cart).reduce((sum, item) => sum + item.quantity, 0);
+    return orderLines.reduce((sum, line) => sum + line.quantity, 0);
   };
 
   const getItemQuantity = (itemId: string) => {
-    return cart[itemId]?.quantity || 0;
+    return getItemCartKeys(itemId).reduce((sum, key) => sum + cart[key].quantity, 0);
+  };
+
+  // Share the cart link so others at the table can add to it
+  const handleShareCart = async () => {
+    try {
+      if (navigator.share) {
+        await navigator.share({ title: `${restaurant?.name || 'Our'} order`, text: 'Add your items to our order', url: shareUrl });
+        return;
+      }
+      await navigator.clipboard.writeText(shareUrl);
+      showCustomerToast('Cart link copied! Send it to your table.', 'success');
+    } catch (error) {
+      // Dismissing the share sheet is not an error
+      if ((error as Error).name !== 'AbortError') {
+        showCustomerToast('Could not share the cart link', 'error');
+      }
+    }
   };
 
   const handleCloseCart = () => {
@@ -462,23 +715,7 @@ useEffect(() => {
       const customerId = getCustomerId();
       const action = isLiked ? 'unlike' : 'like';
       
-      const response = await fetch(`http://localhost:5000/api/public/menu-items/${itemId}/like`, {
-        method: 'POST',
-        headers: {
-          'Content-Type': 'application/json',
-        },
-        body: JSON.stringify({
-          sessionId: customerId,
-          action: action
-        })
-      });
-
-      if (!response.ok) {
-        const errorData = await response.json();
-        throw new Error(errorData.error || `Failed to ${action} item`);
-      }
-
-      const data = await response.json();
+      const data = await publicService.likeMenuItem(itemId, customerId, action);
       
       const newLikedItems = new Set(likedItems);
       if (isLiked) {
@@ -494,9 +731,9 @@ useEffect(() => {
       ));
 
       showCustomerToast(isLiked ? 'Removed from favorites' : 'Added to favorites!', 'success');
-    } catch (error: any) {
+    } catch (error) {
       console.error('Like error:', error);
-      showCustomerToast(`Failed to update: ${error.message}`, 'error');
+      showCustomerToast(`Failed to update: ${getApiErrorMessage(error)}`, 'error');
     }
   };
 
@@ -514,24 +751,7 @@ useEffect(() => {
     try {
       const customerId = getCustomerId();
 
-      const response = await fetch(`http://localhost:5000/api/public/menu-items/${ratingItemId}/rate`, {
-        method: 'POST',
-        headers: {
-          'Content-Type': 'application/json',
-        },
-        body: JSON.stringify({
-          rating: userRating,
-          sessionId: customerId,
-          action: 'set'
-        })
-      });
-
-      if (!response.ok) {
-        const errorData = await response.json();
-        throw new Error(errorData.details || errorData.error || 'Failed to submit rating');
-      }
-
-      const data = await response.json();
+      const data = await publicService.rateMenuItem(ratingItemId, customerId, userRating);
       
       setMenuItems(prev => prev.map(item => 
         item._id === ratingItemId ? { 
@@ -547,9 +767,9 @@ useEffect(() => {
       setShowRatingModal(false);
       setRatingItemId(null);
       setUserRating(0);
-    } catch (error: any) {
+    } catch (error) {
       console.error('❌ Rating submission error:', error);
-      showCustomerToast(`Failed to submit rating: ${error.message}`, 'error');
+      showCustomerToast(`Failed to submit rating: ${getApiErrorMessage(error)}`, 'error');
     }
   };
 
@@ -558,7 +778,7 @@ useEffect(() => {
     if (takeawayItemId) {
       setCart(prev => ({
         ...prev,
-        [takeawayItemId]: { quantity: 1, isTakeaway }
+        [getCartKey(takeawayItemId, takeawayModifiers)]: { quantity: 1, isTakeaway, modifiers: takeawayModifiers }
       }));
       
       showCustomerToast(
@@ -572,6 +792,15 @@ useEffect(() => {
     
     setShowTakeawayModal(false);
     setTakeawayItemId(null);
+    setTakeawayModifiers(undefined);
+  };
+
+  // Options picked for an item with option groups
+  const handleOptionsConfirm = (modifiers: SelectedModifier[]) => {
+    if (optionsItemId) {
+      addToCart(optionsItemId, optionsIsTakeaway, modifiers);
+    }
+    setOptionsItemId(null);
   };
 
   // Handle checkout - show customer info modal
@@ -579,6 +808,30 @@ useEffect(() => {
     setShowCustomerModal(true);
   };
 
+  // Join the table's group order, then add the item that prompted it
+  const handleJoinGroup = () => {
+    if (!tempCustomerName.trim()) {
+      showCustomerToast('Please enter your name', 'error');
+      return;
+    }
+    saveCustomerName(tempCustomerName.trim());
+    setShowJoinModal(false);
+  };
+
+  // addToCart reads the latest cart, so keep a ref to it for the effect below
+  const addToCartRef = useRef(addToCart);
+
+  useEffect(() => {
+    addToCartRef.current = addToCart;
+  });
+
+  useEffect(() => {
+    if (guestName && pendingCartItem) {
+      setPendingCartItem(null);
+      addToCartRef.current(pendingCartItem.itemId, pendingCartItem.isTakeaway, pendingCartItem.modifiers);
+    }
+  }, [guestName, pendingCartItem]);
+
   // Save order to history function
 const saveOrderToHistory = (orderData: any) => {
   try {
@@ -605,6 +858,68 @@ const saveOrderToHistory = (orderData: any) => {
     console.error('❌ Failed to save order to history:', error);
   }
 };
+  // Orders placed while offline are sent once connectivity returns
+  const { isOnline, pendingOrders, queueOrder } = useOrderQueue({
+    onSubmitted: (createdOrder, entry) => {
+      saveOrderToHistory({
+        ...createdOrder,
+        restaurant: {
+          _id: entry.orderData.restaurant,
+          name: entry.restaurantInfo?.name,
+          logo: entry.restaurantInfo?.logo
+        }
+      });
+      showCustomerToast(`Your queued order for ${entry.orderData.customerName} was sent!`, 'success');
+    },
+    onRejected: (error) => {
+      showCustomerToast(`A queued order could not be placed: ${getApiErrorMessage(error)}`, 'error');
+    }
+  });
+
+  // Keep the order on this device and clear the cart
+  const queueCurrentOrder = (orderData: CreateOrderData, idempotencyKey: string) => {
+    queueOrder(orderData, {
+      tableNumber,
+      restaurantInfo: { name: restaurant?.name, logo: restaurant?.logo },
+      idempotencyKey
+    });
+    saveCustomerName(customerName.trim());
+    showCustomerToast("You're offline. Your order is saved and will be sent when you reconnect.", 'info');
+    clearCart();
+    setOrderNotes('');
+    setShowCustomerModal(false);
+    setShowCart(false);
+  };
+
+  // Cart lines that can't be ordered any more, one entry per item, e.g. "Jollof Rice: Sold out".
+  // The cart may have sat open while items sold out or a menu's serving window ended.
+  const getCheckoutProblems = () => {
+    // Every line of an item counts towards its stock, whatever the options or guest
+    const quantities = new Map<string, number>();
+    orderLines.forEach(({ itemId, quantity }) => {
+      quantities.set(itemId, (quantities.get(itemId) || 0) + quantity);
+    });
+
+    const problems: string[] = [];
+    quantities.forEach((quantity, itemId) => {
+      const item = menuItems.find(mi => mi._id === itemId);
+      if (!item || hiddenCategoryIds.has(item.category._id)) {
+        problems.push(`${item?.name || 'An item in your cart'}: No longer on the menu`);
+        return;
+      }
+      const unavailableMessage = getUnavailableMessage(item);
+      if (unavailableMessage) {
+        problems.push(`${item.name}: ${unavailableMessage}`);
+        return;
+      }
+      const availableQuantity = getAvailableQuantity(item, restaurant?.ingredientStock);
+      if (availableQuantity !== null && quantity > availableQuantity) {
+        problems.push(`${item.name}: Only ${availableQuantity} left, ${quantity} in the cart`);
+      }
+    });
+    return problems;
+  };
+
   // Handle customer info submission with loading state
   const handleCustomerInfoSubmit = async () => {
     if (isSubmittingOrder) {
@@ -616,97 +931,65 @@ const saveOrderToHistory = (orderData: any) => {
       return;
     }
 
+    if (openingStatus && !openingStatus.isOpen) {
+      const opensAt = openingStatus.opensAt ? ` Opens ${formatUpcomingTime(openingStatus.opensAt, currentTime)}.` : '';
+      showCustomerToast(`Sorry, we're closed right now, so orders can't be placed.${opensAt}`, 'error');
+      return;
+    }
+
+    const checkoutProblems = getCheckoutProblems();
+    if (checkoutProblems.length > 0) {
+      showCustomerToast(`Please update your cart before ordering. ${checkoutProblems.join('; ')}`, 'error');
+      return;
+    }
+
     setIsSubmittingOrder(true);
 
-    try {
-      let tableId = null;
-      if (tableNumber) {
-        const tablesResponse = await fetch(`http://localhost:5000/api/tables?restaurant=${restaurantId}&tableNumber=${tableNumber}`);
-        if (tablesResponse.ok) {
-          const tablesData = await tablesResponse.json();
-          if (tablesData.tables && tablesData.tables.length > 0) {
-            tableId = tablesData.tables[0]._id;
-          } else {
-            const createTableResponse = await fetch('http://localhost:5000/api/tables', {
-              method: 'POST',
-              headers: {
-                'Content-Type': 'application/json',
-              },
-              body: JSON.stringify({
-                restaurant: restaurantId,
-                tableNumber: parseInt(tableNumber),
-                capacity: 4,
-                status: 'occupied'
-              })
-            });
-            
-            if (createTableResponse.ok) {
-              const tableData = await createTableResponse.json();
-              tableId = tableData.table._id;
-            }
-          }
-        }
-      }
+    // Sent with the first attempt too, so a replay can't create a duplicate
+    const idempotencyKey = createIdempotencyKey();
+    let orderData: CreateOrderData | null = null;
 
-      const orderData = {
-        restaurant: restaurantId,
+    try {
+      orderData = {
+        restaurant: restaurantId!,
         customerName: customerName.trim(),
-        table: tableId,
-        items: Object.entries(cart).map(([itemId, cartItem]) => {
+        table: verifiedTable?.id || null,
+        tableToken: (verifiedTable && urlTableToken) || undefined,
+        items: orderLines.map(({ itemId, guestName: lineGuestName, ...cartItem }) => {
           const item = menuItems.find(mi => mi._id === itemId);
-          
-          let price = item?.price || 0;
-          let specialInstructions = "";
-          
-          if (cartItem.isTakeaway && item?.takeaway?.isTakeawayAvailable) {
-            const takeawayPrice = item.takeaway.takeawayPrice || item.price;
-            const packagingFee = item.takeaway.packagingFee || 0;
-            price = takeawayPrice + packagingFee;
-            specialInstructions = "Takeaway";
-          }
+          const isTakeaway = !!(cartItem.isTakeaway && item?.takeaway?.isTakeawayAvailable);
           
           return {
             menuItem: itemId,
             quantity: cartItem.quantity,
-            price: price,
-            specialInstructions: specialInstructions
+            price: item ? getUnitPrice(item, cartItem) : 0,
+            modifiers: cartItem.modifiers,
+            isTakeaway,
+            specialInstructions: cartItem.note?.trim() || undefined,
+            guestName: lineGuestName
           };
         }),
-        totalAmount: Object.entries(cart).reduce((sum, [itemId, cartItem]) => {
+        totalAmount: orderLines.reduce((sum, { itemId, ...cartItem }) => {
           const item = menuItems.find(mi => mi._id === itemId);
-          let price = item?.price || 0;
-          
-          if (cartItem.isTakeaway && item?.takeaway?.isTakeawayAvailable) {
-            const takeawayPrice = item.takeaway.takeawayPrice || item.price;
-            const packagingFee = item.takeaway.packagingFee || 0;
-            price = takeawayPrice + packagingFee;
-          }
-          
+          const price = item ? getUnitPrice(item, cartItem) : 0;
           return sum + (price * cartItem.quantity);
         }, 0),
-        orderType: tableNumber ? 'dine-in' : 'takeaway'
+        orderType: tableNumber ? 'dine-in' : 'takeaway',
+        customerNotes: orderNotes.trim() || undefined
       };
 
-      console.log('📦 Sending order data:', orderData);
-
-      const response = await fetch('http://localhost:5000/api/orders', {
-        method: 'POST',
-        headers: {
-          'Content-Type': 'application/json',
-        },
-        body: JSON.stringify(orderData)
-      });
-
-      if (!response.ok) {
-        const errorData = await response.json();
-        throw new Error(errorData.details || errorData.error || 'Failed to create order');
+      if (!navigator.onLine) {
+        queueCurrentOrder(orderData, idempotencyKey);
+        return;
       }
 
-      const orderResponse = await response.json();
+      console.log('📦 Sending order data:', orderData);
+
+      const createdOrder = await orderService.createOrder(orderData, idempotencyKey);
 
 // Save order to history
 saveOrderToHistory({
-  ...orderResponse.order,
+  ...createdOrder,
   restaurant: {
     _id: restaurantId,
     name: restaurant?.name,
@@ -720,13 +1003,19 @@ saveOrderToHistory({
       const tableInfo = tableNumber ? ` for Table ${tableNumber}` : '';
       showCustomerToast(`Order placed successfully!${tableInfo}`, 'success');
       
-      setCart({});
+      clearCart();
+      setOrderNotes('');
       setShowCustomerModal(false);
       setShowCart(false);
       
-    } catch (error: any) {
+    } catch (error) {
       console.error('❌ Order creation error:', error);
-      showCustomerToast(`Failed to place order: ${error.message}`, 'error');
+      if (orderData && isNetworkError(error)) {
+        // Lost connection mid-submit: the idempotency key makes the replay safe
+        queueCurrentOrder(orderData, idempotencyKey);
+        return;
+      }
+      showCustomerToast(`Failed to place order: ${getApiErrorMessage(error)}`, 'error');
     } finally {
       setIsSubmittingOrder(false);
     }
@@ -754,7 +1043,7 @@ saveOrderToHistory({
     }
   };
 
-  if (loading) {
+  if (loading || tableTokenState === 'checking') {
     return (
       <div className="min-h-screen bg-gray-50 flex items-center justify-center">
         <div className="text-center">
@@ -783,6 +1072,25 @@ saveOrderToHistory({
     );
   }
 
+  if (tableTokenState === 'invalid') {
+    return (
+      <div className="min-h-screen bg-gray-50 flex items-center justify-center">
+        <div className="text-center p-8 max-w-sm">
+          <i className="ri-qr-scan-2-line text-6xl text-gray-300 mb-4"></i>
+          <h3 className="text-2xl font-bold text-gray-900 mb-2">Table code not valid</h3>
+          <p className="text-gray-600 mb-6">{tableTokenError}</p>
+          <button
+            onClick={() => navigate(`/waiter/restaurant/${restaurantId}/menu`)}
+            className="text-white px-8 py-3.5 rounded-full font-semibold hover:opacity-90 transition-all shadow-md"
+            style={{ backgroundColor: primaryColor }}
+          >
+            Order Takeaway Instead
+          </button>
+        </div>
+      </div>
+    );
+  }
+
   return (
     <div className="min-h-screen bg-gray-50">
       <style>{`
@@ -796,6 +1104,16 @@ saveOrderToHistory({
         }
       `}</style>
 
+            {/* Offline Banner */}
+      {(!isOnline || pendingOrders.length > 0) && (
+        <div className={`w-full px-4 py-2 text-center text-sm font-medium ${isOnline ? 'bg-blue-50 text-blue-700' : 'bg-yellow-50 text-yellow-800'}`}>
+          <i className={`${isOnline ? 'ri-upload-cloud-2-line' : 'ri-wifi-off-line'} mr-2`}></i>
+          {isOnline
+            ? `Sending ${pendingOrders.length} saved order${pendingOrders.length > 1 ? 's' : ''}...`
+            : `You're offline, showing the last saved menu${pendingOrders.length > 0 ? ` · ${pendingOrders.length} order${pendingOrders.length > 1 ? 's' : ''} waiting to send` : ''}`}
+        </div>
+      )}
+
             {/* Header */}
       <div className="w-full shadow-sm sticky top-0 z-50 bg-white">
         <div className="max-w-7xl mx-auto px-4 sm:px-6 py-4">
@@ -962,6 +1280,20 @@ saveOrderToHistory({
         </div>
       </div>
 
+      {openingStatus && !openingStatus.isOpen && (
+        <div className="max-w-7xl mx-auto px-3 lg:px-6 pt-4">
+          <div className="flex items-center gap-3 p-3 sm:p-4 bg-amber-50 border border-amber-200 rounded-2xl">
+            <i className="ri-time-line text-xl text-amber-600"></i>
+            <div className="text-sm">
+              <p className="font-semibold text-amber-900">Closed now</p>
+              {openingStatus.opensAt && (
+                <p className="text-amber-700">Opens {formatUpcomingTime(openingStatus.opensAt, currentTime)}</p>
+              )}
+            </div>
+          </div>
+        </div>
+      )}
+
       {/* Search & Filter */}
       <div className="max-w-7xl mx-auto lg:px-6 lg:py-4 pb-6">
         <div className="bg-white rounded-b-3xl rounded-t-none lg:rounded-3xl p-4 sm:p-6 shadow-sm border border-gray-100 mb-6">
@@ -978,8 +1310,31 @@ saveOrderToHistory({
                 />
               </div>
             </div>
+            <button
+              onClick={() => setShowFilters(!showFilters)}
+              className={`flex items-center justify-center gap-2 px-5 py-3 sm:py-4 rounded-2xl font-medium text-sm sm:text-base transition-all ${
+                showFilters || activeFilterCount > 0 ? 'text-white shadow-md' : 'bg-gray-50 text-gray-700 hover:bg-gray-100'
+              }`}
+              style={showFilters || activeFilterCount > 0 ? { backgroundColor: primaryColor } : {}}
+            >
+              <i className="ri-equalizer-line"></i>
+              Filters
+              {activeFilterCount > 0 && (
+                <span className="min-w-5 h-5 px-1.5 rounded-full bg-white text-xs font-bold flex items-center justify-center" style={{ color: primaryColor }}>
+                  {activeFilterCount}
+                </span>
+              )}
+            </button>
           </div>
 
+          {showFilters && (
+            <MenuFiltersPanel
+              filters={menuFilters}
+              onChange={updateMenuFilters}
+              primaryColor={primaryColor}
+            />
+          )}
+
           {/* Horizontally Scrollable Category Tags */}
           <div className="mt-4 sm:mt-5">
             <div
@@ -1007,7 +1362,7 @@ saveOrderToHistory({
                 </button>
 
                 {/* Dynamic Categories */}
-                {categories.map((category) => (
+                {visibleCategories.map((category) => (
                   <button
                     key={category._id}
                     onClick={() => setSelectedCategory(category._id)}
@@ -1029,7 +1384,7 @@ saveOrderToHistory({
             </div>
           </div>
 
-          {(searchTerm || selectedCategory !== 'all') && (
+          {hasActiveFilters && (
             <div className="mt-4 sm:mt-5 p-3 sm:p-4 bg-gray-50 rounded-2xl">
               <div className="flex flex-col sm:flex-row sm:items-center justify-between gap-3">
                 <div className="flex items-center justify-between gap-3">
@@ -1074,15 +1429,27 @@ saveOrderToHistory({
                         </button>
                       </span>
                     )}
+
+                    {activeFilterCount > 0 && (
+                      <span className="inline-flex items-center gap-2 bg-white px-3 py-1.5 rounded-full border border-gray-200 text-sm">
+                        <i className="ri-equalizer-line text-gray-400"></i>
+                        <span className="text-gray-700">
+                          {activeFilterCount} filter{activeFilterCount > 1 ? 's' : ''}
+                        </span>
+                        <button
+                          onClick={() => updateMenuFilters(EMPTY_MENU_FILTERS)}
+                          className="w-5 h-5 rounded-full bg-gray-100 hover:bg-gray-200 flex items-center justify-center transition-colors"
+                        >
+                          <i className="ri-close-line text-xs text-gray-500"></i>
+                        </button>
+                      </span>
+                    )}
                   </div>
                 </div>
                 
-                {(searchTerm || selectedCategory !== 'all') && (
+                {hasActiveFilters && (
                   <button
-                    onClick={() => {
-                      setSearchTerm('');
-                      setSelectedCategory('all');
-                    }}
+                    onClick={clearAllFilters}
                     className="text-sm font-medium hover:underline flex justify-center items-center gap-2 text-left sm:text-right px-3 py-1.5 bg-white border border-gray-200 rounded-full hover:bg-gray-50 transition-colors"
                     style={{ color: primaryColor }}
                   >
@@ -1101,12 +1468,9 @@ saveOrderToHistory({
             <i className="ri-restaurant-line text-4xl sm:text-6xl text-gray-300 mb-4"></i>
             <h3 className="text-xl sm:text-2xl font-bold text-gray-900 mb-3 sm:mb-4">No items found</h3>
             <p className="text-gray-500 text-sm sm:text-base mb-4 sm:mb-6">Try adjusting your search criteria</p>
-            {(searchTerm || selectedCategory !== 'all') && (
+            {hasActiveFilters && (
               <button
-                onClick={() => {
-                  setSearchTerm('');
-                  setSelectedCategory('all');
-                }}
+                onClick={clearAllFilters}
                 className="text-white px-6 sm:px-8 py-2.5 sm:py-3.5 rounded-full font-semibold hover:opacity-90 transition-all shadow-md text-sm sm:text-base"
                 style={{ backgroundColor: primaryColor }}
               >
@@ -1130,7 +1494,8 @@ saveOrderToHistory({
                   isLiked={likedItems.has(item._id)}
                   onLike={() => handleLike(item._id, likedItems.has(item._id))}
                   onRate={() => handleRatingClick(item._id)}
-                  isTakeaway={cart[item._id]?.isTakeaway}
+                  isTakeaway={cart[getItemCartKeys(item._id)[0]]?.isTakeaway}
+                  unavailableMessage={getUnavailableMessage(item)}
                 />
               </div>
             ))}
@@ -1169,6 +1534,12 @@ saveOrderToHistory({
               cart={cart}
               menuItems={menuItems}
               onUpdateCart={setCart}
+              onShare={handleShareCart}
+              syncState={syncState}
+              guestName={isGroupOrder ? guestName : undefined}
+              otherGuests={isGroupOrder && guests
+                ? Object.entries(guests).filter(([name, items]) => name !== guestName && Object.keys(items).length > 0)
+                : []}
               onClose={handleCloseCart}
               onCheckout={handleCheckout}
               restaurant={restaurant}
@@ -1183,19 +1554,28 @@ saveOrderToHistory({
         <CustomerInfoModal
           customerName={customerName}
           onCustomerNameChange={setCustomerName}
+          orderNotes={orderNotes}
+          onOrderNotesChange={setOrderNotes}
           onSubmit={handleCustomerInfoSubmit}
           onClose={handleCloseCustomerModal}
           onEditName={handleEditName}
           primaryColor={primaryColor}
-          cartItems={Object.entries(cart).map(([itemId, cartItem]) => {
+          cartItems={orderLines.map(({ itemId, ...cartItem }) => {
             const item = menuItems.find(mi => mi._id === itemId);
-            return item ? { ...item, quantity: cartItem.quantity, isTakeaway: cartItem.isTakeaway } : null;
-          }).filter(Boolean) as (MenuItem & { quantity: number; isTakeaway: boolean })[]}
-          total={Object.entries(cart).reduce((sum, [itemId, cartItem]) => {
+            return item ? {
+              ...item,
+              cartKey: cartItem.key,
+              quantity: cartItem.quantity,
+              isTakeaway: cartItem.isTakeaway,
+              modifiers: cartItem.modifiers,
+              note: cartItem.note,
+              guestName: cartItem.guestName,
+              displayPrice: getUnitPrice(item, cartItem)
+            } : null;
+          }).filter(Boolean) as CartDisplayItem[]}
+          total={orderLines.reduce((sum, { itemId, ...cartItem }) => {
             const item = menuItems.find(mi => mi._id === itemId);
-            const price = cartItem.isTakeaway && item?.totalTakeawayPrice 
-              ? item.totalTakeawayPrice 
-              : item?.price || 0;
+            const price = item ? getUnitPrice(item, cartItem) : 0;
             return sum + (price * cartItem.quantity);
           }, 0)}
           tableNumber={tableNumber}
@@ -1203,6 +1583,23 @@ saveOrderToHistory({
         />
       )}
 
+      {/* Join Group Order Modal */}
+      {showJoinModal && (
+        <NameEditModal
+          customerName={tempCustomerName}
+          onCustomerNameChange={setTempCustomerName}
+          onSave={handleJoinGroup}
+          onClose={() => {
+            setShowJoinModal(false);
+            setPendingCartItem(null);
+          }}
+          primaryColor={primaryColor}
+          title={`Join Table ${tableNumber}`}
+          description="Everyone at this table adds to one order. Your name shows the staff which items are yours."
+          saveLabel="Join Order"
+        />
+      )}
+
       {/* Name Edit Modal */}
       {showNameEditModal && (
         <NameEditModal
@@ -1240,6 +1637,17 @@ saveOrderToHistory({
         />
       )}
 
+      {/* Item Options Modal */}
+      {optionsItemId && (
+        <ItemOptionsModal
+          item={menuItems.find(mi => mi._id === optionsItemId) || null}
+          isTakeaway={optionsIsTakeaway}
+          onConfirm={handleOptionsConfirm}
+          onClose={() => setOptionsItemId(null)}
+          primaryColor={primaryColor}
+        />
+      )}
+
       {/* Takeaway Modal */}
       {showTakeawayModal && (
         <TakeawayModal
@@ -1249,6 +1657,7 @@ saveOrderToHistory({
           onClose={() => {
             setShowTakeawayModal(false);
             setTakeawayItemId(null);
+            setTakeawayModifiers(undefined);
           }}
           primaryColor={primaryColor}
         />
@@ -1272,6 +1681,9 @@ interface NameEditModalProps {
   onSave: () => void;
   onClose: () => void;
   primaryColor: string;
+  title?: string;
+  description?: string;
+  saveLabel?: string;
 }
 
 const NameEditModal: React.FC<NameEditModalProps> = ({
@@ -1279,7 +1691,10 @@ const NameEditModal: React.FC<NameEditModalProps> = ({
   onCustomerNameChange,
   onSave,
   onClose,
-  primaryColor
+  primaryColor,
+  title = 'Edit Your Name',
+  description,
+  saveLabel = 'Save Name'
 }) => {
   const handleBackdropClick = (e: React.MouseEvent) => {
     if (e.target === e.currentTarget) {
@@ -1295,7 +1710,7 @@ const NameEditModal: React.FC<NameEditModalProps> = ({
       <div className="bg-white w-full max-w-md overflow-hidden shadow-2xl flex flex-col rounded-t-3xl sm:rounded-3xl">
         <div className="p-6 border-b border-gray-100">
           <div className="flex items-center justify-between">
-            <h2 className="text-xl font-bold text-gray-900">Edit Your Name</h2>
+            <h2 className="text-xl font-bold text-gray-900">{title}</h2>
             <button
               onClick={onClose}
               className="w-8 h-8 rounded-full bg-gray-100 hover:bg-gray-200 flex items-center justify-center transition-all"
@@ -1307,6 +1722,7 @@ const NameEditModal: React.FC<NameEditModalProps> = ({
 
         <div className="p-6">
           <div className="space-y-4">
+            {description && <p className="text-sm text-gray-600">{description}</p>}
             <div>
               <label className="block text-sm font-medium text-gray-700 mb-2">
                 Your Name <span className="text-red-500">*</span>
@@ -1337,7 +1753,7 @@ const NameEditModal: React.FC<NameEditModalProps> = ({
               className="flex-1 text-white py-3 rounded-full font-semibold hover:opacity-90 transition-all shadow-lg disabled:opacity-50 disabled:cursor-not-allowed"
               style={{ backgroundColor: primaryColor }}
             >
-              Save Name
+              {saveLabel}
             </button>
           </div>
         </div>
@@ -1350,11 +1766,13 @@ const NameEditModal: React.FC<NameEditModalProps> = ({
 interface CustomerInfoModalProps {
   customerName: string;
   onCustomerNameChange: (name: string) => void;
+  orderNotes: string;
+  onOrderNotesChange: (notes: string) => void;
   onSubmit: () => void;
   onClose: () => void;
   onEditName: () => void;
   primaryColor: string;
-  cartItems: (MenuItem & { quantity: number; isTakeaway: boolean })[];
+  cartItems: CartDisplayItem[];
   total: number;
   tableNumber: string;
   isSubmitting?: boolean;
@@ -1363,6 +1781,8 @@ interface CustomerInfoModalProps {
 const CustomerInfoModal: React.FC<CustomerInfoModalProps> = ({
   customerName,
   onCustomerNameChange,
+  orderNotes,
+  onOrderNotesChange,
   onSubmit,
   onClose,
   onEditName,
@@ -1412,20 +1832,26 @@ const CustomerInfoModal: React.FC<CustomerInfoModalProps> = ({
               </div>
             )}
             <div className="space-y-2 max-h-40 overflow-y-auto">
-              {cartItems.map(item => {
-                const displayPrice = item.isTakeaway && item.totalTakeawayPrice ? item.totalTakeawayPrice : item.price;
-                return (
-                  <div key={item._id} className="flex justify-between items-center text-sm">
-                    <span className="text-gray-600">
-                      {item.quantity}x {item.name}
-                      {item.isTakeaway && <span className="text-blue-600 ml-1">(Takeaway)</span>}
-                    </span>
-                    <span className="font-medium text-gray-900">
-                      {(displayPrice * item.quantity).toLocaleString()} CFA
-                    </span>
-                  </div>
-                );
-              })}
+              {cartItems.map(item => (
+                <div key={`${item.guestName || ''}_${item.cartKey}`} className="flex justify-between items-start text-sm">
+                  <span className="text-gray-600">
+                    {item.quantity}x {item.name}
+                    {item.isTakeaway && <span className="text-blue-600 ml-1">(Takeaway)</span>}
+                    {item.guestName && <span className="text-gray-400 ml-1">· {item.guestName}</span>}
+                    {item.modifiers && item.modifiers.length > 0 && (
+                      <span className="block text-xs text-gray-400">{formatModifiers(item.modifiers)}</span>
+                    )}
+                    {item.note && (
+                      <span className="block text-xs text-amber-700">
+                        <i className="ri-sticky-note-line mr-1"></i>{item.note}
+                      </span>
+                    )}
+                  </span>
+                  <span className="font-medium text-gray-900">
+                    {(item.displayPrice * item.quantity).toLocaleString()} CFA
+                  </span>
+                </div>
+              ))}
             </div>
             <div className="border-t border-gray-200 mt-3 pt-3">
               <div className="flex justify-between items-center font-semibold">
@@ -1471,6 +1897,24 @@ const CustomerInfoModal: React.FC<CustomerInfoModalProps> = ({
                   </p>
                 )}
               </div>
+
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-2">
+                  Notes for the kitchen
+                </label>
+                <textarea
+                  value={orderNotes}
+                  onChange={(e) => onOrderNotesChange(e.target.value.slice(0, MAX_ORDER_NOTES_LENGTH))}
+                  placeholder="Allergies or anything else we should know"
+                  rows={3}
+                  className="w-full px-4 py-3 bg-gray-50 border border-gray-200 rounded-2xl text-sm transition-all placeholder-gray-400 resize-none focus:outline-none focus:ring-2 focus:ring-red-500/20 focus:bg-white focus:border-red-300"
+                  disabled={isSubmitting}
+                />
+                <p className="text-xs text-gray-500 mt-1">
+                  <i className="ri-alert-line mr-1"></i>
+                  Please mention any food allergies here so the kitchen can take care.
+                </p>
+              </div>
             </div>
           )}
 
@@ -1513,6 +1957,7 @@ interface OrderHistoryProps {
 }
 
 const OrderHistory: React.FC<OrderHistoryProps> = ({ primaryColor, onClose }) => {
+  const navigate = useNavigate();
   const [state, setState] = useState<OrderHistoryState>({
     orders: [],
     loading: true,
@@ -1574,44 +2019,39 @@ const OrderHistory: React.FC<OrderHistoryProps> = ({ primaryColor, onClose }) =>
     if (!order) return;
 
     // If we have a backend ID, use it. Otherwise, try to find by order number.
-    let apiUrl = '';
-    if (order.backendId) {
-      apiUrl = `http://localhost:5000/api/public/orders/${order.backendId}`;
-    } else if (order.orderNumber) {
-      // Try to find by order number as fallback
-      apiUrl = `http://localhost:5000/api/public/orders/by-number/${order.orderNumber}`;
-    } else {
+    if (!order.backendId && !order.orderNumber) {
       console.warn('⚠️ No valid identifier found for order status check');
       alert('Cannot check status for this order. Please contact the restaurant.');
       return;
     }
 
-    const response = await fetch(apiUrl);
+    const serverOrder = order.backendId
+      ? await orderService.getPublicOrder<Order>(order.backendId)
+      : await orderService.getPublicOrderByNumber<Order>(order.orderNumber);
+
+    const updatedOrders = orders.map((o: Order) => 
+      o._id === orderId ? { 
+        ...o, 
+        ...serverOrder,
+        // Ensure we store the backend ID if we didn't have it before
+        backendId: serverOrder._id || o.backendId
+      } : o
+    );
     
-    if (response.ok) {
-      const orderData = await response.json();
-      const updatedOrders = orders.map((o: Order) => 
-        o._id === orderId ? { 
-          ...o, 
-          ...orderData.order,
-          // Ensure we store the backend ID if we didn't have it before
-          backendId: orderData.order._id || o.backendId
-        } : o
-      );
-      
-      localStorage.setItem(ordersKey, JSON.stringify(updatedOrders));
-      loadOrders();
-      console.log('✅ Order status updated successfully');
-    } else if (response.status === 404) {
+    localStorage.setItem(ordersKey, JSON.stringify(updatedOrders));
+    loadOrders();
+    console.log('✅ Order status updated successfully');
+  } catch (error) {
+    if (axios.isAxiosError(error) && error.response?.status === 404) {
       console.warn('⚠️ Order not found on server');
       alert('Order not found on server. It may have been deleted or there might be a connection issue.');
-    } else {
+    } else if (axios.isAxiosError(error) && error.response) {
       console.error('❌ Server error when fetching order status');
       alert('Failed to check order status. Please try again later.');
+    } else {
+      console.error('❌ Failed to update order status:', error);
+      alert('Network error. Please check your connection and try again.');
     }
-  } catch (error) {
-    console.error('❌ Failed to update order status:', error);
-    alert('Network error. Please check your connection and try again.');
   }
 };
 
@@ -1645,6 +2085,7 @@ const OrderHistory: React.FC<OrderHistoryProps> = ({ primaryColor, onClose }) =>
     switch (status) {
       case 'paid': return 'bg-green-100 text-green-800';
       case 'pending': return 'bg-yellow-100 text-yellow-800';
+      case 'partially_paid': return 'bg-blue-100 text-blue-800';
       case 'refunded': return 'bg-red-100 text-red-800';
       default: return 'bg-gray-100 text-gray-800';
     }
@@ -1828,7 +2269,7 @@ const OrderHistory: React.FC<OrderHistoryProps> = ({ primaryColor, onClose }) =>
                             {order.status.charAt(0).toUpperCase() + order.status.slice(1)}
                           </span>
                           <span className={`px-3 py-1 rounded-full text-xs font-medium ${getPaymentStatusColor(order.paymentStatus)}`}>
-                            {order.paymentStatus.charAt(0).toUpperCase() + order.paymentStatus.slice(1)}
+                            {order.paymentStatus.charAt(0).toUpperCase() + order.paymentStatus.slice(1).replace('_', ' ')}
                           </span>
                         </div>
                       </div>
@@ -1843,6 +2284,12 @@ const OrderHistory: React.FC<OrderHistoryProps> = ({ primaryColor, onClose }) =>
                                 <span className="text-gray-600">
                                   {item.quantity}x {item.name}
                                   {item.isTakeaway && <span className="text-blue-600 ml-1">(Takeaway)</span>}
+                                  {item.modifiers && item.modifiers.length > 0 && (
+                                    <span className="block text-xs text-gray-400">{formatModifiers(item.modifiers)}</span>
+                                  )}
+                                  {getItemNote(item) && (
+                                    <span className="block text-xs text-gray-400 italic">{getItemNote(item)}</span>
+                                  )}
                                 </span>
                                 <span className="font-medium text-gray-900">
                                   {(item.price * item.quantity).toLocaleString()} CFA
@@ -1888,6 +2335,15 @@ const OrderHistory: React.FC<OrderHistoryProps> = ({ primaryColor, onClose }) =>
                           <i className="ri-refresh-line mr-2"></i>
                           Check Status
                         </button>
+                        {order.backendId && (
+                          <button
+                            onClick={() => navigate(`/waiter/order/${order.backendId}/track`)}
+                            className="px-4 py-2 bg-gray-200 text-gray-700 rounded-full font-medium hover:bg-gray-300 transition-colors text-sm"
+                          >
+                            <i className="ri-map-pin-time-line mr-2"></i>
+                            Track
+                          </button>
+                        )}
                         <button
                           onClick={() => {
                             // Add reorder functionality here
@@ -1956,11 +2412,7 @@ const RestaurantRatingModal: React.FC<RestaurantRatingModalProps> = ({
 
   const loadRestaurantData = async () => {
     try {
-      const response = await fetch(`http://localhost:5000/api/public/restaurants/${restaurantId}`);
-      if (response.ok) {
-        const data = await response.json();
-        setRestaurant(data.restaurant || data);
-      }
+      setRestaurant(await publicService.getRestaurant(restaurantId!));
     } catch (error) {
       console.error('Failed to load restaurant data:', error);
     }
@@ -1975,24 +2427,7 @@ const RestaurantRatingModal: React.FC<RestaurantRatingModalProps> = ({
     setLoading(true);
     try {
       const customerId = getCustomerId();
-      const response = await fetch(`http://localhost:5000/api/public/restaurants/${restaurantId}/rate`, {
-        method: 'POST',
-        headers: {
-          'Content-Type': 'application/json',
-        },
-        body: JSON.stringify({
-          rating: tempRating,
-          sessionId: customerId,
-          action: 'set'
-        })
-      });
-
-      if (!response.ok) {
-        const errorData = await response.json();
-        throw new Error(errorData.details || errorData.error || 'Failed to submit restaurant rating');
-      }
-
-      const data = await response.json();
+      const data = await publicService.rateRestaurant(restaurantId!, customerId, tempRating);
       
       setRestaurant((prev: any) => ({
         ...prev,
@@ -2005,9 +2440,9 @@ const RestaurantRatingModal: React.FC<RestaurantRatingModalProps> = ({
       
       onClose();
       
-    } catch (error: any) {
+    } catch (error) {
       console.error('❌ Restaurant rating submission error:', error);
-      showToast(`Failed to submit rating: ${error.message}`, 'error');
+      showToast(`Failed to submit rating: ${getApiErrorMessage(error)}`, 'error');
     } finally {
       setLoading(false);
     }
@@ -2118,6 +2553,133 @@ const RestaurantRatingModal: React.FC<RestaurantRatingModalProps> = ({
 
 // ... (Keep all the existing component code below - MenuItemCard, CartModalContent, RatingModal, CustomerMenuToast, TakeawayModal)
 
+interface MenuFiltersPanelProps {
+  filters: MenuFilters;
+  onChange: (filters: MenuFilters) => void;
+  primaryColor: string;
+}
+
+// MenuFiltersPanel Component
+const MenuFiltersPanel: React.FC<MenuFiltersPanelProps> = ({ filters, onChange, primaryColor }) => {
+  const toggle = <T,>(list: T[], value: T) =>
+    list.includes(value) ? list.filter(entry => entry !== value) : [...list, value];
+
+  const parsePrice = (value: string) => {
+    const price = Number(value);
+    return value.trim() === '' || !Number.isFinite(price) || price < 0 ? null : price;
+  };
+
+  const chipClass = (active: boolean) =>
+    `inline-flex items-center gap-1.5 px-3 py-1.5 rounded-full text-xs sm:text-sm font-medium border transition-colors ${
+      active ? 'text-white border-transparent' : 'bg-white text-gray-600 border-gray-200 hover:bg-gray-50'
+    }`;
+
+  return (
+    <div className="mt-4 sm:mt-5 p-4 bg-gray-50 rounded-2xl space-y-4">
+      <div>
+        <h4 className="text-sm font-semibold text-gray-900 mb-2">Diet</h4>
+        <div className="flex flex-wrap gap-2">
+          {DIETS.map(diet => {
+            const active = filters.diets.includes(diet.id);
+            return (
+              <button
+                key={diet.id}
+                onClick={() => onChange({ ...filters, diets: toggle(filters.diets, diet.id) })}
+                className={chipClass(active)}
+                style={active ? { backgroundColor: primaryColor } : {}}
+              >
+                <i className={diet.icon}></i>
+                {diet.label}
+              </button>
+            );
+          })}
+        </div>
+      </div>
+
+      <div>
+        <h4 className="text-sm font-semibold text-gray-900 mb-1">Leave out dishes with</h4>
+        <p className="text-xs text-gray-500 mb-2">
+          Dishes the restaurant hasn't tagged with allergens are hidden too. Always tell your server about allergies.
+        </p>
+        <div className="flex flex-wrap gap-2">
+          {ALLERGENS.map(allergen => {
+            const active = filters.excludeAllergens.includes(allergen.id);
+            return (
+              <button
+                key={allergen.id}
+                onClick={() => onChange({ ...filters, excludeAllergens: toggle(filters.excludeAllergens, allergen.id) })}
+                className={chipClass(active)}
+                style={active ? { backgroundColor: primaryColor } : {}}
+              >
+                <i className={active ? 'ri-forbid-line' : allergen.icon}></i>
+                {allergen.label}
+              </button>
+            );
+          })}
+        </div>
+      </div>
+
+      <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+        <div>
+          <h4 className="text-sm font-semibold text-gray-900 mb-2">Max spice level</h4>
+          <div className="flex flex-wrap gap-2">
+            <button
+              onClick={() => onChange({ ...filters, maxSpice: null })}
+              className={chipClass(filters.maxSpice === null)}
+              style={filters.maxSpice === null ? { backgroundColor: primaryColor } : {}}
+            >
+              Any
+            </button>
+            {Array.from({ length: MAX_SPICE_LEVEL + 1 }, (_, level) => (
+              <button
+                key={level}
+                onClick={() => onChange({ ...filters, maxSpice: level })}
+                className={chipClass(filters.maxSpice === level)}
+                style={filters.maxSpice === level ? { backgroundColor: primaryColor } : {}}
+              >
+                {level === 0 ? 'Not spicy' : '🌶️'.repeat(level)}
+              </button>
+            ))}
+          </div>
+        </div>
+
+        <div>
+          <h4 className="text-sm font-semibold text-gray-900 mb-2">Price (CFA)</h4>
+          <div className="flex items-center gap-2">
+            <input
+              type="number"
+              min="0"
+              placeholder="Min"
+              value={filters.minPrice ?? ''}
+              onChange={(e) => onChange({ ...filters, minPrice: parsePrice(e.target.value) })}
+              className="w-full px-3 py-2 bg-white border border-gray-200 rounded-xl text-sm focus:outline-none focus:ring-2 focus:ring-red-500/20"
+            />
+            <span className="text-gray-400">–</span>
+            <input
+              type="number"
+              min="0"
+              placeholder="Max"
+              value={filters.maxPrice ?? ''}
+              onChange={(e) => onChange({ ...filters, maxPrice: parsePrice(e.target.value) })}
+              className="w-full px-3 py-2 bg-white border border-gray-200 rounded-xl text-sm focus:outline-none focus:ring-2 focus:ring-red-500/20"
+            />
+          </div>
+        </div>
+      </div>
+
+      {countActiveFilters(filters) > 0 && (
+        <button
+          onClick={() => onChange(EMPTY_MENU_FILTERS)}
+          className="text-sm font-medium hover:underline"
+          style={{ color: primaryColor }}
+        >
+          Reset filters
+        </button>
+      )}
+    </div>
+  );
+};
+
 interface MenuItemCardProps {
   item: MenuItem;
   quantity: number;
@@ -2128,6 +2690,8 @@ interface MenuItemCardProps {
   onLike: () => void;
   onRate: () => void;
   isTakeaway?: boolean;
+  // Set when the item's menu isn't being served right now
+  unavailableMessage?: string | null;
 }
 
 const MenuItemCard: React.FC<MenuItemCardProps> = ({ 
@@ -2140,6 +2704,7 @@ const MenuItemCard: React.FC<MenuItemCardProps> = ({
   onLike,
   onRate,
   isTakeaway,
+  unavailableMessage,
 }) => {
   const isTakeawayAvailable = item.takeaway?.isTakeawayAvailable || item.isTakeawayAvailable;
   const takeawayPrice = item.takeaway?.takeawayPrice || item.totalTakeawayPrice;
@@ -2221,6 +2786,21 @@ const MenuItemCard: React.FC<MenuItemCardProps> = ({
               Takeaway: {takeawayPrice.toLocaleString()} CFA
             </div>
           )}
+          {item.modifierGroups && item.modifierGroups.length > 0 && (
+            <div className="mt-1 text-xs text-gray-500 font-medium flex items-center gap-1">
+              <i className="ri-list-settings-line"></i>
+              Customisable: {item.modifierGroups.map(group => group.name).join(', ')}
+            </div>
+          )}
+          {item.allergens && item.allergens.length > 0 && (
+            <div className="mt-1.5 flex flex-wrap gap-1">
+              {item.allergens.map(allergen => (
+                <span key={allergen} className="text-[10px] sm:text-xs px-2 py-0.5 rounded-full bg-amber-50 text-amber-700 border border-amber-200 font-medium">
+                  {getAllergenLabel(allergen)}
+                </span>
+              ))}
+            </div>
+          )}
         </div>
 
         <div className="flex items-center justify-between text-xs sm:text-sm text-gray-500">
@@ -2247,7 +2827,12 @@ const MenuItemCard: React.FC<MenuItemCardProps> = ({
             )}
           </div>
           
-          {quantity === 0 ? (
+          {unavailableMessage && quantity === 0 ? (
+            <span className="flex items-center gap-1 text-xs font-medium text-gray-500 bg-gray-100 px-3 py-2 rounded-full text-right">
+              <i className="ri-time-line"></i>
+              {unavailableMessage}
+            </span>
+          ) : quantity === 0 ? (
             <button
               onClick={handleAddToCart}
               className="w-10 h-10 sm:w-12 sm:h-12 rounded-full flex items-center justify-center text-white shadow-md hover:shadow-lg hover:scale-105 transition-all"
@@ -2282,9 +2867,13 @@ const MenuItemCard: React.FC<MenuItemCardProps> = ({
 };
 
 interface CartModalContentProps {
-  cart: {[key: string]: { quantity: number; isTakeaway: boolean }};
+  cart: CartItems;
   menuItems: MenuItem[];
-  onUpdateCart: (cart: {[key: string]: { quantity: number; isTakeaway: boolean }}) => void;
+  onUpdateCart: (cart: CartItems) => void;
+  onShare: () => void;
+  syncState: CartSyncState;
+  guestName?: string;
+  otherGuests: [string, CartItems][];
   onClose: () => void;
   onCheckout: () => void;
   restaurant: Restaurant;
@@ -2295,46 +2884,58 @@ const CartModalContent: React.FC<CartModalContentProps> = ({
   cart, 
   menuItems, 
   onUpdateCart, 
+  onShare,
+  syncState,
+  guestName,
+  otherGuests,
   onClose, 
   onCheckout,
   restaurant,
   primaryColor,
 }) => {
-  const cartItems = Object.entries(cart)
-    .map(([itemId, cartItem]) => {
-      const item = menuItems.find(mi => mi._id === itemId);
+  const toCartItems = (items: CartItems) => Object.entries(items)
+    .map(([key, cartItem]) => {
+      const item = menuItems.find(mi => mi._id === getCartKeyItemId(key));
       if (!item) return null;
       
-      let displayPrice = item.price;
-      if (cartItem.isTakeaway && item.takeaway?.isTakeawayAvailable) {
-        const takeawayPrice = item.takeaway.takeawayPrice || item.price;
-        const packagingFee = item.takeaway.packagingFee || 0;
-        displayPrice = takeawayPrice + packagingFee;
-      }
-      
       return { 
         ...item, 
+        cartKey: key,
         quantity: cartItem.quantity, 
         isTakeaway: cartItem.isTakeaway,
-        displayPrice: displayPrice
+        modifiers: cartItem.modifiers,
+        note: cartItem.note,
+        displayPrice: getUnitPrice(item, cartItem)
       };
     })
-    .filter(Boolean) as (MenuItem & { quantity: number; isTakeaway: boolean; displayPrice: number })[];
+    .filter(Boolean) as CartDisplayItem[];
+
+  const cartItems = toCartItems(cart);
+
+  // Rest of the table's items (group orders), shown read-only
+  const otherGuestItems = otherGuests.map(([name, items]) => ({ name, items: toCartItems(items) }));
 
-  const total = cartItems.reduce((sum, item) => {
+  const total = [...cartItems, ...otherGuestItems.flatMap(guest => guest.items)].reduce((sum, item) => {
     return sum + (item.displayPrice * item.quantity);
   }, 0);
 
-  const updateQuantity = (itemId: string, newQuantity: number) => {
+  const isEmpty = cartItems.length === 0 && otherGuestItems.length === 0;
+
+  const updateQuantity = (cartKey: string, newQuantity: number) => {
     if (newQuantity === 0) {
       const newCart = { ...cart };
-      delete newCart[itemId];
+      delete newCart[cartKey];
       onUpdateCart(newCart);
     } else {
-      onUpdateCart({ ...cart, [itemId]: { ...cart[itemId], quantity: newQuantity } });
+      onUpdateCart({ ...cart, [cartKey]: { ...cart[cartKey], quantity: newQuantity } });
     }
   };
 
+  const updateNote = (cartKey: string, note: string) => {
+    if (!cart[cartKey] || (cart[cartKey].note || '') === note) return;
+    onUpdateCart({ ...cart, [cartKey]: { ...cart[cartKey], note: note || undefined } });
+  };
+
   const clearCart = () => {
     onUpdateCart({});
   };
@@ -2344,20 +2945,36 @@ const CartModalContent: React.FC<CartModalContentProps> = ({
       <div className="p-4 sm:p-6 border-b border-gray-100 flex-shrink-0">
         <div className="flex items-center justify-between">
           <div>
-            <h2 className="text-xl sm:text-2xl font-bold text-gray-900">Your Cart</h2>
-            <p className="text-gray-500 text-sm mt-1">{restaurant.name}</p>
+            <h2 className="text-xl sm:text-2xl font-bold text-gray-900">{guestName !== undefined ? 'Table Order' : 'Your Cart'}</h2>
+            <p className="text-gray-500 text-sm mt-1">
+              {restaurant.name}
+              {syncState !== 'local' && (
+                <span className="ml-2 text-xs text-gray-400">
+                  <i className={syncState === 'syncing' ? 'ri-loader-4-line animate-spin' : 'ri-group-line'}></i> Shared
+                </span>
+              )}
+            </p>
+          </div>
+          <div className="flex items-center gap-2">
+            <button
+              onClick={onShare}
+              className="w-8 h-8 sm:w-10 sm:h-10 rounded-full bg-gray-100 hover:bg-gray-200 flex items-center justify-center transition-all"
+              title="Share cart with your table"
+            >
+              <i className="ri-share-line text-lg sm:text-xl text-gray-700"></i>
+            </button>
+            <button
+              onClick={onClose}
+              className="w-8 h-8 sm:w-10 sm:h-10 rounded-full bg-gray-100 hover:bg-gray-200 flex items-center justify-center transition-all"
+            >
+              <i className="ri-close-line text-lg sm:text-xl text-gray-700"></i>
+            </button>
           </div>
-          <button
-            onClick={onClose}
-            className="w-8 h-8 sm:w-10 sm:h-10 rounded-full bg-gray-100 hover:bg-gray-200 flex items-center justify-center transition-all"
-          >
-            <i className="ri-close-line text-lg sm:text-xl text-gray-700"></i>
-          </button>
         </div>
       </div>
 
       <div className="flex-1 overflow-y-auto p-4 sm:p-6">
-        {cartItems.length === 0 ? (
+        {isEmpty ? (
           <div className="text-center py-8 sm:py-12">
             <i className="ri-shopping-cart-line text-4xl sm:text-6xl text-gray-300 mb-4"></i>
             <p className="text-gray-600 font-medium text-base sm:text-lg">Your cart is empty</p>
@@ -2365,69 +2982,111 @@ const CartModalContent: React.FC<CartModalContentProps> = ({
           </div>
         ) : (
           <div className="space-y-3 sm:space-y-4">
+            {guestName && (
+              <p className="text-xs font-semibold text-gray-500 uppercase tracking-wide">
+                Your items ({guestName})
+              </p>
+            )}
             {cartItems.map(item => {
-              const displayPrice = item.isTakeaway && item.totalTakeawayPrice ? item.totalTakeawayPrice : item.price;
+              const displayPrice = item.displayPrice;
               
               return (
-                <div key={item._id} className="flex items-center gap-3 sm:gap-4 p-3 sm:p-4 bg-gray-50 rounded-xl sm:rounded-2xl">
-                  <div className="w-12 h-12 sm:w-16 sm:h-16 bg-gray-200 rounded-lg sm:rounded-xl overflow-hidden flex-shrink-0">
-                    {item.image ? (
-                      <img
-                        src={`${item.image}`}
-                        alt={item.name}
-                        className="w-full h-full object-cover"
-                      />
-                    ) : (
-                      <div className="w-full h-full flex items-center justify-center">
-                        <i className="ri-restaurant-line text-lg sm:text-2xl text-gray-400"></i>
-                      </div>
-                    )}
-                  </div>
-                  
-                  <div className="flex-1 min-w-0">
-                    <h3 className="font-semibold text-gray-900 text-sm sm:text-base truncate">{item.name}</h3>
-                    {item.isTakeaway && (
-                      <span className="inline-block text-xs bg-blue-100 text-blue-700 px-2 py-0.5 rounded-full mt-1">
-                        Takeaway
+                <div key={item.cartKey} className="p-3 sm:p-4 bg-gray-50 rounded-xl sm:rounded-2xl">
+                  <div className="flex items-center gap-3 sm:gap-4">
+                    <div className="w-12 h-12 sm:w-16 sm:h-16 bg-gray-200 rounded-lg sm:rounded-xl overflow-hidden flex-shrink-0">
+                      {item.image ? (
+                        <img
+                          src={`${item.image}`}
+                          alt={item.name}
+                          className="w-full h-full object-cover"
+                        />
+                      ) : (
+                        <div className="w-full h-full flex items-center justify-center">
+                          <i className="ri-restaurant-line text-lg sm:text-2xl text-gray-400"></i>
+                        </div>
+                      )}
+                    </div>
+                    
+                    <div className="flex-1 min-w-0">
+                      <h3 className="font-semibold text-gray-900 text-sm sm:text-base truncate">{item.name}</h3>
+                      {item.modifiers && item.modifiers.length > 0 && (
+                        <p className="text-xs text-gray-500 mt-0.5">{formatModifiers(item.modifiers)}</p>
+                      )}
+                      {item.isTakeaway && (
+                        <span className="inline-block text-xs bg-blue-100 text-blue-700 px-2 py-0.5 rounded-full mt-1">
+                          Takeaway
+                        </span>
+                      )}
+                      <p className="font-bold text-sm sm:text-base mt-1" style={{ color: primaryColor }}>
+                        {displayPrice.toLocaleString()} CFA
+                      </p>
+                    </div>
+                    
+                    <div className="flex items-center gap-2 sm:gap-3">
+                      <button
+                        onClick={() => updateQuantity(item.cartKey, item.quantity - 1)}
+                        className="w-6 h-6 sm:w-8 sm:h-8 bg-white rounded-full flex items-center justify-center shadow-sm hover:shadow-md transition-all"
+                      >
+                        <i className="ri-subtract-line text-gray-700 text-xs"></i>
+                      </button>
+                      <span className="font-bold text-gray-900 min-w-4 sm:min-w-6 text-center text-sm sm:text-base">
+                        {item.quantity}
                       </span>
-                    )}
-                    <p className="font-bold text-sm sm:text-base mt-1" style={{ color: primaryColor }}>
-                      {displayPrice.toLocaleString()} CFA
-                    </p>
-                  </div>
-                  
-                  <div className="flex items-center gap-2 sm:gap-3">
-                    <button
-                      onClick={() => updateQuantity(item._id, item.quantity - 1)}
-                      className="w-6 h-6 sm:w-8 sm:h-8 bg-white rounded-full flex items-center justify-center shadow-sm hover:shadow-md transition-all"
-                    >
-                      <i className="ri-subtract-line text-gray-700 text-xs"></i>
-                    </button>
-                    <span className="font-bold text-gray-900 min-w-4 sm:min-w-6 text-center text-sm sm:text-base">
-                      {item.quantity}
-                    </span>
-                    <button
-                      onClick={() => updateQuantity(item._id, item.quantity + 1)}
-                      className="w-6 h-6 sm:w-8 sm:h-8 rounded-full flex items-center justify-center text-white shadow-sm hover:shadow-md transition-all"
-                      style={{ backgroundColor: primaryColor }}
-                    >
-                      <i className="ri-add-line text-xs"></i>
-                    </button>
-                  </div>
-                  
-                  <div className="text-right min-w-16 sm:min-w-20">
-                    <p className="font-bold text-gray-900 text-sm sm:text-base">
-                      {(displayPrice * item.quantity).toLocaleString()} CFA
-                    </p>
+                      <button
+                        onClick={() => updateQuantity(item.cartKey, item.quantity + 1)}
+                        className="w-6 h-6 sm:w-8 sm:h-8 rounded-full flex items-center justify-center text-white shadow-sm hover:shadow-md transition-all"
+                        style={{ backgroundColor: primaryColor }}
+                      >
+                        <i className="ri-add-line text-xs"></i>
+                      </button>
+                    </div>
+                    
+                    <div className="text-right min-w-16 sm:min-w-20">
+                      <p className="font-bold text-gray-900 text-sm sm:text-base">
+                        {(displayPrice * item.quantity).toLocaleString()} CFA
+                      </p>
+                    </div>
                   </div>
+                  <CartLineNote
+                    note={item.note || ''}
+                    onSave={(note) => updateNote(item.cartKey, note)}
+                    primaryColor={primaryColor}
+                  />
                 </div>
               );
             })}
+
+            {otherGuestItems.map(guest => (
+              <div key={guest.name} className="pt-2">
+                <p className="text-xs font-semibold text-gray-500 uppercase tracking-wide mb-2">
+                  <i className="ri-user-line mr-1"></i>{guest.name}
+                </p>
+                <div className="space-y-1 px-3 py-2 bg-gray-50 rounded-xl">
+                  {guest.items.map(item => (
+                    <div key={item.cartKey} className="flex justify-between text-sm">
+                      <span className="text-gray-600">
+                        {item.quantity}x {item.name}
+                        {item.isTakeaway && <span className="text-blue-600 ml-1">(Takeaway)</span>}
+                        {item.modifiers && item.modifiers.length > 0 && (
+                          <span className="block text-xs text-gray-400">{formatModifiers(item.modifiers)}</span>
+                        )}
+                        {item.note && (
+                          <span className="block text-xs text-amber-700">
+                            <i className="ri-sticky-note-line mr-1"></i>{item.note}
+                          </span>
+                        )}
+                      </span>
+                      <span className="font-medium text-gray-900">{(item.displayPrice * item.quantity).toLocaleString()} CFA</span>
+                    </div>
+                  ))}
+                </div>
+              </div>
+            ))}
           </div>
         )}
       </div>
 
-      {cartItems.length > 0 && (
+      {!isEmpty && (
         <div className="border-t border-gray-100 bg-gray-50 p-4 sm:p-6 flex-shrink-0">
           <div className="flex items-center justify-between mb-6">
             <span className="text-lg sm:text-xl font-semibold text-gray-900">Total:</span>
@@ -2439,7 +3098,7 @@ const CartModalContent: React.FC<CartModalContentProps> = ({
               onClick={clearCart}
               className="flex-1 bg-gray-200 text-gray-700 py-3 sm:py-4 rounded-full font-semibold hover:bg-gray-300 transition-all text-sm sm:text-base"
             >
-              Clear Cart
+              {guestName !== undefined ? 'Clear My Items' : 'Clear Cart'}
             </button>
             <button
               onClick={onCheckout}
@@ -2455,6 +3114,69 @@ const CartModalContent: React.FC<CartModalContentProps> = ({
   );
 };
 
+// Note on a single cart line, saved when the field loses focus
+interface CartLineNoteProps {
+  note: string;
+  onSave: (note: string) => void;
+  primaryColor: string;
+}
+
+const CartLineNote: React.FC<CartLineNoteProps> = ({ note, onSave, primaryColor }) => {
+  const [isEditing, setIsEditing] = useState(false);
+  const [draft, setDraft] = useState(note);
+
+  const save = () => {
+    onSave(draft.trim());
+    setIsEditing(false);
+  };
+
+  if (!isEditing) {
+    return note ? (
+      <button
+        onClick={() => {
+          setDraft(note);
+          setIsEditing(true);
+        }}
+        className="mt-2 w-full text-left text-xs text-amber-800 bg-amber-50 border border-amber-200 rounded-lg px-3 py-2 flex items-start gap-2"
+      >
+        <i className="ri-sticky-note-line mt-0.5"></i>
+        <span className="flex-1 break-words">{note}</span>
+        <i className="ri-edit-line text-amber-600"></i>
+      </button>
+    ) : (
+      <button
+        onClick={() => {
+          setDraft('');
+          setIsEditing(true);
+        }}
+        className="mt-2 text-xs font-medium flex items-center gap-1 hover:underline"
+        style={{ color: primaryColor }}
+      >
+        <i className="ri-add-line"></i>
+        Add note (e.g. no onions, allergies)
+      </button>
+    );
+  }
+
+  return (
+    <div className="mt-2 flex items-center gap-2">
+      <input
+        type="text"
+        value={draft}
+        onChange={(e) => setDraft(e.target.value.slice(0, MAX_LINE_NOTE_LENGTH))}
+        onBlur={save}
+        onKeyDown={(e) => {
+          if (e.key === 'Enter') save();
+          if (e.key === 'Escape') setIsEditing(false);
+        }}
+        placeholder="e.g. no onions, nut allergy"
+        className="flex-1 px-3 py-2 bg-white border border-gray-200 rounded-lg text-xs focus:outline-none focus:ring-2 focus:ring-amber-500/20 focus:border-amber-300"
+        autoFocus
+      />
+    </div>
+  );
+};
+
 // Rating Modal Component
 interface RatingModalProps {
   itemId: string | null;
@@ -2635,6 +3357,146 @@ const CustomerMenuToast: React.FC<CustomerMenuToastProps> = ({
   );
 };
 
+// Item Options Modal Component
+interface ItemOptionsModalProps {
+  item: MenuItem | null;
+  isTakeaway: boolean;
+  onConfirm: (modifiers: SelectedModifier[]) => void;
+  onClose: () => void;
+  primaryColor: string;
+}
+
+const ItemOptionsModal: React.FC<ItemOptionsModalProps> = ({
+  item,
+  isTakeaway,
+  onConfirm,
+  onClose,
+  primaryColor
+}) => {
+  const [selected, setSelected] = useState<SelectedModifier[]>([]);
+
+  if (!item) return null;
+
+  const groups = item.modifierGroups || [];
+  const error = validateModifiers(groups, selected);
+  const unitPrice = getUnitPrice(item, { isTakeaway, modifiers: selected });
+
+  const isSelected = (group: ModifierGroup, option: string) =>
+    selected.some(modifier => modifier.group === group.name && modifier.option === option);
+
+  // Single-choice groups swap the option; others toggle it up to the group's max
+  const toggleOption = (group: ModifierGroup, option: ModifierGroup['options'][number]) => {
+    const { max } = getSelectionRange(group);
+    const modifier = { group: group.name, option: option.name, priceDelta: option.priceDelta };
+
+    setSelected(prev => {
+      const inGroup = prev.filter(m => m.group === group.name);
+      if (inGroup.some(m => m.option === option.name)) {
+        return prev.filter(m => !(m.group === group.name && m.option === option.name));
+      }
+      if (max === 1) {
+        return [...prev.filter(m => m.group !== group.name), modifier];
+      }
+      return inGroup.length >= max ? prev : [...prev, modifier];
+    });
+  };
+
+  const handleBackdropClick = (e: React.MouseEvent) => {
+    if (e.target === e.currentTarget) {
+      onClose();
+    }
+  };
+
+  return (
+    <div 
+      className="fixed inset-0 z-[70] flex items-end sm:items-center justify-center bg-black/50 backdrop-blur-sm transition-all duration-300 ease-out"
+      onClick={handleBackdropClick}
+    >
+      <div className="bg-white w-full max-w-md max-h-[90vh] overflow-hidden shadow-2xl flex flex-col rounded-t-3xl sm:rounded-3xl">
+        <div className="p-6 border-b border-gray-100 flex-shrink-0">
+          <div className="flex items-center justify-between">
+            <div className="min-w-0">
+              <h2 className="text-xl font-bold text-gray-900 truncate">{item.name}</h2>
+              <p className="text-sm text-gray-500 mt-1">Choose your options</p>
+            </div>
+            <button
+              onClick={onClose}
+              className="w-8 h-8 rounded-full bg-gray-100 hover:bg-gray-200 flex items-center justify-center transition-all flex-shrink-0"
+            >
+              <i className="ri-close-line text-lg text-gray-700"></i>
+            </button>
+          </div>
+        </div>
+
+        <div className="flex-1 overflow-y-auto p-6 space-y-6">
+          {groups.map(group => {
+            const { max } = getSelectionRange(group);
+            const count = selected.filter(modifier => modifier.group === group.name).length;
+
+            return (
+              <div key={group.name}>
+                <div className="flex items-center justify-between mb-3">
+                  <h3 className="font-semibold text-gray-900">{group.name}</h3>
+                  <span className="text-xs font-medium text-gray-500 bg-gray-100 px-2 py-1 rounded-full">
+                    {describeSelectionRange(group)}
+                  </span>
+                </div>
+                <div className="space-y-2">
+                  {group.options.map(option => {
+                    const checked = isSelected(group, option.name);
+                    const isFull = !checked && max > 1 && count >= max;
+
+                    return (
+                      <button
+                        key={option.name}
+                        onClick={() => toggleOption(group, option)}
+                        disabled={isFull}
+                        className={`w-full flex items-center justify-between p-3 rounded-xl border-2 transition-all text-left disabled:opacity-40 ${
+                          checked ? 'bg-gray-50' : 'border-gray-200 hover:bg-gray-50'
+                        }`}
+                        style={checked ? { borderColor: primaryColor } : undefined}
+                      >
+                        <span className="flex items-center gap-3">
+                          <i
+                            className={`text-xl ${max === 1
+                              ? (checked ? 'ri-radio-button-line' : 'ri-checkbox-blank-circle-line')
+                              : (checked ? 'ri-checkbox-line' : 'ri-checkbox-blank-line')}`}
+                            style={{ color: checked ? primaryColor : '#9ca3af' }}
+                          ></i>
+                          <span className="font-medium text-gray-900">{option.name}</span>
+                        </span>
+                        {option.priceDelta !== 0 && (
+                          <span className="text-sm text-gray-600">
+                            {option.priceDelta > 0 ? '+' : '-'}{Math.abs(option.priceDelta).toLocaleString()} CFA
+                          </span>
+                        )}
+                      </button>
+                    );
+                  })}
+                </div>
+              </div>
+            );
+          })}
+        </div>
+
+        <div className="border-t border-gray-100 bg-gray-50 p-6 flex-shrink-0">
+          {error && (
+            <p className="text-sm text-gray-500 text-center mb-3">{error}</p>
+          )}
+          <button
+            onClick={() => onConfirm(selected)}
+            disabled={!!error}
+            className="w-full text-white py-4 rounded-full font-semibold hover:opacity-90 transition-all shadow-lg disabled:opacity-50 disabled:cursor-not-allowed"
+            style={{ backgroundColor: primaryColor }}
+          >
+            Add to Cart · {unitPrice.toLocaleString()} CFA
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
 // Takeaway Modal Component
 interface TakeawayModalProps {
   itemId: string | null;
@@ -1,151 +1,27 @@
-import React, { useState, useEffect, useCallback, useRef } from 'react';
+import React, { useState, useEffect, useCallback } from 'react';
 import { useAuth } from '../contexts/AuthContext';
+import { useRealtime, useRealtimeEvent, useRealtimeResync } from '../contexts/RealtimeContext';
 import { useSearchParams } from 'react-router-dom';
 import MenuManagement from './MenuManagement';
 import OrderManagement from './OrderManagement';
+import KitchenDisplay from './KitchenDisplay';
+import TableManagement from './TableManagement';
 import QRCodeGenerator from './QRCodeGenerator';
 import Settings from './Settings';
+import { orderService } from '../services/orders';
+import { restaurantService } from '../services/restaurant';
+import { tableService } from '../services/tables';
+import { getLowStockAlerts, applyStockUpdate } from '../services/inventory';
+import { useRealtimeStock } from '../hooks/useRealtimeStock';
+import type { IngredientStock, MenuItem, Order } from '../types';
 
-type TabType = 'dashboard' | 'menu' | 'orders' | 'qr-codes' | 'settings';
-
-// Define TypeScript interfaces for order data
-interface OrderItem {
-  menuItem: string;
-  name: string;
-  quantity: number;
-  price: number;
-  isTakeaway: boolean;
-  specialInstructions?: string;
-}
-
-interface Table {
-  tableNumber: string;
-  _id: string;
-}
-
-interface Order {
-  _id: string;
-  orderNumber: string;
-  restaurant: {
-    _id: string;
-    name: string;
-    logo?: string;
-  };
-  customerName: string;
-  items: OrderItem[];
-  totalAmount: number;
-  status: 'pending' | 'confirmed' | 'preparing' | 'ready' | 'served' | 'completed' | 'cancelled';
-  paymentStatus: 'pending' | 'paid' | 'refunded';
-  orderType: 'dine-in' | 'takeaway';
-  table?: Table;
-  createdAt: string;
-  updatedAt: string;
-  paidAt?: string;
-}
-
-// SSE Hook for Dashboard
-const useDashboardSSE = (restaurantId: string | undefined, onNewOrder: (order: Order) => void, onOrderUpdate: (order: Order) => void) => {
-  const [isConnected, setIsConnected] = useState(false);
-  const eventSourceRef = useRef<EventSource | null>(null);
-  const reconnectTimeout = useRef<number | null>(null);
-  const reconnectAttempts = useRef(0);
-  const maxReconnectAttempts = 5;
-
-  const connectSSE = useCallback(() => {
-    if (!restaurantId) {
-      console.log('❌ No restaurant ID for SSE connection');
-      return;
-    }
-
-    try {
-      console.log(`🔔 Connecting SSE for dashboard: ${restaurantId}`);
-      const eventSource = new EventSource(`http://localhost:5000/api/orders/stream/${restaurantId}`);
-      
-      eventSource.onopen = () => {
-        console.log('✅ Dashboard SSE connection established');
-        setIsConnected(true);
-        reconnectAttempts.current = 0;
-      };
-
-      eventSource.onmessage = (event) => {
-        try {
-          const data = JSON.parse(event.data);
-          console.log('🔔 Dashboard SSE message received:', data);
-
-          switch (data.type) {
-            case 'connected':
-              console.log('✅ Dashboard SSE connection confirmed');
-              break;
-            case 'new_order':
-              console.log('🆕 New order via Dashboard SSE:', data.order.orderNumber);
-              onNewOrder(data.order);
-              break;
-            case 'order_updated':
-              console.log('🔄 Order updated via Dashboard SSE:', data.order.orderNumber);
-              onOrderUpdate(data.order);
-              break;
-            case 'order_paid':
-              console.log('💳 Order paid via Dashboard SSE:', data.order.orderNumber);
-              onOrderUpdate(data.order);
-              break;
-            default:
-              console.log('📨 Unknown Dashboard SSE message type:', data.type);
-          }
-        } catch (error) {
-          console.error('❌ Failed to parse Dashboard SSE message:', error);
-        }
-      };
-
-      eventSource.onerror = (error) => {
-        console.error('❌ Dashboard SSE error:', error);
-        setIsConnected(false);
-        eventSource.close();
-        
-        // Attempt reconnect after delay
-        if (reconnectAttempts.current < maxReconnectAttempts) {
-          reconnectAttempts.current++;
-          const delay = Math.min(3000 * reconnectAttempts.current, 30000);
-          
-          console.log(`🔄 Attempting Dashboard SSE reconnect in ${delay}ms... (attempt ${reconnectAttempts.current}/${maxReconnectAttempts})`);
-          
-          reconnectTimeout.current = window.setTimeout(() => {
-            connectSSE();
-          }, delay);
-        } else {
-          console.error('❌ Max Dashboard SSE reconnection attempts reached');
-        }
-      };
-
-      eventSourceRef.current = eventSource;
-
-    } catch (error) {
-      console.error('❌ Failed to create Dashboard SSE connection:', error);
-      setIsConnected(false);
-    }
-  }, [restaurantId, onNewOrder, onOrderUpdate]);
-
-  useEffect(() => {
-    connectSSE();
-
-    return () => {
-      if (reconnectTimeout.current) {
-        window.clearTimeout(reconnectTimeout.current);
-      }
-      if (eventSourceRef.current) {
-        console.log('🔔 Closing Dashboard SSE connection');
-        eventSourceRef.current.close();
-      }
-    };
-  }, [connectSSE]);
-
-  return { isConnected };
-};
+type TabType = 'dashboard' | 'menu' | 'orders' | 'kitchen' | 'tables' | 'qr-codes' | 'settings';
 
 const Dashboard: React.FC = () => {
   const { user, logout } = useAuth();
   const [searchParams, setSearchParams] = useSearchParams();
   const [pendingOrdersCount, setPendingOrdersCount] = useState<number>(0);
-  const [connectionStatus, setConnectionStatus] = useState<'connected' | 'disconnected' | 'connecting'>('connecting');
+  const { connectionState: connectionStatus } = useRealtime();
   
   // Get active tab and orderId from URL or default to 'dashboard'
   const activeTab = (searchParams.get('tab') as TabType) || 'dashboard';
@@ -162,28 +38,15 @@ const Dashboard: React.FC = () => {
   // Fetch pending orders count
   const fetchPendingOrdersCount = async () => {
     try {
-      const token = localStorage.getItem('token');
-      const response = await fetch('http://localhost:5000/api/orders?status=pending', {
-        headers: { 
-          Authorization: `Bearer ${token}`,
-          'Content-Type': 'application/json'
-        }
-      });
-      
-      // Check if response is OK
-      if (!response.ok) {
-        throw new Error(`HTTP error! status: ${response.status}`);
-      }
-      
-      const data = await response.json();
-      setPendingOrdersCount(data.orders?.length || 0);
+      const pendingOrders = await orderService.getOrders('pending');
+      setPendingOrdersCount(pendingOrders.length);
     } catch (error) {
       console.error('Failed to fetch pending orders count:', error);
       setPendingOrdersCount(0); // Set to 0 on error
     }
   };
 
-  // SSE callbacks
+  // Realtime callbacks
   const handleNewOrder = useCallback((newOrder: Order) => {
     console.log('Dashboard: New order received', newOrder);
     // Refresh pending orders count when new order comes in
@@ -196,17 +59,10 @@ const Dashboard: React.FC = () => {
     fetchPendingOrdersCount();
   }, []);
 
-  // Use the SSE hook
-  const { isConnected } = useDashboardSSE(
-    user?.restaurant?._id,
-    handleNewOrder,
-    handleOrderUpdate
-  );
-
-  // Update connection status
-  useEffect(() => {
-    setConnectionStatus(isConnected ? 'connected' : 'disconnected');
-  }, [isConnected]);
+  useRealtimeEvent('new_order', handleNewOrder);
+  useRealtimeEvent('order_updated', handleOrderUpdate);
+  useRealtimeEvent('order_paid', handleOrderUpdate);
+  useRealtimeResync(fetchPendingOrdersCount);
 
   // Clear orderId when switching away from orders tab
   useEffect(() => {
@@ -234,6 +90,8 @@ const Dashboard: React.FC = () => {
       mobileIcon: 'ri-shopping-cart-2-line', 
       badge: pendingOrdersCount > 0 ? pendingOrdersCount : undefined 
     },
+    { id: 'kitchen' as TabType, name: 'Kitchen', icon: 'ri-fire-line', mobileIcon: 'ri-fire-fill' },
+    { id: 'tables' as TabType, name: 'Tables', icon: 'ri-layout-grid-line', mobileIcon: 'ri-layout-grid-fill' },
     { id: 'qr-codes' as TabType, name: 'QR Codes', icon: 'ri-qr-code-line', mobileIcon: 'ri-qr-scan-2-line' },
     { id: 'settings' as TabType, name: 'Settings', icon: 'ri-settings-line', mobileIcon: 'ri-settings-4-line' },
   ];
@@ -271,6 +129,10 @@ const Dashboard: React.FC = () => {
         return <MenuManagement />;
       case 'orders':
         return <OrderManagement selectedOrderId={orderIdParam} autoScroll={!!orderIdParam} />;
+      case 'kitchen':
+        return <KitchenDisplay />;
+      case 'tables':
+        return <TableManagement onOpenOrder={handleOrderClick} />;
       case 'qr-codes':
         return <QRCodeGenerator />;
       case 'settings':
@@ -464,7 +326,9 @@ const DashboardContent: React.FC<DashboardContentProps> = ({
   onOrderClick,
   connectionStatus
 }) => {
-  const { user } = useAuth();
+  const { user, restaurant } = useAuth();
+  const [stockItems, setStockItems] = useState<MenuItem[]>([]);
+  const [ingredientStock, setIngredientStock] = useState<IngredientStock[]>(restaurant?.ingredientStock || []);
   const [stats, setStats] = useState({
     totalRevenue: 0,
     menuItemsCount: 0,
@@ -479,53 +343,35 @@ const DashboardContent: React.FC<DashboardContentProps> = ({
     fetchDashboardData();
   }, []);
 
+  useRealtimeStock((update) => {
+    setStockItems(prev => applyStockUpdate(prev, update, item => item._id || item.id));
+    if (update.ingredients) setIngredientStock(update.ingredients);
+  });
+
+  const lowStockAlerts = getLowStockAlerts(stockItems, ingredientStock);
+
   const fetchDashboardData = async () => {
     try {
       setLoading(true);
-      const token = localStorage.getItem('token');
-      
-      // Fetch all data in parallel with full URLs like OrderManagement
-      const [ordersResponse, menuItemsResponse, tablesResponse] = await Promise.all([
-        fetch('http://localhost:5000/api/orders?status=all', {
-          headers: { 
-            Authorization: `Bearer ${token}`,
-            'Content-Type': 'application/json'
-          }
-        }),
-        fetch('http://localhost:5000/api/menu-items', {
-          headers: { 
-            Authorization: `Bearer ${token}`,
-            'Content-Type': 'application/json'
-          }
-        }),
-        fetch('http://localhost:5000/api/tables', {
-          headers: { 
-            Authorization: `Bearer ${token}`,
-            'Content-Type': 'application/json'
-          }
-        })
+      // Fetch all data in parallel
+      const [orders, menuItemsData, tables] = await Promise.all([
+        orderService.getOrders('all'),
+        restaurantService.getMenuItems(),
+        tableService.getTables()
       ]);
 
-      if (!ordersResponse.ok || !menuItemsResponse.ok || !tablesResponse.ok) {
-        throw new Error('Failed to fetch dashboard data');
-      }
-
-      const ordersData = await ordersResponse.json();
-      const menuItemsData = await menuItemsResponse.json();
-      const tablesData = await tablesResponse.json();
-
       // Calculate stats
-      const paidOrders = ordersData.orders?.filter((order: any) => order.paymentStatus === 'paid') || [];
-      const totalRevenue = paidOrders.reduce((sum: number, order: any) => sum + order.totalAmount, 0);
+      const paidOrders = orders.filter(order => order.paymentStatus === 'paid');
+      const totalRevenue = paidOrders.reduce((sum, order) => sum + order.totalAmount, 0);
       
-      const activeTables = tablesData.tables?.filter((table: any) => 
+      const activeTables = tables.filter(table => 
         table.status === 'occupied' || table.status === 'reserved'
-      ).length || 0;
+      ).length;
 
-      const totalTables = tablesData.tables?.length || 0;
+      const totalTables = tables.length;
 
       // Get recent orders (last 5)
-      const recentOrdersData = ordersData.orders?.slice(0, 5).map((order: any) => ({
+      const recentOrdersData = orders.slice(0, 5).map(order => ({
         id: order.orderNumber,
         table: order.table ? `Table ${order.table.tableNumber}` : 'Takeaway',
         items: `${order.items.length} item${order.items.length !== 1 ? 's' : ''}`,
@@ -533,17 +379,18 @@ const DashboardContent: React.FC<DashboardContentProps> = ({
         status: order.status,
         time: formatTimeAgo(order.createdAt),
         _id: order._id
-      })) || [];
+      }));
 
       setStats({
         totalRevenue,
         menuItemsCount: menuItemsData.menuItems?.length || 0,
         activeTables: activeTables,
         totalTables: totalTables,
-        totalOrders: ordersData.orders?.length || 0
+        totalOrders: orders.length
       });
 
       setRecentOrders(recentOrdersData);
+      setStockItems(menuItemsData.menuItems || []);
     } catch (error) {
       console.error('Failed to fetch dashboard data:', error);
     } finally {
@@ -773,6 +620,44 @@ const DashboardContent: React.FC<DashboardContentProps> = ({
         ))}
       </div>
 
+      {/* Low Stock */}
+      {lowStockAlerts.length > 0 && (
+        <div className="bg-white rounded-xl shadow-sm border border-amber-200 overflow-hidden">
+          <div className="p-5 border-b border-amber-100 bg-amber-50/60 flex items-center justify-between">
+            <div>
+              <h3 className="text-lg font-bold text-gray-900 flex items-center gap-2">
+                <i className="ri-alert-line text-amber-500"></i>
+                Low Stock
+              </h3>
+              <p className="text-xs text-gray-500 mt-1">
+                {lowStockAlerts.filter(alert => alert.quantity === 0).length} sold out · {lowStockAlerts.length} running low or out
+              </p>
+            </div>
+            <button
+              onClick={() => onQuickAction('menu')}
+              className="text-sm font-semibold text-green-600 hover:text-green-700 flex items-center space-x-1 transition-colors cursor-pointer"
+            >
+              <span>Restock</span>
+              <i className="ri-arrow-right-line"></i>
+            </button>
+          </div>
+          <div className="p-4 flex flex-wrap gap-2">
+            {lowStockAlerts.map(alert => (
+              <span
+                key={`${alert.kind}-${alert.name}`}
+                className={`inline-flex items-center gap-1.5 px-3 py-1.5 rounded-full text-xs font-semibold ${
+                  alert.quantity === 0 ? 'bg-red-100 text-red-700' : 'bg-amber-100 text-amber-800'
+                }`}
+              >
+                <i className={alert.kind === 'item' ? 'ri-restaurant-line' : 'ri-archive-line'}></i>
+                {alert.name}
+                <span className="font-normal">{alert.quantity === 0 ? 'sold out' : `${alert.quantity} left`}</span>
+              </span>
+            ))}
+          </div>
+        </div>
+      )}
+
       {/* Quick Actions & Recent Orders */}
       <div className="grid lg:grid-cols-3 gap-6">
         {/* Quick Actions */}
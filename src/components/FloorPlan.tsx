@@ -0,0 +1,129 @@
+import React, { useState, useRef } from 'react';
+import type { ReactNode } from 'react';
+import { PLAN_COLUMNS, PLAN_ROWS, PLAN_CELL_SIZE, getTableFootprint, clampLayout } from '../services/floorPlan';
+import type { Table, TableLayout } from '../types';
+
+interface FloorPlanProps {
+  // Tables placed in the zone being shown
+  tables: Table[];
+  zoneColor: string;
+  selectedTableId?: string | null;
+  // Colors a table, e.g. by its live status
+  getTableClassName?: (table: Table) => string;
+  renderTableInfo?: (table: Table) => ReactNode;
+  onTableClick?: (table: Table) => void;
+  // Dragging is only enabled when this is set
+  onTableMove?: (table: Table, layout: TableLayout) => void;
+}
+
+interface DragState {
+  tableId: string;
+  pointerX: number;
+  pointerY: number;
+  start: TableLayout;
+  layout: TableLayout;
+}
+
+const getTableId = (table: Table) => table._id || table.id;
+
+// Zone floor drawn on a grid; tables snap to whole cells when dragged
+const FloorPlan: React.FC<FloorPlanProps> = ({
+  tables,
+  zoneColor,
+  selectedTableId,
+  getTableClassName,
+  renderTableInfo,
+  onTableClick,
+  onTableMove
+}) => {
+  const [drag, setDrag] = useState<DragState | null>(null);
+  const movedRef = useRef(false);
+
+  const handlePointerDown = (table: Table, e: React.PointerEvent<HTMLDivElement>) => {
+    if (!onTableMove || !table.layout) return;
+    e.currentTarget.setPointerCapture(e.pointerId);
+    movedRef.current = false;
+    setDrag({ tableId: getTableId(table), pointerX: e.clientX, pointerY: e.clientY, start: table.layout, layout: table.layout });
+  };
+
+  const handlePointerMove = (table: Table, e: React.PointerEvent<HTMLDivElement>) => {
+    if (!drag || drag.tableId !== getTableId(table)) return;
+    const layout = clampLayout(table, {
+      ...drag.start,
+      x: drag.start.x + Math.round((e.clientX - drag.pointerX) / PLAN_CELL_SIZE),
+      y: drag.start.y + Math.round((e.clientY - drag.pointerY) / PLAN_CELL_SIZE)
+    });
+    if (layout.x !== drag.layout.x || layout.y !== drag.layout.y) {
+      movedRef.current = true;
+      setDrag({ ...drag, layout });
+    }
+  };
+
+  const handlePointerUp = (table: Table) => {
+    if (drag && drag.tableId === getTableId(table) && movedRef.current) {
+      onTableMove?.(table, drag.layout);
+    } else {
+      onTableClick?.(table);
+    }
+    setDrag(null);
+  };
+
+  return (
+    <div className="overflow-auto rounded-2xl border border-gray-200 bg-white">
+      <div
+        className="relative"
+        style={{
+          width: PLAN_COLUMNS * PLAN_CELL_SIZE,
+          height: PLAN_ROWS * PLAN_CELL_SIZE,
+          backgroundColor: `${zoneColor}0d`,
+          backgroundImage: 'linear-gradient(#e5e7eb 1px, transparent 1px), linear-gradient(90deg, #e5e7eb 1px, transparent 1px)',
+          backgroundSize: `${PLAN_CELL_SIZE}px ${PLAN_CELL_SIZE}px`
+        }}
+      >
+        {tables.map((table) => {
+          if (!table.layout) return null;
+          const tableId = getTableId(table);
+          const layout = drag?.tableId === tableId ? drag.layout : table.layout;
+          const { width, height } = getTableFootprint(table, layout);
+          const isSelected = selectedTableId === tableId;
+
+          return (
+            <div
+              key={tableId}
+              onPointerDown={(e) => handlePointerDown(table, e)}
+              onPointerMove={(e) => handlePointerMove(table, e)}
+              onPointerUp={() => handlePointerUp(table)}
+              className={`absolute p-1 select-none touch-none ${onTableMove ? 'cursor-move' : 'cursor-pointer'} ${
+                drag?.tableId === tableId ? 'z-10 opacity-80' : ''
+              }`}
+              style={{
+                left: layout.x * PLAN_CELL_SIZE,
+                top: layout.y * PLAN_CELL_SIZE,
+                width: width * PLAN_CELL_SIZE,
+                height: height * PLAN_CELL_SIZE
+              }}
+            >
+              <div
+                className={`w-full h-full border-2 flex flex-col items-center justify-center text-center shadow-sm transition-shadow ${
+                  layout.shape === 'round' ? 'rounded-full' : 'rounded-xl'
+                } ${getTableClassName ? getTableClassName(table) : 'bg-white border-gray-300'} ${
+                  isSelected ? 'ring-4 ring-offset-1' : ''
+                }`}
+                style={isSelected ? { ['--tw-ring-color' as string]: zoneColor } : undefined}
+              >
+                <span className="font-bold text-gray-900 leading-none">{table.tableNumber}</span>
+                {renderTableInfo ? renderTableInfo(table) : (
+                  <span className="text-[10px] text-gray-500 leading-tight mt-0.5">
+                    <i className="ri-user-line"></i>{table.capacity}
+                  </span>
+                )}
+              </div>
+            </div>
+          );
+        })}
+      </div>
+    </div>
+  );
+};
+
+export default FloorPlan;
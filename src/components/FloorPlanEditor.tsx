@@ -0,0 +1,357 @@
+import React, { useState, useMemo, useRef, useEffect } from 'react';
+import { useAuth } from '../contexts/AuthContext';
+import { useToast } from '../contexts/ToastContext';
+import { tableService } from '../services/tables';
+import { getApiErrorMessage } from '../services/api';
+import FloorPlan from './FloorPlan';
+import {
+  ZONE_COLORS,
+  TABLE_SHAPES,
+  getZones,
+  getTableZone,
+  clampLayout,
+  findFreeSpot
+} from '../services/floorPlan';
+import type { FloorZone, Table, TableLayout, TableShape } from '../types';
+
+interface FloorPlanEditorProps {
+  tables: Table[];
+  onSaved: (tables: Table[]) => void;
+  onClose: () => void;
+}
+
+const getTableId = (table: Table) => table._id || table.id;
+
+const compareTableNumbers = (a: Table, b: Table) =>
+  String(a.tableNumber).localeCompare(String(b.tableNumber), undefined, { numeric: true });
+
+const FloorPlanEditor: React.FC<FloorPlanEditorProps> = ({ tables, onSaved, onClose }) => {
+  const { restaurant, updateRestaurantSettings } = useAuth();
+  const { showSuccess, showError } = useToast();
+  const [draft, setDraft] = useState<Table[]>(tables);
+  const [zones, setZones] = useState<FloorZone[]>(() => getZones(restaurant?.floorPlan, tables));
+  const [activeZone, setActiveZone] = useState(() => zones[0].name);
+  const [selectedTableId, setSelectedTableId] = useState<string | null>(null);
+  const [dirtyIds, setDirtyIds] = useState<string[]>([]);
+  const [zonesDirty, setZonesDirty] = useState(false);
+  const [newZoneName, setNewZoneName] = useState('');
+  const [saving, setSaving] = useState(false);
+
+  // Use refs for toast functions to prevent re-renders
+  const toastRef = useRef({ showSuccess, showError });
+
+  useEffect(() => {
+    toastRef.current = { showSuccess, showError };
+  }, [showSuccess, showError]);
+
+  const zone = zones.find(z => z.name === activeZone) || zones[0];
+  const zoneTables = useMemo(() =>
+    draft.filter(table => table.layout && getTableZone(table) === zone.name),
+    [draft, zone.name]
+  );
+  const unplacedTables = useMemo(() =>
+    draft.filter(table => !table.layout).sort(compareTableNumbers),
+    [draft]
+  );
+  const selectedTable = draft.find(table => getTableId(table) === selectedTableId);
+  const hasChanges = dirtyIds.length > 0 || zonesDirty;
+
+  const updateDraft = (table: Table, changes: Partial<Table>) => {
+    const tableId = getTableId(table);
+    setDraft(prev => prev.map(t => getTableId(t) === tableId ? { ...t, ...changes } : t));
+    setDirtyIds(prev => prev.includes(tableId) ? prev : [...prev, tableId]);
+  };
+
+  // Drop a table into the first free spot of the zone being edited
+  const placeTable = (table: Table, shape: TableShape = table.layout?.shape || 'square') => {
+    const placed = zoneTables.filter(t => getTableId(t) !== getTableId(table));
+    updateDraft(table, { location: zone.name, layout: findFreeSpot(table, shape, placed) });
+    setSelectedTableId(getTableId(table));
+  };
+
+  const moveTable = (table: Table, layout: TableLayout) => {
+    updateDraft(table, { layout });
+  };
+
+  const updateLayout = (table: Table, changes: Partial<TableLayout>) => {
+    if (!table.layout) return;
+    updateDraft(table, { layout: clampLayout(table, { ...table.layout, ...changes }) });
+  };
+
+  // Bigger parties can need a bigger footprint
+  const updateSeats = (table: Table, capacity: number) => {
+    const next = { ...table, capacity };
+    updateDraft(table, { capacity, layout: table.layout ? clampLayout(next, table.layout) : undefined });
+  };
+
+  const moveToZone = (table: Table, zoneName: string) => {
+    const placed = draft.filter(t => t.layout && getTableZone(t) === zoneName);
+    updateDraft(table, {
+      location: zoneName,
+      layout: table.layout ? findFreeSpot(table, table.layout.shape, placed) : undefined
+    });
+    setActiveZone(zoneName);
+  };
+
+  const addZone = () => {
+    const name = newZoneName.trim();
+    if (!name) return;
+    if (zones.some(z => z.name.toLowerCase() === name.toLowerCase())) {
+      toastRef.current.showError(`There is already a zone called ${name}`);
+      return;
+    }
+    setZones(prev => [...prev, { name, color: ZONE_COLORS[prev.length % ZONE_COLORS.length] }]);
+    setZonesDirty(true);
+    setActiveZone(name);
+    setNewZoneName('');
+  };
+
+  const removeZone = (zoneName: string) => {
+    if (draft.some(table => getTableZone(table) === zoneName)) {
+      toastRef.current.showError(`Move the tables out of ${zoneName} before removing it`);
+      return;
+    }
+    if (zones.length <= 1) return;
+    const remaining = zones.filter(z => z.name !== zoneName);
+    setZones(remaining);
+    setZonesDirty(true);
+    if (activeZone === zoneName) setActiveZone(remaining[0].name);
+  };
+
+  const handleClose = () => {
+    if (hasChanges && !confirm('Discard your unsaved layout changes?')) return;
+    onClose();
+  };
+
+  const handleSave = async () => {
+    setSaving(true);
+
+    try {
+      const changed = draft.filter(table => dirtyIds.includes(getTableId(table)));
+      const updated = await Promise.all(changed.map(table =>
+        tableService.updateTable(getTableId(table), {
+          layout: table.layout || null,
+          location: table.location,
+          capacity: table.capacity
+        })
+      ));
+      if (zonesDirty) {
+        await updateRestaurantSettings({ floorPlan: { zones } });
+      }
+
+      const saved = draft.map(table => {
+        const index = changed.indexOf(table);
+        return index >= 0 && updated[index] ? { ...table, ...updated[index] } : table;
+      });
+      setDirtyIds([]);
+      setZonesDirty(false);
+      onSaved(saved);
+      toastRef.current.showSuccess('Floor plan saved');
+    } catch (error) {
+      console.error('❌ Failed to save floor plan:', error);
+      toastRef.current.showError(`Failed to save floor plan: ${getApiErrorMessage(error)}`);
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <div className="space-y-4">
+
+      {/* Toolbar */}
+      <div className="flex flex-col sm:flex-row sm:items-center justify-between gap-3">
+        <div>
+          <h2 className="text-lg font-bold text-gray-900">Edit Layout</h2>
+          <p className="text-sm text-gray-500">Drag tables to where they stand. Tap a table to change its shape, seats or zone.</p>
+        </div>
+        <div className="flex gap-2 self-start">
+          <button
+            onClick={handleClose}
+            disabled={saving}
+            className="px-4 py-2 rounded-xl bg-white border border-gray-200 hover:bg-gray-100 disabled:opacity-50 text-sm font-semibold text-gray-700"
+          >
+            {hasChanges ? 'Cancel' : 'Done'}
+          </button>
+          <button
+            onClick={handleSave}
+            disabled={!hasChanges || saving}
+            className="px-4 py-2 rounded-xl bg-green-600 hover:bg-green-700 disabled:opacity-50 text-sm font-semibold text-white flex items-center gap-2"
+          >
+            <i className={saving ? 'ri-loader-4-line animate-spin' : 'ri-save-line'}></i>
+            {saving ? 'Saving...' : 'Save Layout'}
+          </button>
+        </div>
+      </div>
+
+      {/* Zones */}
+      <div className="flex flex-wrap items-center gap-2">
+        {zones.map(z => (
+          <div
+            key={z.name}
+            className={`flex items-center rounded-xl text-sm font-semibold border-2 ${
+              z.name === zone.name ? 'bg-white shadow-sm' : 'bg-gray-100 border-transparent text-gray-600'
+            }`}
+            style={z.name === zone.name ? { borderColor: z.color } : undefined}
+          >
+            <button onClick={() => setActiveZone(z.name)} className="flex items-center gap-2 pl-3 pr-2 py-1.5">
+              <span className="w-2.5 h-2.5 rounded-full" style={{ backgroundColor: z.color }}></span>
+              {z.name}
+              <span className="opacity-60">{draft.filter(table => table.layout && getTableZone(table) === z.name).length}</span>
+            </button>
+            {zones.length > 1 && (
+              <button
+                onClick={() => removeZone(z.name)}
+                className="pr-2 text-gray-400 hover:text-red-500"
+                title={`Remove ${z.name}`}
+              >
+                <i className="ri-close-line"></i>
+              </button>
+            )}
+          </div>
+        ))}
+        <div className="flex items-center gap-1">
+          <input
+            type="text"
+            value={newZoneName}
+            onChange={(e) => setNewZoneName(e.target.value)}
+            onKeyDown={(e) => e.key === 'Enter' && addZone()}
+            placeholder="New zone, e.g. Terrace"
+            className="px-3 py-1.5 rounded-xl border border-gray-200 text-sm w-44 focus:outline-none focus:ring-2 focus:ring-green-500"
+          />
+          <button
+            onClick={addZone}
+            disabled={!newZoneName.trim()}
+            className="w-8 h-8 rounded-xl bg-gray-900 text-white disabled:opacity-40 flex items-center justify-center"
+          >
+            <i className="ri-add-line"></i>
+          </button>
+        </div>
+      </div>
+
+      <div className="flex flex-col xl:flex-row gap-4">
+        <div className="flex-1 min-w-0">
+          <FloorPlan
+            tables={zoneTables}
+            zoneColor={zone.color}
+            selectedTableId={selectedTableId}
+            onTableClick={(table) => setSelectedTableId(getTableId(table))}
+            onTableMove={moveTable}
+          />
+        </div>
+
+        <div className="xl:w-72 space-y-4">
+
+          {/* Selected Table */}
+          {selectedTable ? (
+            <div className="bg-white rounded-2xl border border-gray-200 p-4 space-y-4">
+              <div className="flex items-center justify-between">
+                <h3 className="font-bold text-gray-900">Table {selectedTable.tableNumber}</h3>
+                <button onClick={() => setSelectedTableId(null)} className="text-gray-400 hover:text-gray-600">
+                  <i className="ri-close-line text-lg"></i>
+                </button>
+              </div>
+
+              <div>
+                <label className="block text-xs font-semibold text-gray-500 mb-1">Shape</label>
+                <div className="grid grid-cols-3 gap-2">
+                  {TABLE_SHAPES.map(({ shape, label, icon }) => (
+                    <button
+                      key={shape}
+                      onClick={() => selectedTable.layout
+                        ? updateLayout(selectedTable, { shape })
+                        : placeTable(selectedTable, shape)}
+                      className={`py-2 rounded-xl text-xs font-semibold flex flex-col items-center gap-1 border ${
+                        selectedTable.layout?.shape === shape
+                          ? 'border-green-500 bg-green-50 text-green-700'
+                          : 'border-gray-200 text-gray-600 hover:bg-gray-50'
+                      }`}
+                    >
+                      <i className={`${icon} text-lg`}></i>
+                      {label}
+                    </button>
+                  ))}
+                </div>
+                {selectedTable.layout?.shape === 'rectangle' && (
+                  <button
+                    onClick={() => updateLayout(selectedTable, { rotated: !selectedTable.layout?.rotated })}
+                    className="mt-2 w-full py-2 rounded-xl border border-gray-200 hover:bg-gray-50 text-xs font-semibold text-gray-600 flex items-center justify-center gap-1"
+                  >
+                    <i className="ri-refresh-line"></i>
+                    Rotate
+                  </button>
+                )}
+              </div>
+
+              <div className="grid grid-cols-2 gap-3">
+                <div>
+                  <label className="block text-xs font-semibold text-gray-500 mb-1">Seats</label>
+                  <input
+                    type="number"
+                    min={1}
+                    max={30}
+                    value={selectedTable.capacity}
+                    onChange={(e) => updateSeats(selectedTable, Math.min(30, Math.max(1, parseInt(e.target.value) || 1)))}
+                    className="w-full px-3 py-2 rounded-xl border border-gray-200 text-sm focus:outline-none focus:ring-2 focus:ring-green-500"
+                  />
+                </div>
+                <div>
+                  <label className="block text-xs font-semibold text-gray-500 mb-1">Zone</label>
+                  <select
+                    value={getTableZone(selectedTable)}
+                    onChange={(e) => moveToZone(selectedTable, e.target.value)}
+                    className="w-full px-3 py-2 rounded-xl border border-gray-200 text-sm focus:outline-none focus:ring-2 focus:ring-green-500"
+                  >
+                    {zones.map(z => (
+                      <option key={z.name} value={z.name}>{z.name}</option>
+                    ))}
+                  </select>
+                </div>
+              </div>
+
+              {selectedTable.layout && (
+                <button
+                  onClick={() => {
+                    updateDraft(selectedTable, { layout: undefined });
+                    setSelectedTableId(null);
+                  }}
+                  className="w-full py-2 rounded-xl bg-red-50 hover:bg-red-100 text-red-600 text-sm font-semibold flex items-center justify-center gap-1"
+                >
+                  <i className="ri-delete-bin-line"></i>
+                  Remove from Plan
+                </button>
+              )}
+            </div>
+          ) : (
+            <div className="bg-white rounded-2xl border border-dashed border-gray-300 p-4 text-sm text-gray-500 text-center">
+              Select a table to edit it
+            </div>
+          )}
+
+          {/* Unplaced Tables */}
+          <div className="bg-white rounded-2xl border border-gray-200 p-4">
+            <h3 className="font-bold text-gray-900 mb-1">Not on the Plan</h3>
+            <p className="text-xs text-gray-500 mb-3">Tap a table to add it to {zone.name}</p>
+            {unplacedTables.length === 0 ? (
+              <p className="text-sm text-gray-400">Every table has a spot</p>
+            ) : (
+              <div className="flex flex-wrap gap-2">
+                {unplacedTables.map(table => (
+                  <button
+                    key={getTableId(table)}
+                    onClick={() => placeTable(table)}
+                    className="px-3 py-1.5 rounded-lg bg-gray-100 hover:bg-green-100 hover:text-green-700 text-sm font-semibold text-gray-700 flex items-center gap-1"
+                  >
+                    <i className="ri-add-line"></i>
+                    {table.tableNumber}
+                  </button>
+                ))}
+              </div>
+            )}
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default FloorPlanEditor;
@@ -0,0 +1,361 @@
+import React, { useState, useEffect, useMemo, useCallback, memo, useRef } from 'react';
+import { useAuth } from '../contexts/AuthContext';
+import { useToast } from '../contexts/ToastContext';
+import { useRealtime, useRealtimeEvent, useRealtimeResync } from '../contexts/RealtimeContext';
+import { orderService, getPrepMinutes, isTakeawayItem, getItemNote } from '../services/orders';
+import { getApiErrorMessage } from '../services/api';
+import { formatModifiers } from '../services/modifiers';
+import type { Order, OrderStatus } from '../types';
+
+// Only tickets the kitchen is working on
+const KITCHEN_STATUSES: OrderStatus[] = ['confirmed', 'preparing'];
+
+const isKitchenOrder = (order: Order) => KITCHEN_STATUSES.includes(order.status);
+
+// Merge duplicate lines of the same menu item, with the same options and note, on a ticket
+const groupTicketItems = (order: Order) => {
+  const groups: { [key: string]: { name: string; quantity: number; options: string; note: string; isTakeaway: boolean } } = {};
+  order.items.forEach(item => {
+    const options = formatModifiers(item.modifiers);
+    const note = getItemNote(item);
+    const isTakeaway = isTakeawayItem(item);
+    const key = [item.menuItem?._id || item.menuItem?.name || 'unknown', options, note, isTakeaway].join('|');
+    if (!groups[key]) {
+      groups[key] = { name: item.menuItem?.name || 'Unknown Item', quantity: 0, options, note, isTakeaway };
+    }
+    groups[key].quantity += item.quantity;
+  });
+  return Object.values(groups);
+};
+
+const formatElapsed = (ms: number) => {
+  const totalSeconds = Math.max(0, Math.floor(ms / 1000));
+  const minutes = Math.floor(totalSeconds / 60);
+  const seconds = totalSeconds % 60;
+  return `${minutes}:${seconds.toString().padStart(2, '0')}`;
+};
+
+const KitchenDisplay: React.FC = () => {
+  const { user } = useAuth();
+  const { showSuccess, showError } = useToast();
+  const [orders, setOrders] = useState<Order[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [now, setNow] = useState(Date.now());
+  const [highlightedItem, setHighlightedItem] = useState<string | null>(null);
+  const [bumpingIds, setBumpingIds] = useState<string[]>([]);
+  const [isFullscreen, setIsFullscreen] = useState(false);
+  const containerRef = useRef<HTMLDivElement>(null);
+
+  // Use refs for toast functions to prevent re-renders
+  const toastRef = useRef({ showSuccess, showError });
+
+  useEffect(() => {
+    toastRef.current = { showSuccess, showError };
+  }, [showSuccess, showError]);
+
+  // Keep only tickets in a kitchen status, dropping ones that moved on
+  const upsertOrder = useCallback((incoming: Order) => {
+    setOrders(prev => {
+      const others = prev.filter(order => order._id !== incoming._id);
+      return isKitchenOrder(incoming) ? [...others, incoming] : others;
+    });
+  }, []);
+
+  // Realtime callbacks
+  const handleNewOrder = useCallback((newOrder: Order) => {
+    upsertOrder(newOrder);
+    if (isKitchenOrder(newOrder)) {
+      toastRef.current.showSuccess(`New ticket: ${newOrder.orderNumber}`);
+    }
+  }, [upsertOrder]);
+
+  const handleOrderUpdate = useCallback((updatedOrder: Order) => {
+    upsertOrder(updatedOrder);
+  }, [upsertOrder]);
+
+  const { isConnected } = useRealtime();
+  useRealtimeEvent('new_order', handleNewOrder);
+  useRealtimeEvent('order_updated', handleOrderUpdate);
+  useRealtimeEvent('order_paid', handleOrderUpdate);
+
+  // Load kitchen tickets (silently when resyncing after a reconnect)
+  const loadOrders = useCallback(async (silent = false) => {
+    if (!user) return;
+
+    try {
+      if (!silent) setLoading(true);
+      const allOrders = await orderService.getOrders('all');
+      setOrders(allOrders.filter(isKitchenOrder));
+    } catch (error) {
+      console.error('❌ Failed to load kitchen orders:', error);
+      toastRef.current.showError(`Failed to load orders: ${getApiErrorMessage(error)}`);
+    } finally {
+      setLoading(false);
+    }
+  }, [user]);
+
+  useEffect(() => {
+    loadOrders();
+  }, [loadOrders]);
+
+  useRealtimeResync(() => loadOrders(true));
+
+  // Tick timers every second
+  useEffect(() => {
+    const interval = window.setInterval(() => setNow(Date.now()), 1000);
+    return () => window.clearInterval(interval);
+  }, []);
+
+  // Track fullscreen changes (Esc key, browser controls)
+  useEffect(() => {
+    const handleFullscreenChange = () => setIsFullscreen(!!document.fullscreenElement);
+    document.addEventListener('fullscreenchange', handleFullscreenChange);
+    return () => document.removeEventListener('fullscreenchange', handleFullscreenChange);
+  }, []);
+
+  const toggleFullscreen = useCallback(() => {
+    if (document.fullscreenElement) {
+      document.exitFullscreen();
+    } else {
+      containerRef.current?.requestFullscreen().catch(error => {
+        console.error('❌ Fullscreen request failed:', error);
+      });
+    }
+  }, []);
+
+  // Move a ticket forward: confirmed -> preparing -> ready
+  const bumpOrder = useCallback(async (order: Order) => {
+    const nextStatus: OrderStatus = order.status === 'confirmed' ? 'preparing' : 'ready';
+    setBumpingIds(prev => [...prev, order._id]);
+
+    try {
+      const updatedOrder = await orderService.updateOrderStatus(order._id, nextStatus);
+      upsertOrder(updatedOrder || { ...order, status: nextStatus });
+
+      if (nextStatus === 'ready') {
+        toastRef.current.showSuccess(`Order ${order.orderNumber} is ready`);
+      }
+    } catch (error) {
+      console.error('❌ Failed to bump order:', error);
+      toastRef.current.showError(`Failed to update order: ${getApiErrorMessage(error)}`);
+    } finally {
+      setBumpingIds(prev => prev.filter(id => id !== order._id));
+    }
+  }, [upsertOrder]);
+
+  // Oldest tickets first
+  const tickets = useMemo(() =>
+    [...orders].sort((a, b) => new Date(a.createdAt).getTime() - new Date(b.createdAt).getTime()),
+    [orders]
+  );
+
+  // All-day counts across open tickets
+  const itemTotals = useMemo(() => {
+    const totals: { [name: string]: number } = {};
+    tickets.forEach(order => {
+      groupTicketItems(order).forEach(group => {
+        totals[group.name] = (totals[group.name] || 0) + group.quantity;
+      });
+    });
+    return Object.entries(totals)
+      .map(([name, quantity]) => ({ name, quantity }))
+      .sort((a, b) => b.quantity - a.quantity);
+  }, [tickets]);
+
+  const preparingCount = tickets.filter(order => order.status === 'preparing').length;
+
+  return (
+    <div ref={containerRef} className="min-h-screen bg-gray-900 text-white overflow-y-auto">
+      <div className="px-3 sm:px-4 lg:px-6 py-4 sm:py-6 space-y-4">
+
+        {/* Header */}
+        <div className="flex flex-col sm:flex-row sm:items-center justify-between gap-3">
+          <div>
+            <div className="flex items-center gap-2">
+              <i className="ri-fire-line text-orange-400 text-2xl"></i>
+              <h1 className="text-2xl sm:text-3xl font-bold">Kitchen</h1>
+              <div className={`flex items-center gap-1 px-2 py-1 rounded-full text-xs font-medium ${
+                isConnected ? 'bg-green-500/20 text-green-300' : 'bg-red-500/20 text-red-300'
+              }`}>
+                <div className={`w-2 h-2 rounded-full ${isConnected ? 'bg-green-400 animate-pulse' : 'bg-red-400'}`}></div>
+                {isConnected ? 'Live' : 'Disconnected'}
+              </div>
+            </div>
+            <p className="text-sm text-gray-400 mt-1">
+              {tickets.length} open tickets • {preparingCount} preparing
+            </p>
+          </div>
+          <div className="flex items-center gap-2">
+            <button
+              onClick={() => loadOrders()}
+              className="px-4 py-2 rounded-xl bg-gray-800 hover:bg-gray-700 transition-colors flex items-center gap-2 text-sm font-semibold"
+            >
+              <i className="ri-refresh-line"></i>
+              <span className="hidden sm:inline">Refresh</span>
+            </button>
+            <button
+              onClick={toggleFullscreen}
+              className="px-4 py-2 rounded-xl bg-gray-800 hover:bg-gray-700 transition-colors flex items-center gap-2 text-sm font-semibold"
+            >
+              <i className={isFullscreen ? 'ri-fullscreen-exit-line' : 'ri-fullscreen-line'}></i>
+              <span className="hidden sm:inline">{isFullscreen ? 'Exit Fullscreen' : 'Fullscreen'}</span>
+            </button>
+          </div>
+        </div>
+
+        {/* All-day item totals */}
+        {itemTotals.length > 0 && (
+          <div className="flex overflow-x-auto gap-2 pb-1">
+            {itemTotals.map(({ name, quantity }) => (
+              <button
+                key={name}
+                onClick={() => setHighlightedItem(highlightedItem === name ? null : name)}
+                className={`flex items-center gap-2 px-3 py-2 rounded-xl whitespace-nowrap text-sm font-semibold transition-colors ${
+                  highlightedItem === name
+                    ? 'bg-orange-500 text-white'
+                    : 'bg-gray-800 text-gray-200 hover:bg-gray-700'
+                }`}
+              >
+                <span className="text-lg font-bold">{quantity}</span>
+                <span>{name}</span>
+              </button>
+            ))}
+          </div>
+        )}
+
+        {/* Tickets */}
+        {loading ? (
+          <div className="flex items-center justify-center py-24 text-gray-400">
+            <i className="ri-loader-4-line animate-spin text-3xl mr-3"></i>
+            Loading tickets...
+          </div>
+        ) : tickets.length === 0 ? (
+          <div className="text-center py-24">
+            <i className="ri-restaurant-line text-6xl text-gray-700"></i>
+            <p className="text-xl font-semibold text-gray-400 mt-4">No tickets in the kitchen</p>
+            <p className="text-sm text-gray-500 mt-1">Confirmed orders will appear here automatically</p>
+          </div>
+        ) : (
+          <div className="grid grid-cols-1 md:grid-cols-2 xl:grid-cols-3 2xl:grid-cols-4 gap-4">
+            {tickets.map(order => (
+              <KitchenTicket
+                key={order._id}
+                order={order}
+                now={now}
+                highlightedItem={highlightedItem}
+                isBumping={bumpingIds.includes(order._id)}
+                onBump={bumpOrder}
+              />
+            ))}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
+
+// Kitchen Ticket Component (memoized)
+interface KitchenTicketProps {
+  order: Order;
+  now: number;
+  highlightedItem: string | null;
+  isBumping: boolean;
+  onBump: (order: Order) => void;
+}
+
+const KitchenTicket = memo(({ order, now, highlightedItem, isBumping, onBump }: KitchenTicketProps) => {
+  const targetMinutes = getPrepMinutes(order);
+  const elapsedMs = now - new Date(order.createdAt).getTime();
+  const progress = elapsedMs / (targetMinutes * 60 * 1000);
+  const groups = groupTicketItems(order);
+  const isPreparing = order.status === 'preparing';
+
+  const timerColor = progress >= 1
+    ? 'bg-red-600'
+    : progress >= 0.75
+    ? 'bg-yellow-500'
+    : 'bg-green-600';
+
+  return (
+    <div className={`bg-gray-800 rounded-2xl overflow-hidden border-2 flex flex-col ${
+      progress >= 1 ? 'border-red-500 animate-pulse' : 'border-gray-700'
+    }`}>
+      {/* Ticket Header */}
+      <div className={`${timerColor} px-4 py-3 flex items-center justify-between`}>
+        <div>
+          <h3 className="text-2xl font-bold">#{order.orderNumber}</h3>
+          <p className="text-sm opacity-90">
+            {order.table ? `Table ${order.table.tableNumber}` : order.customerName || 'Walk-in'}
+            {' • '}
+            <span className="capitalize">{order.orderType}</span>
+          </p>
+        </div>
+        <div className="text-right">
+          <div className="text-3xl font-mono font-bold">{formatElapsed(elapsedMs)}</div>
+          <div className="text-xs opacity-90">target {targetMinutes} min</div>
+        </div>
+      </div>
+
+      {/* Items */}
+      <div className="flex-1 p-4 space-y-3">
+        <span className={`inline-block px-2 py-0.5 rounded-full text-xs font-semibold uppercase ${
+          isPreparing ? 'bg-orange-500/20 text-orange-300' : 'bg-blue-500/20 text-blue-300'
+        }`}>
+          {order.status}
+        </span>
+        {/* Whole-order notes (allergies) come before the items */}
+        {order.customerNotes && (
+          <p className="text-base font-semibold text-yellow-100 bg-yellow-500/20 border-2 border-yellow-400 rounded-xl px-3 py-2">
+            <i className="ri-alert-line mr-1"></i>{order.customerNotes}
+          </p>
+        )}
+        {groups.map(group => (
+          <div
+            key={`${group.name}|${group.options}|${group.note}|${group.isTakeaway}`}
+            className={`rounded-xl px-3 py-2 ${
+              highlightedItem === group.name ? 'bg-orange-500/30 ring-2 ring-orange-400' : 'bg-gray-900/60'
+            }`}
+          >
+            <div className="flex items-baseline gap-3">
+              <span className="text-2xl font-bold text-orange-300">{group.quantity}×</span>
+              <span className="text-xl font-semibold">{group.name}</span>
+            </div>
+            {group.options && (
+              <p className="text-base font-semibold text-white/90 mt-1">{group.options}</p>
+            )}
+            {group.isTakeaway && (
+              <p className="text-sm text-blue-300 italic mt-1">
+                <i className="ri-takeaway-line mr-1"></i>Takeaway
+              </p>
+            )}
+            {group.note && (
+              <p className="text-base font-semibold text-yellow-200 bg-yellow-500/20 rounded-lg px-2 py-1 mt-1">
+                <i className="ri-sticky-note-line mr-1"></i>{group.note}
+              </p>
+            )}
+          </div>
+        ))}
+      </div>
+
+      {/* Bump Action */}
+      <button
+        onClick={() => onBump(order)}
+        disabled={isBumping}
+        className={`w-full py-4 text-lg font-bold flex items-center justify-center gap-2 transition-colors disabled:opacity-50 ${
+          isPreparing
+            ? 'bg-green-600 hover:bg-green-500'
+            : 'bg-orange-600 hover:bg-orange-500'
+        }`}
+      >
+        {isBumping ? (
+          <i className="ri-loader-4-line animate-spin"></i>
+        ) : (
+          <i className={isPreparing ? 'ri-check-double-line' : 'ri-fire-line'}></i>
+        )}
+        <span>{isPreparing ? 'Bump to Ready' : 'Start Preparing'}</span>
+      </button>
+    </div>
+  );
+});
+
+export default KitchenDisplay;
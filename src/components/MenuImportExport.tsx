@@ -0,0 +1,383 @@
+import React, { useState, useRef, useEffect } from 'react';
+import { useToast } from '../contexts/ToastContext';
+import { menuService } from '../services/menu';
+import { getApiErrorMessage } from '../services/api';
+import {
+  exportMenuCsv,
+  exportMenuJson,
+  downloadMenuFile,
+  readMenuFile,
+  planMenuImport,
+  getNewCategories,
+  findCategory,
+  toCreateMenuItemData,
+  toUpdateMenuItemData
+} from '../services/menuTransfer';
+import type { MenuFileFormat, MenuImportAction, MenuImportPlan, MenuImportRow } from '../services/menuTransfer';
+import type { Category, MenuItem } from '../types';
+
+interface MenuImportExportProps {
+  menuItems: MenuItem[];
+  categories: Category[];
+  restaurantId: string;
+  // Called after an import so the menu can be reloaded
+  onImported: () => void;
+  onClose: () => void;
+}
+
+interface ImportFailure {
+  name: string;
+  error: string;
+}
+
+const ACTION_LABELS: Record<MenuImportAction, string> = {
+  create: 'Create',
+  update: 'Update',
+  skip: 'Skip'
+};
+
+const getCategoryId = (category: { id?: string; _id?: string }) => category.id || category._id || '';
+
+// Export the menu, or preview a file and apply it row by row
+const MenuImportExport: React.FC<MenuImportExportProps> = ({ menuItems, categories, restaurantId, onImported, onClose }) => {
+  const { showSuccess, showError } = useToast();
+  const [fileName, setFileName] = useState('');
+  const [plan, setPlan] = useState<MenuImportPlan | null>(null);
+  const [actions, setActions] = useState<Record<number, MenuImportAction>>({});
+  const [expandedRow, setExpandedRow] = useState<number | null>(null);
+  const [progress, setProgress] = useState<{ done: number; total: number } | null>(null);
+  const [failures, setFailures] = useState<ImportFailure[]>([]);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  // Use refs for toast functions to prevent re-renders
+  const toastRef = useRef({ showSuccess, showError });
+  useEffect(() => {
+    toastRef.current = { showSuccess, showError };
+  }, [showSuccess, showError]);
+
+  const importing = progress !== null;
+
+  const handleExport = (format: MenuFileFormat) => {
+    const content = format === 'csv' ? exportMenuCsv(menuItems, categories) : exportMenuJson(menuItems, categories);
+    downloadMenuFile(content, format);
+    toastRef.current.showSuccess(`Exported ${menuItems.length} menu items`);
+  };
+
+  const handleFile = async (file: File) => {
+    const format: MenuFileFormat = file.name.toLowerCase().endsWith('.json') ? 'json' : 'csv';
+    try {
+      const { records, categories: fileCategories } = readMenuFile(await file.text(), format);
+      const nextPlan = planMenuImport(records, fileCategories, menuItems, categories);
+      setPlan(nextPlan);
+      setActions(Object.fromEntries(nextPlan.rows.map(row => [row.rowNumber, row.action])));
+      setFileName(file.name);
+      setFailures([]);
+    } catch (error) {
+      console.error('❌ Failed to read menu file:', error);
+      toastRef.current.showError(`Couldn't read ${file.name}: ${error instanceof Error ? error.message : 'invalid file'}`);
+    }
+  };
+
+  const resetImport = () => {
+    setPlan(null);
+    setActions({});
+    setFileName('');
+    setFailures([]);
+    if (fileInputRef.current) fileInputRef.current.value = '';
+  };
+
+  const getActionChoices = (row: MenuImportRow): MenuImportAction[] => {
+    if (row.errors.length > 0) return ['skip'];
+    return row.existing ? ['update', 'skip'] : ['create', 'skip'];
+  };
+
+  const handleImport = async () => {
+    if (!plan) return;
+    const rows = plan.rows.filter(row => actions[row.rowNumber] !== 'skip');
+    const newCategories = getNewCategories(plan, actions, categories);
+    const knownCategories = [...categories];
+    const importFailures: ImportFailure[] = [];
+    let done = 0;
+
+    setProgress({ done: 0, total: newCategories.length + rows.length });
+
+    for (const category of newCategories) {
+      try {
+        const response = await menuService.createCategory({
+          name: category.name,
+          description: category.description || category.name,
+          restaurant: restaurantId,
+          sortOrder: knownCategories.length + 1,
+          isPredefined: false
+        });
+        const created = response.category || response.data;
+        knownCategories.push({ ...created, id: getCategoryId(created) });
+      } catch (error) {
+        importFailures.push({ name: `Category ${category.name}`, error: getApiErrorMessage(error) });
+      }
+      setProgress({ done: ++done, total: newCategories.length + rows.length });
+    }
+
+    for (const row of rows) {
+      const category = row.data.category ? findCategory(row.data.category, knownCategories) : undefined;
+      try {
+        if (row.data.category && !category) {
+          throw new Error(`Category ${row.data.category} could not be created`);
+        }
+        if (row.existing) {
+          await menuService.updateMenuItem(row.existing.id || row.existing._id, toUpdateMenuItemData(row, category?.id));
+        } else {
+          await menuService.createMenuItem(toCreateMenuItemData(row, category?.id || '', restaurantId));
+        }
+      } catch (error) {
+        importFailures.push({ name: row.name, error: getApiErrorMessage(error) });
+      }
+      setProgress({ done: ++done, total: newCategories.length + rows.length });
+    }
+
+    setProgress(null);
+    setFailures(importFailures);
+    onImported();
+
+    const saved = rows.length + newCategories.length - importFailures.length;
+    if (importFailures.length === 0) {
+      toastRef.current.showSuccess(`Imported ${saved} change${saved !== 1 ? 's' : ''}`);
+      resetImport();
+    } else {
+      toastRef.current.showError(`${importFailures.length} row${importFailures.length > 1 ? 's' : ''} failed to import`);
+      setPlan(null);
+    }
+  };
+
+  const handleClose = () => {
+    if (importing) return;
+    onClose();
+  };
+
+  const counts = plan
+    ? {
+      create: plan.rows.filter(row => actions[row.rowNumber] === 'create').length,
+      update: plan.rows.filter(row => actions[row.rowNumber] === 'update').length,
+      skip: plan.rows.filter(row => actions[row.rowNumber] === 'skip').length,
+      errors: plan.rows.filter(row => row.errors.length > 0).length
+    }
+    : null;
+  const newCategories = plan ? getNewCategories(plan, actions, categories) : [];
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center p-2 sm:p-4 z-50">
+      <div className="bg-white rounded-2xl w-full max-w-4xl max-h-[90vh] overflow-y-auto">
+        <div className="p-4 sm:p-6 border-b border-gray-200 sticky top-0 bg-white z-10">
+          <div className="flex items-center justify-between">
+            <div>
+              <h2 className="text-xl sm:text-2xl font-bold text-gray-900">Import & Export Menu</h2>
+              <p className="text-gray-600 text-sm mt-1">
+                Download your menu as a spreadsheet or JSON, edit it, and bring it back in.
+              </p>
+            </div>
+            <button
+              onClick={handleClose}
+              className="p-2 hover:bg-gray-100 rounded-lg transition-colors"
+              disabled={importing}
+            >
+              <i className="ri-close-line text-xl"></i>
+            </button>
+          </div>
+        </div>
+
+        <div className="p-4 sm:p-6 space-y-6">
+          {/* Export */}
+          <div className="bg-gradient-to-r from-blue-50 to-indigo-50 border border-blue-200 rounded-2xl p-4 sm:p-6">
+            <div className="flex flex-col sm:flex-row sm:items-center sm:justify-between gap-4">
+              <div>
+                <h3 className="text-lg font-semibold text-blue-900 mb-1 flex items-center">
+                  <i className="ri-download-2-line text-blue-600 mr-2"></i>
+                  Export
+                </h3>
+                <p className="text-blue-700 text-sm">
+                  {menuItems.length} items with categories, dietary, nutrition, takeaway, options and stock
+                </p>
+              </div>
+              <div className="flex gap-2">
+                <button
+                  onClick={() => handleExport('csv')}
+                  className="bg-white text-blue-700 border border-blue-200 px-4 py-2.5 rounded-xl font-semibold hover:bg-blue-50 transition-colors flex items-center gap-2"
+                  disabled={menuItems.length === 0}
+                >
+                  <i className="ri-file-excel-2-line"></i>
+                  CSV
+                </button>
+                <button
+                  onClick={() => handleExport('json')}
+                  className="bg-white text-blue-700 border border-blue-200 px-4 py-2.5 rounded-xl font-semibold hover:bg-blue-50 transition-colors flex items-center gap-2"
+                  disabled={menuItems.length === 0}
+                >
+                  <i className="ri-braces-line"></i>
+                  JSON
+                </button>
+              </div>
+            </div>
+          </div>
+
+          {/* Import */}
+          <div className="bg-gradient-to-r from-green-50 to-emerald-50 border border-green-200 rounded-2xl p-4 sm:p-6">
+            <div className="flex flex-col sm:flex-row sm:items-center sm:justify-between gap-4">
+              <div>
+                <h3 className="text-lg font-semibold text-green-900 mb-1 flex items-center">
+                  <i className="ri-upload-2-line text-green-600 mr-2"></i>
+                  Import
+                </h3>
+                <p className="text-green-700 text-sm">
+                  Items are matched by name. Only the columns in your file are changed; lists in CSV cells are separated with ";".
+                </p>
+              </div>
+              <label className={`bg-green-500 text-white px-5 py-2.5 rounded-xl font-semibold hover:bg-green-600 transition-colors flex items-center gap-2 whitespace-nowrap ${importing ? 'opacity-50 pointer-events-none' : 'cursor-pointer'}`}>
+                <i className="ri-file-upload-line"></i>
+                {fileName ? 'Choose Another File' : 'Choose File'}
+                <input
+                  ref={fileInputRef}
+                  type="file"
+                  accept=".csv,.json,text/csv,application/json"
+                  className="hidden"
+                  onChange={(e) => {
+                    const file = e.target.files?.[0];
+                    if (file) handleFile(file);
+                  }}
+                />
+              </label>
+            </div>
+          </div>
+
+          {failures.length > 0 && (
+            <div className="p-4 bg-red-50 border border-red-200 rounded-2xl">
+              <h4 className="font-semibold text-red-800 mb-2 flex items-center gap-2">
+                <i className="ri-error-warning-line"></i>
+                These didn't import
+              </h4>
+              <ul className="text-sm text-red-700 space-y-1">
+                {failures.map(failure => (
+                  <li key={failure.name}><span className="font-medium">{failure.name}:</span> {failure.error}</li>
+                ))}
+              </ul>
+            </div>
+          )}
+
+          {/* Preview */}
+          {plan && counts && (
+            <div className="space-y-4">
+              <div className="flex flex-wrap items-center gap-2 text-sm">
+                <span className="font-semibold text-gray-900 mr-1">{fileName}</span>
+                <span className="px-3 py-1 rounded-full bg-green-100 text-green-800 font-medium">{counts.create} new</span>
+                <span className="px-3 py-1 rounded-full bg-blue-100 text-blue-800 font-medium">{counts.update} to update</span>
+                <span className="px-3 py-1 rounded-full bg-gray-100 text-gray-700 font-medium">{counts.skip} skipped</span>
+                {counts.errors > 0 && (
+                  <span className="px-3 py-1 rounded-full bg-red-100 text-red-700 font-medium">{counts.errors} with errors</span>
+                )}
+              </div>
+
+              {newCategories.length > 0 && (
+                <p className="text-sm text-gray-600">
+                  <i className="ri-folder-add-line text-green-600 mr-1"></i>
+                  New categories: {newCategories.map(category => category.name).join(', ')}
+                </p>
+              )}
+
+              <div className="border border-gray-200 rounded-xl divide-y divide-gray-100">
+                {plan.rows.map(row => {
+                  const action = actions[row.rowNumber];
+                  const isExpanded = expandedRow === row.rowNumber;
+                  return (
+                    <div key={row.rowNumber} className={`p-3 ${row.errors.length > 0 ? 'bg-red-50/50' : ''}`}>
+                      <div className="flex items-center gap-3">
+                        <span className="text-xs text-gray-400 w-10 flex-shrink-0">#{row.rowNumber}</span>
+                        <div className="flex-1 min-w-0">
+                          <span className="block text-sm font-medium text-gray-900 truncate">{row.name || 'Unnamed row'}</span>
+                          <span className="block text-xs text-gray-500">
+                            {row.errors.length > 0
+                              ? `${row.errors.length} error${row.errors.length > 1 ? 's' : ''}`
+                              : row.existing
+                                ? row.changes.length > 0 ? `${row.changes.length} field${row.changes.length > 1 ? 's' : ''} changed` : 'No changes'
+                                : 'New item'}
+                          </span>
+                        </div>
+                        {(row.changes.length > 0 || row.errors.length > 0) && (
+                          <button
+                            onClick={() => setExpandedRow(isExpanded ? null : row.rowNumber)}
+                            className="text-xs text-gray-500 hover:text-gray-700 flex items-center gap-1"
+                          >
+                            {isExpanded ? 'Hide' : 'Details'}
+                            <i className={`ri-arrow-${isExpanded ? 'up' : 'down'}-s-line`}></i>
+                          </button>
+                        )}
+                        <select
+                          value={action}
+                          onChange={(e) => setActions(prev => ({ ...prev, [row.rowNumber]: e.target.value as MenuImportAction }))}
+                          className="px-2 py-1.5 border border-gray-300 rounded-lg text-sm"
+                          disabled={importing || row.errors.length > 0}
+                        >
+                          {getActionChoices(row).map(choice => (
+                            <option key={choice} value={choice}>{ACTION_LABELS[choice]}</option>
+                          ))}
+                        </select>
+                      </div>
+
+                      {isExpanded && (
+                        <div className="mt-2 pl-12 space-y-1 text-xs">
+                          {row.errors.map(error => (
+                            <p key={error} className="text-red-600 flex items-start gap-1">
+                              <i className="ri-error-warning-line"></i>
+                              {error}
+                            </p>
+                          ))}
+                          {row.errors.length === 0 && row.changes.map(change => (
+                            <p key={change.field} className="text-gray-600 break-words">
+                              <span className="font-medium text-gray-800">{change.field}:</span>{' '}
+                              {row.existing && <span className="line-through text-gray-400">{change.from || '(empty)'}</span>}
+                              {row.existing && ' → '}
+                              <span className="text-gray-900">{change.to || '(empty)'}</span>
+                            </p>
+                          ))}
+                        </div>
+                      )}
+                    </div>
+                  );
+                })}
+              </div>
+            </div>
+          )}
+
+          <div className="flex flex-col-reverse sm:flex-row items-center justify-end gap-3 pt-4 border-t border-gray-200">
+            <button
+              onClick={plan ? resetImport : handleClose}
+              className="w-full sm:w-auto px-6 py-3 text-gray-700 font-semibold hover:bg-gray-100 rounded-xl transition-all duration-200 border border-gray-300"
+              disabled={importing}
+            >
+              {plan ? 'Cancel Import' : 'Close'}
+            </button>
+            {plan && counts && (
+              <button
+                onClick={handleImport}
+                className="w-full sm:w-auto bg-green-500 text-white px-6 py-3 rounded-xl font-semibold hover:bg-green-600 transition-all duration-200 flex items-center justify-center gap-2 shadow-lg shadow-green-500/25 disabled:opacity-50"
+                disabled={importing || counts.create + counts.update === 0}
+              >
+                {progress ? (
+                  <>
+                    <i className="ri-loader-4-line animate-spin"></i>
+                    Importing {progress.done}/{progress.total}...
+                  </>
+                ) : (
+                  <>
+                    <i className="ri-check-line"></i>
+                    Import {counts.create + counts.update} Item{counts.create + counts.update !== 1 ? 's' : ''}
+                  </>
+                )}
+              </button>
+            )}
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default MenuImportExport;
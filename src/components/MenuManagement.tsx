@@ -1,8 +1,47 @@
 import React, { useState, useEffect, useCallback, useMemo, useRef } from 'react';
 import { useAuth } from '../contexts/AuthContext';
 import { menuService } from '../services/menu';
-import type { MenuItem, Category, CreateMenuItemData, UpdateMenuItemData, MenuItemFormData } from '../types';
+import { validateModifierGroups } from '../services/modifiers';
+import { ALLERGENS, getAllergenLabel } from '../services/menuFilters';
+import { WEEKDAYS, getScheduleStatus, formatUpcomingTime, describeSchedule, validateSchedule } from '../services/schedule';
+import { getApiErrorMessage } from '../services/api';
+import {
+  inventoryService,
+  getAvailableQuantity,
+  findIngredientStock,
+  applyStockUpdate,
+  DEFAULT_LOW_STOCK_THRESHOLD
+} from '../services/inventory';
+import { useRealtimeStock } from '../hooks/useRealtimeStock';
+import { useDragReorder } from '../hooks/useDragReorder';
+import { compareSortOrder, sortMenuItems, toSortOrders, applySortOrders } from '../services/menuOrder';
+import { previewBulkAction, getRevertUpdate, describeBulkAction } from '../services/bulkEdit';
+import type { BulkAction, BulkChange } from '../services/bulkEdit';
+import type {
+  MenuItem,
+  Category,
+  CreateMenuItemData,
+  UpdateMenuItemData,
+  MenuItemFormData,
+  ModifierGroup,
+  MenuSchedule,
+  IngredientStock,
+  UpdateCategoryData
+} from '../types';
 import { useToast } from '../contexts/ToastContext';
+import MenuImportExport from './MenuImportExport';
+
+// How long a bulk change can be undone; bulk deletes are only sent once it has passed
+const UNDO_WINDOW_MS = 10000;
+
+const getItemCategoryId = (item: MenuItem) =>
+  typeof item.category === 'string' ? item.category : item.category?.id || '';
+
+interface BulkUndo {
+  action: BulkAction;
+  // The items as they were before the change
+  items: MenuItem[];
+}
 
 // Menu Management Skeleton Loader
 const MenuManagementSkeleton = () => (
@@ -75,7 +114,7 @@ const MenuManagementSkeleton = () => (
   </div>
 );
 const MenuManagement: React.FC = () => {
-  const { user, restaurant } = useAuth();
+  const { user, restaurant, updateRestaurantSettings } = useAuth();
   const { showSuccess, showError } = useToast();
   const [menuItems, setMenuItems] = useState<MenuItem[]>([]);
   const [categories, setCategories] = useState<Category[]>([]);
@@ -85,6 +124,15 @@ const MenuManagement: React.FC = () => {
   const [selectedCategory, setSelectedCategory] = useState<string>('all');
   const [searchTerm, setSearchTerm] = useState('');
   const [showCategoryManagement, setShowCategoryManagement] = useState(false);
+  const [showSchedules, setShowSchedules] = useState(false);
+  const [showInventory, setShowInventory] = useState(false);
+  const [showImportExport, setShowImportExport] = useState(false);
+  const [selectMode, setSelectMode] = useState(false);
+  const [selectedIds, setSelectedIds] = useState<Set<string>>(new Set());
+  const [pendingBulkAction, setPendingBulkAction] = useState<BulkAction | null>(null);
+  const [bulkUndo, setBulkUndo] = useState<BulkUndo | null>(null);
+  const bulkUndoRef = useRef<BulkUndo | null>(null);
+  const [ingredientStock, setIngredientStock] = useState<IngredientStock[]>(restaurant?.ingredientStock || []);
   const [deletingCategoryId, setDeletingCategoryId] = useState<string | null>(null);
   const [tempFormData, setTempFormData] = useState<any>(null);
   
@@ -96,6 +144,12 @@ const MenuManagement: React.FC = () => {
     toastRef.current = { showSuccess, showError };
   }, [showSuccess, showError]);
 
+  // Counts change as orders are accepted, here or on another device
+  useRealtimeStock((update) => {
+    setMenuItems(prev => applyStockUpdate(prev, update, item => item.id));
+    if (update.ingredients) setIngredientStock(update.ingredients);
+  });
+
   // Static processing functions - no dependencies needed
   const processMenuItems = useCallback((rawMenuItems: any[]) => {
     return rawMenuItems.map((item: any) => ({
@@ -159,23 +213,56 @@ const MenuManagement: React.FC = () => {
   }, [user]);
 
   // Memoize filtered categories
-  const { userCategories, predefinedCategories } = useMemo(() => {
+  const { userCategories, predefinedCategories, sortedCategories } = useMemo(() => {
     return {
       userCategories: categories.filter(cat => !cat.isPredefined),
-      predefinedCategories: categories.filter(cat => cat.isPredefined)
+      predefinedCategories: categories.filter(cat => cat.isPredefined),
+      sortedCategories: [...categories].sort(compareSortOrder)
     };
   }, [categories]);
 
-  // Memoize filtered items
+  // Memoize filtered items, in the order customers see them
   const filteredItems = useMemo(() => {
-    return menuItems.filter(item => {
-      const matchesCategory = selectedCategory === 'all' || 
-        (typeof item.category === 'string' ? item.category : item.category?.id) === selectedCategory;
+    const matching = menuItems.filter(item => {
+      const matchesCategory = selectedCategory === 'all' || getItemCategoryId(item) === selectedCategory;
       const matchesSearch = item.name.toLowerCase().includes(searchTerm.toLowerCase()) ||
         item.description.toLowerCase().includes(searchTerm.toLowerCase());
       return matchesCategory && matchesSearch;
     });
-  }, [menuItems, selectedCategory, searchTerm]);
+    return sortMenuItems(matching, getItemCategoryId, sortedCategories.map(category => category.id));
+  }, [menuItems, sortedCategories, selectedCategory, searchTerm]);
+
+  // Items are ordered within a category, so dragging needs one picked and nothing else narrowing it
+  const canReorderItems = selectedCategory !== 'all' && !searchTerm && !selectMode;
+
+  const handleReorderItems = useCallback(async (ids: string[]) => {
+    const order = toSortOrders(ids);
+    const previous = menuItems;
+    setMenuItems(prev => applySortOrders(prev, order, item => item.id));
+    try {
+      await menuService.reorderMenuItems(order);
+    } catch (error) {
+      setMenuItems(previous);
+      toastRef.current.showError(`Failed to save the new order: ${getApiErrorMessage(error)}`);
+    }
+  }, [menuItems]);
+
+  const handleReorderCategories = useCallback(async (ids: string[]) => {
+    const order = toSortOrders(ids);
+    const previous = categories;
+    setCategories(prev => applySortOrders(prev, order, category => category.id));
+    try {
+      await menuService.reorderCategories(order);
+    } catch (error) {
+      setCategories(previous);
+      toastRef.current.showError(`Failed to save the category order: ${getApiErrorMessage(error)}`);
+    }
+  }, [categories]);
+
+  const itemReorder = useDragReorder(filteredItems.map(item => item.id), handleReorderItems);
+  const displayedItems = itemReorder.orderedIds
+    .map(id => filteredItems.find(item => item.id === id))
+    .filter((item): item is MenuItem => !!item);
 
   // FIXED: Optimized item addition with toast ref
   const handleAddItem = useCallback(async (data: CreateMenuItemData, imageFile?: File) => {
@@ -291,6 +378,130 @@ const MenuManagement: React.FC = () => {
     }
   }, [handleEditItem]);
 
+  const toggleSelected = useCallback((id: string) => {
+    setSelectedIds(prev => {
+      const next = new Set(prev);
+      if (next.has(id)) next.delete(id);
+      else next.add(id);
+      return next;
+    });
+  }, []);
+
+  const exitSelectMode = useCallback(() => {
+    setSelectMode(false);
+    setSelectedIds(new Set());
+  }, []);
+
+  // Resolves to the items that couldn't be deleted, which are put back on the list
+  const deleteItems = useCallback(async (items: MenuItem[], keepalive = false) => {
+    const results = await Promise.allSettled(items.map(item => menuService.deleteMenuItem(item.id, { keepalive })));
+    const failed = items.filter((_, index) => results[index].status === 'rejected');
+    if (failed.length > 0) {
+      setMenuItems(prev => [...prev, ...failed]);
+      toastRef.current.showError(`Couldn't delete ${failed.map(item => item.name).join(', ')}`);
+    }
+    return failed;
+  }, []);
+
+  // Ends the undo window, carrying out a held-back delete
+  const closeBulkUndo = useCallback(async (keepalive = false): Promise<MenuItem[]> => {
+    const current = bulkUndoRef.current;
+    bulkUndoRef.current = null;
+    setBulkUndo(null);
+    return current?.action.type === 'delete' ? deleteItems(current.items, keepalive) : [];
+  }, [deleteItems]);
+
+  const openBulkUndo = useCallback((undo: BulkUndo) => {
+    closeBulkUndo();
+    bulkUndoRef.current = undo;
+    setBulkUndo(undo);
+  }, [closeBulkUndo]);
+
+  useEffect(() => {
+    if (!bulkUndo) return;
+    const timer = setTimeout(() => closeBulkUndo(), UNDO_WINDOW_MS);
+    return () => clearTimeout(timer);
+  }, [bulkUndo, closeBulkUndo]);
+
+  // Leaving the page doesn't cancel a delete that is waiting out its undo window
+  useEffect(() => {
+    return () => {
+      const pending = bulkUndoRef.current;
+      if (pending?.action.type === 'delete') deleteItems(pending.items);
+    };
+  }, [deleteItems]);
+
+  // Reloading, closing the tab or leaving the app skips React cleanups, so the
+  // undo window also ends as soon as the page is hidden
+  useEffect(() => {
+    const handleVisibilityChange = () => {
+      if (document.visibilityState === 'hidden') closeBulkUndo(true);
+    };
+    const handlePageHide = () => closeBulkUndo(true);
+    document.addEventListener('visibilitychange', handleVisibilityChange);
+    window.addEventListener('pagehide', handlePageHide);
+    return () => {
+      document.removeEventListener('visibilitychange', handleVisibilityChange);
+      window.removeEventListener('pagehide', handlePageHide);
+    };
+  }, [closeBulkUndo]);
+
+  const applyUpdateResults = useCallback((
+    items: MenuItem[],
+    results: PromiseSettledResult<{ menuItem?: unknown; data?: unknown }>[]
+  ) => {
+    const updated: MenuItem[] = [];
+    const failed: string[] = [];
+    results.forEach((result, index) => {
+      if (result.status === 'fulfilled') {
+        updated.push(processMenuItems([result.value.menuItem || result.value.data])[0]);
+      } else {
+        failed.push(items[index].name);
+      }
+    });
+    setMenuItems(prev => prev.map(item => updated.find(entry => entry.id === item.id) || item));
+    if (failed.length > 0) {
+      toastRef.current.showError(`Couldn't update ${failed.join(', ')}`);
+    }
+    return items.filter((_, index) => results[index].status === 'fulfilled');
+  }, [processMenuItems]);
+
+  const handleBulkAction = useCallback(async (action: BulkAction, changes: BulkChange[]) => {
+    if (action.type === 'delete') {
+      const ids = new Set(changes.map(change => change.item.id));
+      setMenuItems(prev => prev.filter(item => !ids.has(item.id)));
+      openBulkUndo({ action, items: changes.map(change => change.item) });
+    } else {
+      const changed = changes.filter(change => change.update !== null);
+      const results = await Promise.allSettled(
+        changed.map(change => menuService.updateMenuItem(change.item.id, change.update || {}))
+      );
+      const saved = applyUpdateResults(changed.map(change => change.item), results);
+      if (saved.length > 0) openBulkUndo({ action, items: saved });
+    }
+    setPendingBulkAction(null);
+    exitSelectMode();
+  }, [openBulkUndo, applyUpdateResults, exitSelectMode]);
+
+  const handleUndoBulk = useCallback(async () => {
+    const current = bulkUndoRef.current;
+    if (!current) return;
+    bulkUndoRef.current = null;
+    setBulkUndo(null);
+
+    if (current.action.type === 'delete') {
+      setMenuItems(prev => [...prev, ...current.items]);
+      toastRef.current.showSuccess('Items restored');
+      return;
+    }
+    const results = await Promise.allSettled(
+      current.items.map(item => menuService.updateMenuItem(item.id, getRevertUpdate(item, current.action)))
+    );
+    if (applyUpdateResults(current.items, results).length === current.items.length) {
+      toastRef.current.showSuccess('Changes undone');
+    }
+  }, [applyUpdateResults]);
+
   // FIXED: Optimized category creation with toast ref
   const handleCreateCategory = useCallback(async (categoryName: string) => {
     const restaurantId = restaurant?._id || restaurant?.id;
@@ -323,20 +534,110 @@ const MenuManagement: React.FC = () => {
     }
   }, [restaurant, categories.length, processCategories]);
 
+  const handleSaveIngredients = useCallback(async (ingredients: IngredientStock[]) => {
+    try {
+      const update = await inventoryService.updateIngredients(ingredients);
+      setIngredientStock(update.ingredients || ingredients);
+      setMenuItems(prev => applyStockUpdate(prev, update, item => item.id));
+      toastRef.current.showSuccess('Ingredient stock saved');
+    } catch (error) {
+      toastRef.current.showError(`Failed to save ingredient stock: ${getApiErrorMessage(error)}`);
+      throw error;
+    }
+  }, []);
+
+  const handleSaveSchedules = useCallback(async (menuSchedules: MenuSchedule[]) => {
+    try {
+      await updateRestaurantSettings({ menuSchedules });
+      toastRef.current.showSuccess('Menu schedules saved');
+    } catch (error) {
+      toastRef.current.showError(`Failed to save menu schedules: ${getApiErrorMessage(error)}`);
+      throw error;
+    }
+  }, [updateRestaurantSettings]);
+
   // FIXED: Optimized category deletion with toast ref
-  const handleDeleteCategory = useCallback(async (categoryId: string) => {
-    if (!confirm('Are you sure you want to delete this category? Menu items in this category will become uncategorized.')) {
+  const categoryItemCounts = useMemo(() => {
+    return menuItems.reduce<Record<string, number>>((counts, item) => {
+      const categoryId = getItemCategoryId(item);
+      counts[categoryId] = (counts[categoryId] || 0) + 1;
+      return counts;
+    }, {});
+  }, [menuItems]);
+
+  const handleUpdateCategory = useCallback(async (categoryId: string, changes: UpdateCategoryData) => {
+    try {
+      await menuService.updateCategory(categoryId, changes);
+      setCategories(prev => prev.map(category => category.id === categoryId ? { ...category, ...changes } : category));
+
+      // Items carry their category's name for the cards
+      const name = changes.name;
+      if (name) {
+        setMenuItems(prev => prev.map(item =>
+          typeof item.category !== 'string' && item.category?.id === categoryId
+            ? { ...item, category: { ...item.category, name } }
+            : item
+        ));
+      }
+      toastRef.current.showSuccess('Category updated successfully!');
+    } catch (error) {
+      toastRef.current.showError(`Failed to update category: ${getApiErrorMessage(error)}`);
+      throw error;
+    }
+  }, []);
+
+  // Resolves to false if any item stayed behind; restored are items a bulk delete just put back
+  const moveCategoryItems = useCallback(async (fromId: string, toId: string, restored: MenuItem[]) => {
+    const items = [...menuItems, ...restored].filter(item => getItemCategoryId(item) === fromId);
+    const results = await Promise.allSettled(items.map(item => menuService.updateMenuItem(item.id, { category: toId })));
+    return applyUpdateResults(items, results).length === items.length;
+  }, [menuItems, applyUpdateResults]);
+
+  // Deleting also merges: items still in the category move to moveItemsTo first,
+  // and the category is kept if any of them couldn't be moved
+  const handleDeleteCategory = useCallback(async (categoryId: string, moveItemsTo?: string) => {
+    if (!moveItemsTo && categoryItemCounts[categoryId]) {
+      toastRef.current.showError('Move the items in this category to another one before deleting it.');
+      return;
+    }
+    if (!moveItemsTo && !confirm('Are you sure you want to delete this category?')) {
       return;
     }
 
     try {
       setDeletingCategoryId(categoryId);
+
+      // Items waiting out a bulk delete's undo window aren't on the list, so settle that first
+      const restored = await closeBulkUndo();
+      if (!moveItemsTo && restored.some(item => getItemCategoryId(item) === categoryId)) {
+        toastRef.current.showError('Move the items in this category to another one before deleting it.');
+        return;
+      }
+      if (moveItemsTo && !(await moveCategoryItems(categoryId, moveItemsTo, restored))) {
+        toastRef.current.showError('Some items could not be moved, so the category was kept.');
+        return;
+      }
       await menuService.deleteCategory(categoryId);
       
       // Optimistic update - NO FULL RELOAD
       setCategories(prev => prev.filter(cat => cat.id !== categoryId));
+
+      // Schedules left with no categories have nothing to serve
+      const menuSchedules = restaurant?.menuSchedules || [];
+      if (menuSchedules.some(schedule => schedule.categoryIds.includes(categoryId))) {
+        try {
+          await updateRestaurantSettings({
+            menuSchedules: menuSchedules
+              .map(schedule => ({ ...schedule, categoryIds: schedule.categoryIds.filter(id => id !== categoryId) }))
+              .filter(schedule => schedule.categoryIds.length > 0)
+          });
+        } catch (error) {
+          toastRef.current.showError(`Category deleted, but its menu schedules weren't updated: ${getApiErrorMessage(error)}`);
+        }
+      }
       
-      toastRef.current.showSuccess('Category deleted successfully!');
+      const target = moveItemsTo && categories.find(category => category.id === moveItemsTo);
+      toastRef.current.showSuccess(target ? `Category merged into ${target.name}` : 'Category deleted successfully!');
     } catch (error: any) {
       const errorMessage = error.response?.data?.error || error.message;
       if (error.response?.status === 403) {
@@ -347,7 +648,7 @@ const MenuManagement: React.FC = () => {
     } finally {
       setDeletingCategoryId(null);
     }
-  }, []);
+  }, [categoryItemCounts, categories, moveCategoryItems, closeBulkUndo, restaurant, updateRestaurantSettings]);
 
     if (loading) {
     return <MenuManagementSkeleton />;
@@ -376,6 +677,30 @@ const MenuManagement: React.FC = () => {
               <i className="ri-folder-open-line text-xl sm:text-2xl lg:text-3xl"></i>
             </button>
 
+            <button
+              onClick={() => setShowSchedules(true)}
+              className="group relative w-12 h-12 sm:w-14 sm:h-14 lg:w-16 lg:h-16 rounded-2xl bg-white/20 backdrop-blur-sm text-white flex items-center justify-center shadow-lg hover:bg-white/30 hover:scale-110 active:scale-95 transition-all duration-300"
+              title="Menu Schedules"
+            >
+              <i className="ri-calendar-schedule-line text-xl sm:text-2xl lg:text-3xl"></i>
+            </button>
+
+            <button
+              onClick={() => setShowInventory(true)}
+              className="group relative w-12 h-12 sm:w-14 sm:h-14 lg:w-16 lg:h-16 rounded-2xl bg-white/20 backdrop-blur-sm text-white flex items-center justify-center shadow-lg hover:bg-white/30 hover:scale-110 active:scale-95 transition-all duration-300"
+              title="Ingredient Stock"
+            >
+              <i className="ri-archive-stack-line text-xl sm:text-2xl lg:text-3xl"></i>
+            </button>
+
+            <button
+              onClick={() => setShowImportExport(true)}
+              className="group relative w-12 h-12 sm:w-14 sm:h-14 lg:w-16 lg:h-16 rounded-2xl bg-white/20 backdrop-blur-sm text-white flex items-center justify-center shadow-lg hover:bg-white/30 hover:scale-110 active:scale-95 transition-all duration-300"
+              title="Import / Export"
+            >
+              <i className="ri-file-transfer-line text-xl sm:text-2xl lg:text-3xl"></i>
+            </button>
+
             <button
               onClick={() => setShowAddModal(true)}
               className="group relative w-12 h-12 sm:w-14 sm:h-14 lg:w-16 lg:h-16 rounded-2xl bg-white text-blue-600 flex items-center justify-center shadow-lg hover:shadow-2xl hover:scale-110 active:scale-95 transition-all duration-300"
@@ -410,14 +735,38 @@ const MenuManagement: React.FC = () => {
               className="w-full px-4 py-3 sm:py-4 lg:py-5 border-2 border-gray-200 rounded-xl sm:rounded-2xl focus:ring-4 focus:ring-blue-500/20 focus:border-blue-500 text-sm sm:text-base lg:text-lg transition-all duration-300 bg-white hover:border-gray-300 cursor-pointer"
             >
               <option value="all">All Categories</option>
-              {categories.map(category => (
+              {sortedCategories.map(category => (
                 <option key={category.id} value={category.id}>
-                  {category.name}
+                  {category.name}{category.isHidden ? ' (hidden)' : ''}
                 </option>
               ))}
             </select>
           </div>
+
+          <button
+            onClick={() => (selectMode ? exitSelectMode() : setSelectMode(true))}
+            className={`px-4 border-2 rounded-xl sm:rounded-2xl font-semibold text-sm sm:text-base transition-all duration-300 flex items-center gap-2 ${
+              selectMode
+                ? 'border-blue-500 bg-blue-50 text-blue-700'
+                : 'border-gray-200 text-gray-700 hover:border-gray-300'
+            }`}
+            title="Select items to edit together"
+          >
+            <i className="ri-checkbox-multiple-line text-lg"></i>
+            <span className="hidden sm:inline">{selectMode ? 'Done' : 'Select'}</span>
+          </button>
         </div>
+
+        {selectMode && (
+          <BulkActionBar
+            selectedCount={selectedIds.size}
+            visibleCount={filteredItems.length}
+            categories={sortedCategories}
+            onSelectAll={() => setSelectedIds(new Set(filteredItems.map(item => item.id)))}
+            onClearSelection={() => setSelectedIds(new Set())}
+            onAction={setPendingBulkAction}
+          />
+        )}
       </div>
 
       {/* Stats Cards */}
@@ -462,16 +811,34 @@ const MenuManagement: React.FC = () => {
           </button>
         </div>
       ) : (
-        <div className="grid p-4 lg:p-0 grid-cols-1 xs:grid-cols-2 sm:grid-cols-2 lg:grid-cols-3 xl:grid-cols-4 2xl:grid-cols-5 gap-4 sm:gap-6">
-          {filteredItems.map(item => (
-            <MenuItemCard
-              key={item.id}
-              item={item}
-              onEdit={setEditingItem}
-              onDelete={handleDeleteItem}
-              onToggleAvailability={toggleAvailability}
-            />
-          ))}
+        <div className="space-y-3">
+          {canReorderItems && displayedItems.length > 1 && (
+            <p className="px-4 lg:px-0 text-sm text-gray-500 flex items-center gap-1">
+              <i className="ri-draggable"></i>
+              Drag items by the handle to change the order customers see them in.
+            </p>
+          )}
+          <div className="grid p-4 lg:p-0 grid-cols-1 xs:grid-cols-2 sm:grid-cols-2 lg:grid-cols-3 xl:grid-cols-4 2xl:grid-cols-5 gap-4 sm:gap-6">
+            {displayedItems.map(item => (
+              <div
+                key={item.id}
+                {...itemReorder.getItemProps(item.id)}
+                className={itemReorder.draggingId === item.id ? 'opacity-50' : ''}
+              >
+                <MenuItemCard
+                  item={item}
+                  onEdit={setEditingItem}
+                  onDelete={handleDeleteItem}
+                  onToggleAvailability={toggleAvailability}
+                  ingredientStock={ingredientStock}
+                  selectMode={selectMode}
+                  selected={selectedIds.has(item.id)}
+                  onToggleSelected={toggleSelected}
+                  reorderHandleProps={canReorderItems ? itemReorder.getHandleProps(item.id) : undefined}
+                />
+              </div>
+            ))}
+          </div>
         </div>
       )}
 
@@ -500,12 +867,76 @@ const MenuManagement: React.FC = () => {
         <CategoryManagementModal
           predefinedCategories={predefinedCategories}
           userCategories={userCategories}
+          sortedCategories={sortedCategories}
+          onReorderCategories={handleReorderCategories}
+          categoryItemCounts={categoryItemCounts}
+          onUpdateCategory={handleUpdateCategory}
           onDeleteCategory={handleDeleteCategory}
           deletingCategoryId={deletingCategoryId}
           onClose={() => setShowCategoryManagement(false)}
           onCreateCategory={handleCreateCategory}
         />
       )}
+
+      {/* Menu Schedules Modal */}
+      {showSchedules && (
+        <MenuSchedulesModal
+          schedules={restaurant?.menuSchedules || []}
+          categories={categories}
+          onSave={handleSaveSchedules}
+          onClose={() => setShowSchedules(false)}
+        />
+      )}
+
+      {/* Ingredient Stock Modal */}
+      {showInventory && (
+        <IngredientStockModal
+          ingredients={ingredientStock}
+          menuItems={menuItems}
+          onSave={handleSaveIngredients}
+          onClose={() => setShowInventory(false)}
+        />
+      )}
+
+      {/* Bulk Edit Confirmation */}
+      {pendingBulkAction && (
+        <BulkEditConfirmModal
+          action={pendingBulkAction}
+          changes={previewBulkAction(menuItems.filter(item => selectedIds.has(item.id)), pendingBulkAction)}
+          onConfirm={handleBulkAction}
+          onClose={() => setPendingBulkAction(null)}
+        />
+      )}
+
+      {/* Undo Bar */}
+      {bulkUndo && (
+        <div className="fixed bottom-4 left-1/2 -translate-x-1/2 z-40 bg-gray-900 text-white rounded-xl shadow-2xl px-4 py-3 flex items-center gap-4 text-sm">
+          <span>
+            {bulkUndo.items.length} item{bulkUndo.items.length !== 1 ? 's' : ''} {bulkUndo.action.type === 'delete' ? 'deleted' : 'updated'}
+          </span>
+          <button
+            onClick={handleUndoBulk}
+            className="font-semibold text-green-400 hover:text-green-300 flex items-center gap-1"
+          >
+            <i className="ri-arrow-go-back-line"></i>
+            Undo
+          </button>
+          <button onClick={() => closeBulkUndo()} className="text-gray-400 hover:text-white" title="Dismiss">
+            <i className="ri-close-line"></i>
+          </button>
+        </div>
+      )}
+
+      {/* Menu Import / Export Modal */}
+      {showImportExport && (
+        <MenuImportExport
+          menuItems={menuItems}
+          categories={categories}
+          restaurantId={restaurant?._id || restaurant?.id || ''}
+          onImported={loadMenuData}
+          onClose={() => setShowImportExport(false)}
+        />
+      )}
     </div>
   );
 };
@@ -516,12 +947,29 @@ interface MenuItemCardProps {
   onEdit: (item: MenuItem) => void;
   onDelete: (id: string) => void;
   onToggleAvailability: (item: MenuItem) => void;
+  ingredientStock: IngredientStock[];
+  selectMode: boolean;
+  selected: boolean;
+  onToggleSelected: (id: string) => void;
+  // Only passed while the items can be dragged into a new order
+  reorderHandleProps?: React.DOMAttributes<HTMLElement>;
 }
 
-const MenuItemCard: React.FC<MenuItemCardProps> = React.memo(({ item, onEdit, onDelete, onToggleAvailability }) => {
+const MenuItemCard: React.FC<MenuItemCardProps> = React.memo(({
+  item,
+  onEdit,
+  onDelete,
+  onToggleAvailability,
+  ingredientStock,
+  selectMode,
+  selected,
+  onToggleSelected,
+  reorderHandleProps
+}) => {
   const [showMore, setShowMore] = React.useState(false);
   const [imageError, setImageError] = React.useState(false);
   const categoryName = typeof item.category === 'string' ? 'Uncategorized' : item.category?.name || 'Uncategorized';
+  const availableQuantity = getAvailableQuantity(item, ingredientStock);
 
   // Handle image loading errors
   const handleImageError = () => {
@@ -546,7 +994,7 @@ const MenuItemCard: React.FC<MenuItemCardProps> = React.memo(({ item, onEdit, on
       item.isAvailable 
         ? 'border-green-100 hover:border-green-200' 
         : 'border-gray-300 opacity-60'
-    } group flex flex-col h-full`}>
+    } ${selected ? 'ring-2 ring-blue-500' : ''} group flex flex-col h-full`}>
       
       {/* Image Section - UPDATED FOR CLOUDINARY */}
       <div className="relative overflow-hidden aspect-[4/3]">
@@ -591,10 +1039,38 @@ const MenuItemCard: React.FC<MenuItemCardProps> = React.memo(({ item, onEdit, on
           <i className={`ri-${item.isAvailable ? 'eye' : 'eye-off'}-line text-base`}></i>
         </button>
 
+        {/* Stock Badge */}
+        {availableQuantity !== null && (
+          <span className={`z-20 absolute top-3 left-3 px-2.5 py-1 rounded-full text-xs font-semibold shadow-md ${
+            availableQuantity === 0
+              ? 'bg-red-600 text-white'
+              : availableQuantity <= (item.lowStockThreshold ?? DEFAULT_LOW_STOCK_THRESHOLD)
+                ? 'bg-amber-500 text-white'
+                : 'bg-white/90 text-gray-700'
+          }`}>
+            {availableQuantity === 0 ? 'Sold out' : `${availableQuantity} left`}
+          </span>
+        )}
+
         {/* Unavailable Overlay */}
-        {!item.isAvailable && (
+        {(!item.isAvailable || availableQuantity === 0) && (
           <div className="absolute inset-0 bg-gray-900/40 backdrop-blur-[1px]"></div>
         )}
+
+        {/* Selection Checkbox */}
+        {selectMode && (
+          <button
+            onClick={() => onToggleSelected(item.id)}
+            className="z-20 absolute inset-0 flex items-end justify-start p-3"
+            title={selected ? 'Deselect' : 'Select'}
+          >
+            <span className={`w-7 h-7 rounded-lg border-2 flex items-center justify-center shadow-md ${
+              selected ? 'bg-blue-600 border-blue-600 text-white' : 'bg-white/90 border-gray-300'
+            }`}>
+              {selected && <i className="ri-check-line"></i>}
+            </span>
+          </button>
+        )}
       </div>
 
       {/* Content Section */}
@@ -677,11 +1153,23 @@ const MenuItemCard: React.FC<MenuItemCardProps> = React.memo(({ item, onEdit, on
                 <span>Takeaway available</span>
               </div>
             )}
+            {item.modifierGroups?.map(group => (
+              <div key={group.name} className="flex items-center gap-2">
+                <i className="ri-list-settings-line text-blue-500"></i>
+                <span>{group.name}{group.required ? ' (required)' : ''}: {group.options.map(option => option.name).join(', ')}</span>
+              </div>
+            ))}
+            {!!item.allergens?.length && (
+              <div className="flex items-center gap-2">
+                <i className="ri-alert-line text-amber-500"></i>
+                <span>Contains: {item.allergens.map(getAllergenLabel).join(', ')}</span>
+              </div>
+            )}
           </div>
         )}
 
         {/* Show More/Less Toggle */}
-        {(item.nutrition?.calories || item.takeaway?.isTakeawayAvailable) && (
+        {(item.nutrition?.calories || item.takeaway?.isTakeawayAvailable || !!item.modifierGroups?.length || !!item.allergens?.length) && (
           <button
             onClick={() => setShowMore(!showMore)}
             className="text-xs text-green-600 hover:text-green-700 font-medium mb-3 flex items-center gap-1 transition-colors"
@@ -696,6 +1184,15 @@ const MenuItemCard: React.FC<MenuItemCardProps> = React.memo(({ item, onEdit, on
 
         {/* Action Buttons */}
         <div className="flex items-center justify-end gap-4 pt-3 border-t border-gray-100 mt-auto">
+          {reorderHandleProps && (
+            <span
+              {...reorderHandleProps}
+              className="mr-auto -ml-1 p-1 text-gray-400 hover:text-gray-600 touch-none select-none cursor-grab active:cursor-grabbing"
+              title="Drag to reorder"
+            >
+              <i className="ri-draggable text-lg"></i>
+            </span>
+          )}
           <button
             onClick={() => onEdit(item)}
             className="text-gray-600 hover:text-green-600 text-sm font-medium transition-colors duration-200 flex items-center gap-1.5"
@@ -716,6 +1213,216 @@ const MenuItemCard: React.FC<MenuItemCardProps> = React.memo(({ item, onEdit, on
   );
 });
 
+// Bulk Action Bar Component
+interface BulkActionBarProps {
+  selectedCount: number;
+  visibleCount: number;
+  categories: Category[];
+  onSelectAll: () => void;
+  onClearSelection: () => void;
+  onAction: (action: BulkAction) => void;
+}
+
+const BulkActionBar: React.FC<BulkActionBarProps> = ({
+  selectedCount,
+  visibleCount,
+  categories,
+  onSelectAll,
+  onClearSelection,
+  onAction
+}) => {
+  const [percent, setPercent] = useState('');
+  const disabled = selectedCount === 0;
+
+  const handlePriceChange = () => {
+    const value = Number(percent);
+    if (!percent.trim() || !Number.isFinite(value) || value === 0) {
+      alert('Enter a percentage, e.g. 10 to raise prices or -10 to lower them');
+      return;
+    }
+    if (value <= -100) {
+      alert('Prices can be lowered by less than 100%');
+      return;
+    }
+    onAction({ type: 'price', percent: value });
+  };
+
+  const buttonClass = 'px-3 py-2 rounded-lg border border-gray-200 text-sm font-medium text-gray-700 hover:bg-gray-50 transition-colors flex items-center gap-1.5 disabled:opacity-50 disabled:cursor-not-allowed';
+
+  return (
+    <div className="mt-4 pt-4 border-t border-gray-100 space-y-3">
+      <div className="flex items-center gap-3 text-sm">
+        <span className="font-semibold text-gray-900">{selectedCount} selected</span>
+        <button
+          onClick={onSelectAll}
+          className="text-blue-600 hover:text-blue-700 font-medium"
+          disabled={visibleCount === 0}
+        >
+          Select all {visibleCount}
+        </button>
+        {selectedCount > 0 && (
+          <button onClick={onClearSelection} className="text-gray-500 hover:text-gray-700 font-medium">
+            Clear
+          </button>
+        )}
+      </div>
+
+      <div className="flex flex-wrap items-center gap-2">
+        <select
+          value=""
+          onChange={(e) => {
+            const category = categories.find(entry => entry.id === e.target.value);
+            if (category) onAction({ type: 'category', categoryId: category.id, categoryName: category.name });
+          }}
+          className="px-3 py-2 rounded-lg border border-gray-200 text-sm text-gray-700 bg-white disabled:opacity-50"
+          disabled={disabled}
+        >
+          <option value="">Move to category...</option>
+          {categories.map(category => (
+            <option key={category.id} value={category.id}>{category.name}</option>
+          ))}
+        </select>
+
+        <button onClick={() => onAction({ type: 'availability', isAvailable: true })} className={buttonClass} disabled={disabled}>
+          <i className="ri-eye-line text-green-600"></i>
+          Available
+        </button>
+        <button onClick={() => onAction({ type: 'availability', isAvailable: false })} className={buttonClass} disabled={disabled}>
+          <i className="ri-eye-off-line text-gray-500"></i>
+          Unavailable
+        </button>
+
+        <button onClick={() => onAction({ type: 'takeaway', isTakeawayAvailable: true })} className={buttonClass} disabled={disabled}>
+          <i className="ri-shopping-bag-line text-green-600"></i>
+          Takeaway on
+        </button>
+        <button onClick={() => onAction({ type: 'takeaway', isTakeawayAvailable: false })} className={buttonClass} disabled={disabled}>
+          <i className="ri-shopping-bag-line text-gray-500"></i>
+          Takeaway off
+        </button>
+
+        <div className="flex items-center">
+          <input
+            type="number"
+            value={percent}
+            onChange={(e) => setPercent(e.target.value)}
+            placeholder="±%"
+            className="w-20 px-3 py-2 rounded-l-lg border border-gray-200 text-sm disabled:opacity-50"
+            disabled={disabled}
+          />
+          <button onClick={handlePriceChange} className={`${buttonClass} rounded-l-none border-l-0`} disabled={disabled}>
+            <i className="ri-percent-line text-blue-600"></i>
+            Price
+          </button>
+        </div>
+
+        <button
+          onClick={() => onAction({ type: 'delete' })}
+          className="px-3 py-2 rounded-lg border border-red-200 text-sm font-medium text-red-600 hover:bg-red-50 transition-colors flex items-center gap-1.5 disabled:opacity-50 disabled:cursor-not-allowed"
+          disabled={disabled}
+        >
+          <i className="ri-delete-bin-line"></i>
+          Delete
+        </button>
+      </div>
+    </div>
+  );
+};
+
+// Bulk Edit Confirmation Modal Component
+interface BulkEditConfirmModalProps {
+  action: BulkAction;
+  changes: BulkChange[];
+  onConfirm: (action: BulkAction, changes: BulkChange[]) => Promise<void>;
+  onClose: () => void;
+}
+
+const BulkEditConfirmModal: React.FC<BulkEditConfirmModalProps> = ({ action, changes, onConfirm, onClose }) => {
+  const [applying, setApplying] = useState(false);
+  const isDelete = action.type === 'delete';
+  const affected = isDelete ? changes : changes.filter(change => change.update !== null);
+  const unchanged = changes.length - affected.length;
+
+  const handleConfirm = async () => {
+    try {
+      setApplying(true);
+      await onConfirm(action, changes);
+    } finally {
+      setApplying(false);
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center p-2 sm:p-4 z-50">
+      <div className="bg-white rounded-2xl w-full max-w-lg max-h-[90vh] overflow-y-auto">
+        <div className="p-4 sm:p-6 border-b border-gray-200 sticky top-0 bg-white z-10">
+          <div className="flex items-center justify-between">
+            <h2 className="text-xl font-bold text-gray-900">{describeBulkAction(action, affected.length)}?</h2>
+            <button
+              onClick={onClose}
+              className="p-2 hover:bg-gray-100 rounded-lg transition-colors"
+              disabled={applying}
+            >
+              <i className="ri-close-line text-xl"></i>
+            </button>
+          </div>
+          <p className="text-gray-600 text-sm mt-1">
+            You can undo this for a few seconds afterwards.
+            {unchanged > 0 && ` ${unchanged} selected item${unchanged !== 1 ? 's are' : ' is'} already set and won't change.`}
+          </p>
+        </div>
+
+        <div className="p-4 sm:p-6">
+          {affected.length === 0 ? (
+            <p className="text-sm text-gray-500 text-center py-4">Nothing to change.</p>
+          ) : (
+            <ul className="divide-y divide-gray-100 text-sm">
+              {affected.map(change => (
+                <li key={change.item.id} className="py-2 flex items-center justify-between gap-3">
+                  <span className="font-medium text-gray-900 truncate">{change.item.name}</span>
+                  <span className="text-gray-500 whitespace-nowrap">
+                    {change.from} <i className="ri-arrow-right-line mx-1"></i>
+                    <span className={isDelete ? 'text-red-600 font-medium' : 'text-gray-900 font-medium'}>{change.to}</span>
+                  </span>
+                </li>
+              ))}
+            </ul>
+          )}
+
+          <div className="flex flex-col-reverse sm:flex-row items-center justify-end gap-3 pt-4 mt-4 border-t border-gray-200">
+            <button
+              onClick={onClose}
+              className="w-full sm:w-auto px-6 py-3 text-gray-700 font-semibold hover:bg-gray-100 rounded-xl transition-all duration-200 border border-gray-300"
+              disabled={applying}
+            >
+              Cancel
+            </button>
+            <button
+              onClick={handleConfirm}
+              className={`w-full sm:w-auto text-white px-6 py-3 rounded-xl font-semibold transition-all duration-200 flex items-center justify-center gap-2 disabled:opacity-50 ${
+                isDelete ? 'bg-red-500 hover:bg-red-600' : 'bg-green-500 hover:bg-green-600'
+              }`}
+              disabled={applying || affected.length === 0}
+            >
+              {applying ? (
+                <>
+                  <i className="ri-loader-4-line animate-spin"></i>
+                  Saving...
+                </>
+              ) : (
+                <>
+                  <i className={isDelete ? 'ri-delete-bin-line' : 'ri-check-line'}></i>
+                  {isDelete ? 'Delete' : 'Apply'}
+                </>
+              )}
+            </button>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
+
 // Menu Item Modal Component
 interface MenuItemModalProps {
   item?: MenuItem | null;
@@ -757,7 +1464,12 @@ const MenuItemModal: React.FC<MenuItemModalProps> = ({
     fat: item?.nutrition?.fat || 0,
     fiber: item?.nutrition?.fiber || 0,
     sugar: item?.nutrition?.sugar || 0,
-    sodium: item?.nutrition?.sodium || 0
+    sodium: item?.nutrition?.sodium || 0,
+    modifierGroups: item?.modifierGroups || [],
+    allergens: item?.allergens || [],
+    trackStock: item?.trackStock || false,
+    stockQuantity: item?.stockQuantity || 0,
+    lowStockThreshold: item?.lowStockThreshold ?? DEFAULT_LOW_STOCK_THRESHOLD
   });
   
   const [imageFile, setImageFile] = useState<File | null>(null);
@@ -821,13 +1533,32 @@ const MenuItemModal: React.FC<MenuItemModalProps> = ({
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
     if (uploading) return;
+
+    const modifierGroups = formData.modifierGroups.map(group => ({
+      ...group,
+      name: group.name.trim(),
+      minSelections: Number(group.minSelections) || 0,
+      maxSelections: Number(group.maxSelections) || 0,
+      options: group.options
+        .filter(option => option.name.trim())
+        .map(option => ({ name: option.name.trim(), priceDelta: Number(option.priceDelta) || 0 }))
+    }));
+    const modifierError = validateModifierGroups(modifierGroups);
+    if (modifierError) {
+      alert(modifierError);
+      return;
+    }
+
     try {
       setUploading(true);
       const submitData = {
         ...formData,
+        modifierGroups,
         price: Number(formData.price),
         preparationTime: Number(formData.preparationTime),
         spiceLevel: Number(formData.spiceLevel),
+        stockQuantity: Math.max(0, Math.floor(Number(formData.stockQuantity) || 0)),
+        lowStockThreshold: Math.max(0, Math.floor(Number(formData.lowStockThreshold) || 0)),
         ingredients: formData.ingredients.split(',').map((ing: string) => ing.trim()).filter((ing: string) => ing),
         takeawayPrice: formData.takeawayPrice || formData.price
       };
@@ -1116,61 +1847,121 @@ const MenuItemModal: React.FC<MenuItemModalProps> = ({
               />
             </div>
 
-            {/* Takeaway Options */}
+            {/* Stock */}
             <div className="md:col-span-2">
               <label className="block text-sm font-semibold text-gray-900 mb-3">
-                Takeaway Options
+                Stock
               </label>
               <div className="space-y-4 p-4 bg-gray-50 rounded-xl border border-gray-200">
                 <label className="flex items-center space-x-3 p-3 bg-white rounded-lg border border-gray-200 hover:bg-gray-50 transition-colors duration-200 cursor-pointer">
                   <input
                     type="checkbox"
-                    checked={formData.isTakeawayAvailable}
-                    onChange={(e) => handleChange('isTakeawayAvailable', e.target.checked)}
+                    checked={formData.trackStock}
+                    onChange={(e) => handleChange('trackStock', e.target.checked)}
                     className="rounded border-gray-300 text-green-500 focus:ring-green-500 w-4 h-4"
                     disabled={uploading}
                   />
-                  <i className="ri-takeaway-line text-orange-500 text-lg"></i>
-                  <span className="text-sm text-gray-700 font-medium">Available for Takeaway</span>
+                  <i className="ri-archive-line text-purple-500 text-lg"></i>
+                  <span className="text-sm text-gray-700 font-medium">Track stock for this item</span>
                 </label>
 
-                {formData.isTakeawayAvailable && (
+                {formData.trackStock && (
                   <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
                     <div>
                       <label className="block text-sm font-semibold text-gray-900 mb-2">
-                        Takeaway Price (CFA)
+                        In Stock
                       </label>
                       <input
                         type="number"
                         min="0"
-                        step="50"
-                        value={formData.takeawayPrice}
-                        onChange={(e) => handleChange('takeawayPrice', Number(e.target.value))}
-                        className="w-full px-4 py-3 border border-gray-300 rounded-xl focus:ring-3 focus:ring-orange-500/20 focus:border-orange-500 text-sm sm:text-base transition-all duration-200"
-                        placeholder="Same as dine-in price"
+                        step="1"
+                        value={formData.stockQuantity}
+                        onChange={(e) => handleChange('stockQuantity', Number(e.target.value))}
+                        className="w-full px-4 py-3 border border-gray-300 rounded-xl focus:ring-3 focus:ring-purple-500/20 focus:border-purple-500 text-sm sm:text-base transition-all duration-200"
                         disabled={uploading}
                       />
                       <p className="text-xs text-gray-500 mt-1">
-                        Leave empty to use regular price
+                        Goes down as orders are accepted; the item shows as sold out at 0
                       </p>
                     </div>
 
                     <div>
                       <label className="block text-sm font-semibold text-gray-900 mb-2">
-                        Packaging Fee (CFA)
+                        Low Stock Warning At
                       </label>
                       <input
                         type="number"
                         min="0"
-                        step="50"
-                        value={formData.packagingFee}
-                        onChange={(e) => handleChange('packagingFee', Number(e.target.value))}
-                        className="w-full px-4 py-3 border border-gray-300 rounded-xl focus:ring-3 focus:ring-orange-500/20 focus:border-orange-500 text-sm sm:text-base transition-all duration-200"
-                        placeholder="0"
+                        step="1"
+                        value={formData.lowStockThreshold}
+                        onChange={(e) => handleChange('lowStockThreshold', Number(e.target.value))}
+                        className="w-full px-4 py-3 border border-gray-300 rounded-xl focus:ring-3 focus:ring-purple-500/20 focus:border-purple-500 text-sm sm:text-base transition-all duration-200"
                         disabled={uploading}
                       />
                       <p className="text-xs text-gray-500 mt-1">
-                        Additional fee for takeaway packaging
+                        Shown on the dashboard once stock drops to this
+                      </p>
+                    </div>
+                  </div>
+                )}
+              </div>
+            </div>
+
+            {/* Takeaway Options */}
+            <div className="md:col-span-2">
+              <label className="block text-sm font-semibold text-gray-900 mb-3">
+                Takeaway Options
+              </label>
+              <div className="space-y-4 p-4 bg-gray-50 rounded-xl border border-gray-200">
+                <label className="flex items-center space-x-3 p-3 bg-white rounded-lg border border-gray-200 hover:bg-gray-50 transition-colors duration-200 cursor-pointer">
+                  <input
+                    type="checkbox"
+                    checked={formData.isTakeawayAvailable}
+                    onChange={(e) => handleChange('isTakeawayAvailable', e.target.checked)}
+                    className="rounded border-gray-300 text-green-500 focus:ring-green-500 w-4 h-4"
+                    disabled={uploading}
+                  />
+                  <i className="ri-takeaway-line text-orange-500 text-lg"></i>
+                  <span className="text-sm text-gray-700 font-medium">Available for Takeaway</span>
+                </label>
+
+                {formData.isTakeawayAvailable && (
+                  <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                    <div>
+                      <label className="block text-sm font-semibold text-gray-900 mb-2">
+                        Takeaway Price (CFA)
+                      </label>
+                      <input
+                        type="number"
+                        min="0"
+                        step="50"
+                        value={formData.takeawayPrice}
+                        onChange={(e) => handleChange('takeawayPrice', Number(e.target.value))}
+                        className="w-full px-4 py-3 border border-gray-300 rounded-xl focus:ring-3 focus:ring-orange-500/20 focus:border-orange-500 text-sm sm:text-base transition-all duration-200"
+                        placeholder="Same as dine-in price"
+                        disabled={uploading}
+                      />
+                      <p className="text-xs text-gray-500 mt-1">
+                        Leave empty to use regular price
+                      </p>
+                    </div>
+
+                    <div>
+                      <label className="block text-sm font-semibold text-gray-900 mb-2">
+                        Packaging Fee (CFA)
+                      </label>
+                      <input
+                        type="number"
+                        min="0"
+                        step="50"
+                        value={formData.packagingFee}
+                        onChange={(e) => handleChange('packagingFee', Number(e.target.value))}
+                        className="w-full px-4 py-3 border border-gray-300 rounded-xl focus:ring-3 focus:ring-orange-500/20 focus:border-orange-500 text-sm sm:text-base transition-all duration-200"
+                        placeholder="0"
+                        disabled={uploading}
+                      />
+                      <p className="text-xs text-gray-500 mt-1">
+                        Additional fee for takeaway packaging
                       </p>
                     </div>
                   </div>
@@ -1192,6 +1983,21 @@ const MenuItemModal: React.FC<MenuItemModalProps> = ({
               </div>
             </div>
 
+            {/* Option Groups */}
+            <div className="md:col-span-2">
+              <label className="block text-sm font-semibold text-gray-900 mb-1">
+                Options (Optional)
+              </label>
+              <p className="text-xs text-gray-500 mb-3">
+                Sizes, extras or sauces customers pick before adding the item. Prices are added to the item price.
+              </p>
+              <ModifierGroupsEditor
+                groups={formData.modifierGroups}
+                onChange={(groups) => handleChange('modifierGroups', groups)}
+                disabled={uploading}
+              />
+            </div>
+
             {/* Nutrition Information */}
             <div className="md:col-span-2">
               <label className="block text-sm font-semibold text-gray-900 mb-3">
@@ -1304,6 +2110,44 @@ const MenuItemModal: React.FC<MenuItemModalProps> = ({
                 </label>
               </div>
             </div>
+
+            {/* Allergens */}
+            <div className="md:col-span-2">
+              <label className="block text-sm font-semibold text-gray-900 mb-1">
+                Allergens
+              </label>
+              <p className="text-xs text-gray-500 mb-3">
+                Tick everything this dish contains. Customers filtering out an allergen won't see it.
+              </p>
+              <div className="grid grid-cols-2 sm:grid-cols-5 gap-2">
+                {ALLERGENS.map(allergen => {
+                  const checked = formData.allergens.includes(allergen.id);
+                  return (
+                    <label
+                      key={allergen.id}
+                      className={`flex items-center space-x-2 p-2.5 border rounded-xl transition-colors duration-200 cursor-pointer ${
+                        checked ? 'border-amber-300 bg-amber-50' : 'border-gray-200 hover:bg-gray-50'
+                      }`}
+                    >
+                      <input
+                        type="checkbox"
+                        checked={checked}
+                        onChange={() => handleChange(
+                          'allergens',
+                          checked
+                            ? formData.allergens.filter(entry => entry !== allergen.id)
+                            : [...formData.allergens, allergen.id]
+                        )}
+                        className="rounded border-gray-300 text-amber-500 focus:ring-amber-500 w-4 h-4"
+                        disabled={uploading}
+                      />
+                      <i className={`${allergen.icon} text-amber-600`}></i>
+                      <span className="text-sm text-gray-700 font-medium">{allergen.label}</span>
+                    </label>
+                  );
+                })}
+              </div>
+            </div>
           </div>
 
           {/* Actions */}
@@ -1340,11 +2184,162 @@ const MenuItemModal: React.FC<MenuItemModalProps> = ({
   );
 };
 
+// Option Groups Editor Component
+interface ModifierGroupsEditorProps {
+  groups: ModifierGroup[];
+  onChange: (groups: ModifierGroup[]) => void;
+  disabled?: boolean;
+}
+
+const ModifierGroupsEditor: React.FC<ModifierGroupsEditorProps> = ({ groups, onChange, disabled }) => {
+  const updateGroup = (index: number, changes: Partial<ModifierGroup>) => {
+    onChange(groups.map((group, i) => i === index ? { ...group, ...changes } : group));
+  };
+
+  const addGroup = () => {
+    onChange([...groups, { name: '', required: false, minSelections: 0, maxSelections: 1, options: [{ name: '', priceDelta: 0 }] }]);
+  };
+
+  const removeGroup = (index: number) => {
+    onChange(groups.filter((_, i) => i !== index));
+  };
+
+  const updateOption = (groupIndex: number, optionIndex: number, changes: Partial<ModifierGroup['options'][number]>) => {
+    const group = groups[groupIndex];
+    updateGroup(groupIndex, {
+      options: group.options.map((option, i) => i === optionIndex ? { ...option, ...changes } : option)
+    });
+  };
+
+  return (
+    <div className="space-y-3">
+      {groups.map((group, groupIndex) => (
+        <div key={groupIndex} className="p-4 bg-gray-50 rounded-xl border border-gray-200 space-y-3">
+          <div className="flex items-center gap-2">
+            <input
+              type="text"
+              value={group.name}
+              onChange={(e) => updateGroup(groupIndex, { name: e.target.value })}
+              className="flex-1 px-3 py-2 border border-gray-300 rounded-lg focus:ring-3 focus:ring-green-500/20 focus:border-green-500 text-sm font-semibold"
+              placeholder="Group name, e.g. Size"
+              disabled={disabled}
+            />
+            <button
+              type="button"
+              onClick={() => removeGroup(groupIndex)}
+              className="p-2 text-red-500 hover:bg-red-50 rounded-lg transition-colors"
+              disabled={disabled}
+              title="Remove group"
+            >
+              <i className="ri-delete-bin-line"></i>
+            </button>
+          </div>
+
+          <div className="flex flex-wrap items-center gap-4 text-sm">
+            <label className="flex items-center gap-2 cursor-pointer">
+              <input
+                type="checkbox"
+                checked={group.required}
+                onChange={(e) => updateGroup(groupIndex, { required: e.target.checked })}
+                className="rounded border-gray-300 text-green-500 focus:ring-green-500 w-4 h-4"
+                disabled={disabled}
+              />
+              <span className="text-gray-700 font-medium">Required</span>
+            </label>
+            <label className="flex items-center gap-2">
+              <span className="text-gray-600">Min</span>
+              <input
+                type="number"
+                min="0"
+                value={group.minSelections}
+                onChange={(e) => updateGroup(groupIndex, { minSelections: Math.max(0, Number(e.target.value)) })}
+                className="w-16 px-2 py-1 border border-gray-300 rounded-lg text-sm"
+                disabled={disabled}
+              />
+            </label>
+            <label className="flex items-center gap-2">
+              <span className="text-gray-600">Max</span>
+              <input
+                type="number"
+                min="0"
+                value={group.maxSelections}
+                onChange={(e) => updateGroup(groupIndex, { maxSelections: Math.max(0, Number(e.target.value)) })}
+                className="w-16 px-2 py-1 border border-gray-300 rounded-lg text-sm"
+                disabled={disabled}
+              />
+            </label>
+            <span className="text-xs text-gray-400">Max 0 = no limit</span>
+          </div>
+
+          <div className="space-y-2">
+            {group.options.map((option, optionIndex) => (
+              <div key={optionIndex} className="flex items-center gap-2">
+                <input
+                  type="text"
+                  value={option.name}
+                  onChange={(e) => updateOption(groupIndex, optionIndex, { name: e.target.value })}
+                  className="flex-1 px-3 py-2 border border-gray-300 rounded-lg focus:ring-3 focus:ring-green-500/20 focus:border-green-500 text-sm bg-white"
+                  placeholder="Option, e.g. Large"
+                  disabled={disabled}
+                />
+                <div className="relative w-32">
+                  <input
+                    type="number"
+                    step="50"
+                    value={option.priceDelta}
+                    onChange={(e) => updateOption(groupIndex, optionIndex, { priceDelta: Number(e.target.value) })}
+                    className="w-full pl-3 pr-12 py-2 border border-gray-300 rounded-lg focus:ring-3 focus:ring-green-500/20 focus:border-green-500 text-sm bg-white"
+                    disabled={disabled}
+                  />
+                  <span className="absolute right-3 top-1/2 -translate-y-1/2 text-xs text-gray-400">+CFA</span>
+                </div>
+                <button
+                  type="button"
+                  onClick={() => updateGroup(groupIndex, { options: group.options.filter((_, i) => i !== optionIndex) })}
+                  className="p-2 text-gray-400 hover:text-red-500 rounded-lg transition-colors"
+                  disabled={disabled || group.options.length === 1}
+                >
+                  <i className="ri-close-line"></i>
+                </button>
+              </div>
+            ))}
+            <button
+              type="button"
+              onClick={() => updateGroup(groupIndex, { options: [...group.options, { name: '', priceDelta: 0 }] })}
+              className="text-sm font-semibold text-green-600 hover:text-green-700 flex items-center gap-1"
+              disabled={disabled}
+            >
+              <i className="ri-add-line"></i>
+              Add option
+            </button>
+          </div>
+        </div>
+      ))}
+
+      <button
+        type="button"
+        onClick={addGroup}
+        className="w-full py-3 border-2 border-dashed border-gray-300 rounded-xl text-sm font-semibold text-gray-600 hover:border-green-500 hover:text-green-600 transition-colors flex items-center justify-center gap-2"
+        disabled={disabled}
+      >
+        <i className="ri-add-circle-line"></i>
+        Add Option Group
+      </button>
+    </div>
+  );
+};
+
 // Category Management Modal Component
 interface CategoryManagementModalProps {
   predefinedCategories: Category[];
   userCategories: Category[];
-  onDeleteCategory: (categoryId: string) => void;
+  // Every category, in menu order
+  sortedCategories: Category[];
+  onReorderCategories: (ids: string[]) => void;
+  categoryItemCounts: Record<string, number>;
+  onUpdateCategory: (categoryId: string, changes: UpdateCategoryData) => Promise<void>;
+  // Items are moved to moveItemsTo first when it is given
+  onDeleteCategory: (categoryId: string, moveItemsTo?: string) => Promise<void>;
   deletingCategoryId: string | null;
   onClose: () => void;
   onCreateCategory: (categoryName: string) => Promise<any>;
@@ -1353,12 +2348,17 @@ interface CategoryManagementModalProps {
 const CategoryManagementModal: React.FC<CategoryManagementModalProps> = ({
   predefinedCategories,
   userCategories,
+  sortedCategories,
+  onReorderCategories,
+  categoryItemCounts,
+  onUpdateCategory,
   onDeleteCategory,
   deletingCategoryId,
   onClose,
   onCreateCategory
 }) => {
   const [showAddCategory, setShowAddCategory] = useState(false);
+  const categoryReorder = useDragReorder(sortedCategories.map(category => category.id), onReorderCategories);
   const [newCategoryName, setNewCategoryName] = useState('');
   const [creatingCategory, setCreatingCategory] = useState(false);
 
@@ -1456,6 +2456,50 @@ const CategoryManagementModal: React.FC<CategoryManagementModalProps> = ({
             </div>
           </div>
 
+          {/* Menu Order Section */}
+          {sortedCategories.length > 1 && (
+            <div>
+              <h3 className="text-lg font-semibold text-gray-900 mb-4 flex items-center">
+                <i className="ri-sort-asc text-purple-500 mr-2"></i>
+                Menu Order
+              </h3>
+              <p className="text-gray-600 text-sm mb-4">
+                Drag categories into the order customers see them in on your menu.
+              </p>
+              <div className="space-y-2">
+                {categoryReorder.orderedIds.map((id, index) => {
+                  const category = sortedCategories.find(entry => entry.id === id);
+                  if (!category) return null;
+                  return (
+                    <div
+                      key={id}
+                      {...categoryReorder.getItemProps(id)}
+                      className={`flex items-center gap-3 p-3 bg-white rounded-xl border transition-all duration-200 ${
+                        categoryReorder.draggingId === id ? 'border-purple-300 shadow-md opacity-70' : 'border-gray-200'
+                      }`}
+                    >
+                      <span
+                        {...categoryReorder.getHandleProps(id)}
+                        className="p-1 text-gray-400 hover:text-gray-600 touch-none select-none cursor-grab active:cursor-grabbing"
+                        title="Drag to reorder"
+                      >
+                        <i className="ri-draggable text-lg"></i>
+                      </span>
+                      <span className="text-sm text-gray-400 w-6">{index + 1}</span>
+                      <span className="flex-1 font-medium text-gray-900">{category.name}</span>
+                      {category.isHidden && (
+                        <i className="ri-eye-off-line text-gray-400" title="Hidden from customers"></i>
+                      )}
+                      {category.isPredefined && (
+                        <span className="text-xs bg-blue-100 text-blue-800 px-2 py-1 rounded-full font-medium">System</span>
+                      )}
+                    </div>
+                  );
+                })}
+              </div>
+            </div>
+          )}
+
           {/* Predefined Categories Section */}
           {predefinedCategories.length > 0 && (
             <div>
@@ -1492,7 +2536,7 @@ const CategoryManagementModal: React.FC<CategoryManagementModalProps> = ({
               Your Categories
             </h3>
             <p className="text-gray-600 text-sm mb-4">
-              Categories you created can be edited or deleted.
+              Categories you created can be renamed, hidden from customers, merged or deleted.
             </p>
             
             {userCategories.length === 0 ? (
@@ -1504,32 +2548,15 @@ const CategoryManagementModal: React.FC<CategoryManagementModalProps> = ({
             ) : (
               <div className="grid grid-cols-1 md:grid-cols-2 gap-3">
                 {userCategories.map(category => (
-                  <div key={category.id} className="flex items-center justify-between p-4 bg-white rounded-xl border border-gray-200 hover:border-gray-300 transition-all duration-200 hover:shadow-sm">
-                    <div className="flex-1">
-                      <span className="font-medium text-gray-900 block">{category.name}</span>
-                      {category.description && (
-                        <p className="text-sm text-gray-600 mt-1">{category.description}</p>
-                      )}
-                    </div>
-                    <div className="flex items-center space-x-2">
-                      <span className="text-xs bg-green-100 text-green-800 px-3 py-1.5 rounded-full font-medium">
-                        <i className="ri-user-line mr-1"></i>
-                        Custom
-                      </span>
-                      <button
-                        onClick={() => onDeleteCategory(category.id)}
-                        disabled={deletingCategoryId === category.id}
-                        className="text-red-600 hover:text-red-700 p-2 rounded-lg hover:bg-red-50 transition-all duration-200 disabled:opacity-50 disabled:cursor-not-allowed"
-                        title="Delete category"
-                      >
-                        {deletingCategoryId === category.id ? (
-                          <i className="ri-loader-4-line animate-spin"></i>
-                        ) : (
-                          <i className="ri-delete-bin-line"></i>
-                        )}
-                      </button>
-                    </div>
-                  </div>
+                  <UserCategoryCard
+                    key={category.id}
+                    category={category}
+                    itemCount={categoryItemCounts[category.id] || 0}
+                    otherCategories={sortedCategories.filter(entry => entry.id !== category.id)}
+                    deleting={deletingCategoryId === category.id}
+                    onUpdate={onUpdateCategory}
+                    onDelete={onDeleteCategory}
+                  />
                 ))}
               </div>
             )}
@@ -1572,4 +2599,623 @@ const CategoryManagementModal: React.FC<CategoryManagementModalProps> = ({
   );
 };
 
-export default MenuManagement;
\ No newline at end of file
+// User Category Card Component
+interface UserCategoryCardProps {
+  category: Category;
+  itemCount: number;
+  // Where items can go when merging or deleting
+  otherCategories: Category[];
+  deleting: boolean;
+  onUpdate: (categoryId: string, changes: UpdateCategoryData) => Promise<void>;
+  onDelete: (categoryId: string, moveItemsTo?: string) => Promise<void>;
+}
+
+const UserCategoryCard: React.FC<UserCategoryCardProps> = ({
+  category,
+  itemCount,
+  otherCategories,
+  deleting,
+  onUpdate,
+  onDelete
+}) => {
+  // merge and delete both move the items somewhere else; they differ in how they're offered
+  const [mode, setMode] = useState<'view' | 'edit' | 'merge' | 'delete'>('view');
+  const [name, setName] = useState(category.name);
+  const [description, setDescription] = useState(category.description || '');
+  const [targetId, setTargetId] = useState('');
+  const [saving, setSaving] = useState(false);
+  const busy = saving || deleting;
+  const itemLabel = `${itemCount} item${itemCount !== 1 ? 's' : ''}`;
+
+  const startEdit = () => {
+    setName(category.name);
+    setDescription(category.description || '');
+    setMode('edit');
+  };
+
+  const handleSave = async () => {
+    if (!name.trim()) {
+      alert('Please enter a category name');
+      return;
+    }
+    try {
+      setSaving(true);
+      await onUpdate(category.id, { name: name.trim(), description: description.trim() });
+      setMode('view');
+    } catch {
+      // Error handling is done in the parent component
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleToggleHidden = async () => {
+    try {
+      setSaving(true);
+      await onUpdate(category.id, { isHidden: !category.isHidden });
+    } catch {
+      // Error handling is done in the parent component
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleDelete = () => {
+    if (itemCount > 0) {
+      setTargetId('');
+      setMode('delete');
+      return;
+    }
+    onDelete(category.id);
+  };
+
+  const handleMoveAndDelete = () => {
+    const target = otherCategories.find(entry => entry.id === targetId);
+    if (!target) {
+      alert('Please choose where the items should go');
+      return;
+    }
+    const message = mode === 'merge'
+      ? `Merge ${category.name} into ${target.name}? Its ${itemLabel} will move to ${target.name} and ${category.name} will be deleted.`
+      : `Move ${itemLabel} to ${target.name} and delete ${category.name}?`;
+    if (!confirm(message)) return;
+    onDelete(category.id, target.id);
+  };
+
+  const iconButtonClass = 'p-2 rounded-lg transition-all duration-200 disabled:opacity-50 disabled:cursor-not-allowed';
+
+  return (
+    <div className={`p-4 bg-white rounded-xl border transition-all duration-200 hover:shadow-sm ${
+      category.isHidden ? 'border-dashed border-gray-300' : 'border-gray-200 hover:border-gray-300'
+    }`}>
+      {mode === 'edit' ? (
+        <div className="space-y-2">
+          <input
+            type="text"
+            value={name}
+            onChange={(e) => setName(e.target.value)}
+            placeholder="Category name"
+            className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-green-500/20 focus:border-green-500 text-sm"
+            disabled={saving}
+          />
+          <textarea
+            value={description}
+            onChange={(e) => setDescription(e.target.value)}
+            placeholder="Description (optional)"
+            rows={2}
+            className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-green-500/20 focus:border-green-500 text-sm resize-none"
+            disabled={saving}
+          />
+          <div className="flex justify-end gap-2">
+            <button
+              onClick={() => setMode('view')}
+              className="px-3 py-1.5 text-sm text-gray-700 font-medium hover:bg-gray-100 rounded-lg"
+              disabled={saving}
+            >
+              Cancel
+            </button>
+            <button
+              onClick={handleSave}
+              className="px-3 py-1.5 text-sm bg-green-500 text-white font-semibold rounded-lg hover:bg-green-600 flex items-center gap-1 disabled:opacity-50"
+              disabled={saving || !name.trim()}
+            >
+              <i className={saving ? 'ri-loader-4-line animate-spin' : 'ri-check-line'}></i>
+              Save
+            </button>
+          </div>
+        </div>
+      ) : (
+        <div className="flex items-center justify-between">
+          <div className="flex-1 min-w-0">
+            <span className={`font-medium block ${category.isHidden ? 'text-gray-500' : 'text-gray-900'}`}>{category.name}</span>
+            {category.description && (
+              <p className="text-sm text-gray-600 mt-1">{category.description}</p>
+            )}
+            <p className="text-xs text-gray-500 mt-1">
+              {itemLabel}
+              {category.isHidden && (
+                <span className="ml-2 text-gray-600">
+                  <i className="ri-eye-off-line mr-0.5"></i>
+                  Hidden from customers
+                </span>
+              )}
+            </p>
+          </div>
+          <div className="flex items-center">
+            <button
+              onClick={startEdit}
+              disabled={busy}
+              className={`${iconButtonClass} text-gray-600 hover:text-green-600 hover:bg-green-50`}
+              title="Edit name and description"
+            >
+              <i className="ri-edit-line"></i>
+            </button>
+            <button
+              onClick={handleToggleHidden}
+              disabled={busy}
+              className={`${iconButtonClass} text-gray-600 hover:text-blue-600 hover:bg-blue-50`}
+              title={category.isHidden ? 'Show on the customer menu' : 'Hide from the customer menu'}
+            >
+              <i className={category.isHidden ? 'ri-eye-line' : 'ri-eye-off-line'}></i>
+            </button>
+            <button
+              onClick={() => {
+                setTargetId('');
+                setMode('merge');
+              }}
+              disabled={busy || otherCategories.length === 0}
+              className={`${iconButtonClass} text-gray-600 hover:text-purple-600 hover:bg-purple-50`}
+              title="Merge into another category"
+            >
+              <i className="ri-git-merge-line"></i>
+            </button>
+            <button
+              onClick={handleDelete}
+              disabled={busy}
+              className={`${iconButtonClass} text-red-600 hover:text-red-700 hover:bg-red-50`}
+              title="Delete category"
+            >
+              {deleting ? (
+                <i className="ri-loader-4-line animate-spin"></i>
+              ) : (
+                <i className="ri-delete-bin-line"></i>
+              )}
+            </button>
+          </div>
+        </div>
+      )}
+
+      {(mode === 'merge' || mode === 'delete') && (
+        <div className={`mt-3 p-3 rounded-lg border text-sm ${
+          mode === 'merge' ? 'bg-purple-50 border-purple-200' : 'bg-amber-50 border-amber-200'
+        }`}>
+          <p className={mode === 'merge' ? 'text-purple-800' : 'text-amber-800'}>
+            {mode === 'merge'
+              ? `Move ${itemLabel} into another category and remove ${category.name}.`
+              : `${category.name} still has ${itemLabel}. Choose where they should go before it is deleted.`}
+          </p>
+          <div className="flex flex-col sm:flex-row gap-2 mt-2">
+            <select
+              value={targetId}
+              onChange={(e) => setTargetId(e.target.value)}
+              className="flex-1 px-3 py-2 border border-gray-300 rounded-lg bg-white"
+              disabled={deleting}
+            >
+              <option value="">Move items to...</option>
+              {otherCategories.map(entry => (
+                <option key={entry.id} value={entry.id}>{entry.name}</option>
+              ))}
+            </select>
+            <div className="flex gap-2">
+              <button
+                onClick={() => setMode('view')}
+                className="px-3 py-2 text-gray-700 font-medium hover:bg-white rounded-lg"
+                disabled={deleting}
+              >
+                Cancel
+              </button>
+              <button
+                onClick={handleMoveAndDelete}
+                className={`px-3 py-2 text-white font-semibold rounded-lg flex items-center gap-1 disabled:opacity-50 ${
+                  mode === 'merge' ? 'bg-purple-500 hover:bg-purple-600' : 'bg-red-500 hover:bg-red-600'
+                }`}
+                disabled={deleting || !targetId}
+              >
+                <i className={deleting ? 'ri-loader-4-line animate-spin' : mode === 'merge' ? 'ri-git-merge-line' : 'ri-delete-bin-line'}></i>
+                {mode === 'merge' ? 'Merge' : 'Move & Delete'}
+              </button>
+            </div>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
+
+// Menu Schedules Modal Component
+interface MenuSchedulesModalProps {
+  schedules: MenuSchedule[];
+  categories: Category[];
+  onSave: (schedules: MenuSchedule[]) => Promise<void>;
+  onClose: () => void;
+}
+
+const MenuSchedulesModal: React.FC<MenuSchedulesModalProps> = ({ schedules, categories, onSave, onClose }) => {
+  const [draft, setDraft] = useState<MenuSchedule[]>(schedules);
+  const [saving, setSaving] = useState(false);
+  const now = new Date();
+
+  const updateSchedule = (index: number, changes: Partial<MenuSchedule>) => {
+    setDraft(prev => prev.map((schedule, i) => (i === index ? { ...schedule, ...changes } : schedule)));
+  };
+
+  const addSchedule = () => {
+    setDraft(prev => [...prev, {
+      id: `schedule-${Date.now().toString(36)}`,
+      name: '',
+      categoryIds: [],
+      days: [],
+      start: '07:00',
+      end: '11:00',
+      outsideWindow: 'hide'
+    }]);
+  };
+
+  const toggle = <T,>(list: T[], value: T) =>
+    list.includes(value) ? list.filter(entry => entry !== value) : [...list, value];
+
+  const handleSave = async () => {
+    const schedulesToSave = draft.map(schedule => ({ ...schedule, name: schedule.name.trim() }));
+    for (const schedule of schedulesToSave) {
+      const error = validateSchedule(schedule);
+      if (error) {
+        alert(error);
+        return;
+      }
+    }
+
+    try {
+      setSaving(true);
+      await onSave(schedulesToSave);
+      onClose();
+    } catch {
+      // Error handling is done in the parent component
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center p-2 sm:p-4 z-50">
+      <div className="bg-white rounded-2xl w-full max-w-3xl max-h-[90vh] overflow-y-auto">
+        <div className="p-4 sm:p-6 border-b border-gray-200 sticky top-0 bg-white z-10">
+          <div className="flex items-center justify-between">
+            <div>
+              <h2 className="text-xl sm:text-2xl font-bold text-gray-900">Menu Schedules</h2>
+              <p className="text-gray-600 text-sm mt-1">
+                Serve categories only at certain times, like breakfast or happy hour. Unscheduled categories are always served.
+              </p>
+            </div>
+            <button
+              onClick={onClose}
+              className="p-2 hover:bg-gray-100 rounded-lg transition-colors"
+            >
+              <i className="ri-close-line text-xl"></i>
+            </button>
+          </div>
+        </div>
+
+        <div className="p-4 sm:p-6 space-y-4">
+          {draft.length === 0 && (
+            <div className="text-center py-8 bg-gray-50 rounded-xl border-2 border-dashed border-gray-300">
+              <i className="ri-calendar-schedule-line text-4xl text-gray-400 mb-3"></i>
+              <p className="text-gray-600 font-medium">No menu schedules yet</p>
+              <p className="text-gray-500 text-sm mt-1">Your whole menu is served whenever you're open</p>
+            </div>
+          )}
+
+          {draft.map((schedule, index) => {
+            const status = getScheduleStatus(schedule, now);
+            return (
+              <div key={schedule.id} className="p-4 border border-gray-200 rounded-2xl space-y-4">
+                <div className="flex items-start gap-3">
+                  <div className="flex-1">
+                    <input
+                      type="text"
+                      value={schedule.name}
+                      onChange={(e) => updateSchedule(index, { name: e.target.value })}
+                      placeholder="e.g. Breakfast"
+                      className="w-full px-4 py-2.5 border border-gray-300 rounded-xl focus:ring-2 focus:ring-green-500/20 focus:border-green-500 text-sm font-semibold"
+                      disabled={saving}
+                    />
+                    <p className={`text-xs mt-1.5 ${status.isOpen ? 'text-green-600' : 'text-gray-500'}`}>
+                      {describeSchedule(schedule)}
+                      {status.isOpen
+                        ? ' · Serving now'
+                        : status.opensAt && ` · Next from ${formatUpcomingTime(status.opensAt, now)}`}
+                    </p>
+                  </div>
+                  <button
+                    onClick={() => setDraft(prev => prev.filter((_, i) => i !== index))}
+                    className="text-red-600 hover:text-red-700 p-2 rounded-lg hover:bg-red-50 transition-all duration-200"
+                    title="Remove schedule"
+                    disabled={saving}
+                  >
+                    <i className="ri-delete-bin-line"></i>
+                  </button>
+                </div>
+
+                <div className="grid grid-cols-1 sm:grid-cols-3 gap-3">
+                  <label className="block">
+                    <span className="block text-xs font-semibold text-gray-700 mb-1">From</span>
+                    <input
+                      type="time"
+                      value={schedule.start}
+                      onChange={(e) => updateSchedule(index, { start: e.target.value })}
+                      className="w-full px-3 py-2 border border-gray-300 rounded-lg text-sm focus:ring-2 focus:ring-green-500/20 focus:border-green-500"
+                      disabled={saving}
+                    />
+                  </label>
+                  <label className="block">
+                    <span className="block text-xs font-semibold text-gray-700 mb-1">Until</span>
+                    <input
+                      type="time"
+                      value={schedule.end}
+                      onChange={(e) => updateSchedule(index, { end: e.target.value })}
+                      className="w-full px-3 py-2 border border-gray-300 rounded-lg text-sm focus:ring-2 focus:ring-green-500/20 focus:border-green-500"
+                      disabled={saving}
+                    />
+                  </label>
+                  <label className="block">
+                    <span className="block text-xs font-semibold text-gray-700 mb-1">Outside these hours</span>
+                    <select
+                      value={schedule.outsideWindow}
+                      onChange={(e) => updateSchedule(index, { outsideWindow: e.target.value as MenuSchedule['outsideWindow'] })}
+                      className="w-full px-3 py-2 border border-gray-300 rounded-lg text-sm focus:ring-2 focus:ring-green-500/20 focus:border-green-500"
+                      disabled={saving}
+                    >
+                      <option value="hide">Hide from the menu</option>
+                      <option value="show">Show, but can't be ordered</option>
+                    </select>
+                  </label>
+                </div>
+
+                <div>
+                  <span className="block text-xs font-semibold text-gray-700 mb-2">
+                    Days <span className="font-normal text-gray-500">(none picked means every day)</span>
+                  </span>
+                  <div className="flex flex-wrap gap-2">
+                    {WEEKDAYS.map(day => (
+                      <button
+                        key={day.id}
+                        type="button"
+                        onClick={() => updateSchedule(index, { days: toggle(schedule.days, day.id) })}
+                        className={`px-3 py-1.5 rounded-full text-xs font-medium border transition-colors ${
+                          schedule.days.includes(day.id)
+                            ? 'bg-green-500 text-white border-green-500'
+                            : 'bg-white text-gray-600 border-gray-200 hover:bg-gray-50'
+                        }`}
+                        disabled={saving}
+                      >
+                        {day.short}
+                      </button>
+                    ))}
+                  </div>
+                </div>
+
+                <div>
+                  <span className="block text-xs font-semibold text-gray-700 mb-2">Categories on this menu</span>
+                  <div className="grid grid-cols-2 sm:grid-cols-3 gap-2">
+                    {categories.map(category => (
+                      <label
+                        key={category.id}
+                        className="flex items-center space-x-2 p-2 border border-gray-200 rounded-lg hover:bg-gray-50 cursor-pointer text-sm"
+                      >
+                        <input
+                          type="checkbox"
+                          checked={schedule.categoryIds.includes(category.id)}
+                          onChange={() => updateSchedule(index, { categoryIds: toggle(schedule.categoryIds, category.id) })}
+                          className="rounded border-gray-300 text-green-500 focus:ring-green-500 w-4 h-4"
+                          disabled={saving}
+                        />
+                        <span className="text-gray-700 truncate">{category.name}</span>
+                      </label>
+                    ))}
+                  </div>
+                </div>
+              </div>
+            );
+          })}
+
+          <button
+            onClick={addSchedule}
+            className="w-full py-3 border-2 border-dashed border-green-300 text-green-700 rounded-xl font-semibold hover:bg-green-50 transition-colors flex items-center justify-center gap-2"
+            disabled={saving}
+          >
+            <i className="ri-add-line"></i>
+            Add Schedule
+          </button>
+
+          <div className="flex flex-col-reverse sm:flex-row items-center justify-end gap-3 pt-4 border-t border-gray-200">
+            <button
+              onClick={onClose}
+              className="w-full sm:w-auto px-6 py-3 text-gray-700 font-semibold hover:bg-gray-100 rounded-xl transition-all duration-200 border border-gray-300"
+              disabled={saving}
+            >
+              Cancel
+            </button>
+            <button
+              onClick={handleSave}
+              className="w-full sm:w-auto bg-green-500 text-white px-6 py-3 rounded-xl font-semibold hover:bg-green-600 transition-all duration-200 flex items-center justify-center gap-2 shadow-lg shadow-green-500/25 disabled:opacity-50"
+              disabled={saving}
+            >
+              {saving ? <i className="ri-loader-4-line animate-spin"></i> : <i className="ri-save-line"></i>}
+              {saving ? 'Saving...' : 'Save Schedules'}
+            </button>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+// Ingredient Stock Modal Component
+interface IngredientStockModalProps {
+  ingredients: IngredientStock[];
+  menuItems: MenuItem[];
+  onSave: (ingredients: IngredientStock[]) => Promise<void>;
+  onClose: () => void;
+}
+
+interface IngredientRow {
+  name: string;
+  tracked: boolean;
+  quantity: number;
+  lowStockThreshold: number;
+  usedBy: number;
+}
+
+const IngredientStockModal: React.FC<IngredientStockModalProps> = ({ ingredients, menuItems, onSave, onClose }) => {
+  // Every ingredient named on a menu item, plus tracked ones no item lists any more
+  const [rows, setRows] = useState<IngredientRow[]>(() => {
+    const names: string[] = [];
+    [...menuItems.flatMap(item => item.ingredients || []), ...ingredients.map(ingredient => ingredient.name)].forEach(name => {
+      const trimmed = name.trim();
+      if (trimmed && !names.some(existing => existing.toLowerCase() === trimmed.toLowerCase())) names.push(trimmed);
+    });
+    return names.sort((a, b) => a.localeCompare(b)).map(name => {
+      const stock = findIngredientStock(name, ingredients);
+      return {
+        name: stock?.name || name,
+        tracked: !!stock,
+        quantity: stock?.quantity || 0,
+        lowStockThreshold: stock?.lowStockThreshold ?? DEFAULT_LOW_STOCK_THRESHOLD,
+        usedBy: menuItems.filter(item => (item.ingredients || []).some(entry => entry.trim().toLowerCase() === name.toLowerCase())).length
+      };
+    });
+  });
+  const [saving, setSaving] = useState(false);
+
+  const updateRow = (index: number, changes: Partial<IngredientRow>) => {
+    setRows(prev => prev.map((row, i) => (i === index ? { ...row, ...changes } : row)));
+  };
+
+  const handleSave = async () => {
+    try {
+      setSaving(true);
+      await onSave(rows.filter(row => row.tracked).map(row => ({
+        name: row.name,
+        quantity: Math.max(0, Math.floor(row.quantity || 0)),
+        lowStockThreshold: Math.max(0, Math.floor(row.lowStockThreshold || 0))
+      })));
+      onClose();
+    } catch {
+      // Error handling is done in the parent component
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center p-2 sm:p-4 z-50">
+      <div className="bg-white rounded-2xl w-full max-w-3xl max-h-[90vh] overflow-y-auto">
+        <div className="p-4 sm:p-6 border-b border-gray-200 sticky top-0 bg-white z-10">
+          <div className="flex items-center justify-between">
+            <div>
+              <h2 className="text-xl sm:text-2xl font-bold text-gray-900">Ingredient Stock</h2>
+              <p className="text-gray-600 text-sm mt-1">
+                Track the ingredients you can run out of. Each dish sold uses one of every tracked ingredient it lists, and dishes sell out when one runs out.
+              </p>
+            </div>
+            <button
+              onClick={onClose}
+              className="p-2 hover:bg-gray-100 rounded-lg transition-colors"
+            >
+              <i className="ri-close-line text-xl"></i>
+            </button>
+          </div>
+        </div>
+
+        <div className="p-4 sm:p-6 space-y-4">
+          {rows.length === 0 ? (
+            <div className="text-center py-8 bg-gray-50 rounded-xl border-2 border-dashed border-gray-300">
+              <i className="ri-archive-stack-line text-4xl text-gray-400 mb-3"></i>
+              <p className="text-gray-600 font-medium">No ingredients yet</p>
+              <p className="text-gray-500 text-sm mt-1">Add ingredients to your menu items to track them here</p>
+            </div>
+          ) : (
+            <div className="divide-y divide-gray-100 border border-gray-200 rounded-xl">
+              {rows.map((row, index) => (
+                <div key={row.name} className="flex flex-col sm:flex-row sm:items-center gap-3 p-3">
+                  <label className="flex items-center gap-3 flex-1 min-w-0 cursor-pointer">
+                    <input
+                      type="checkbox"
+                      checked={row.tracked}
+                      onChange={(e) => updateRow(index, { tracked: e.target.checked })}
+                      className="rounded border-gray-300 text-green-500 focus:ring-green-500 w-4 h-4"
+                      disabled={saving}
+                    />
+                    <div className="min-w-0">
+                      <span className="block text-sm font-medium text-gray-900 truncate">{row.name}</span>
+                      <span className="block text-xs text-gray-500">
+                        {row.usedBy > 0 ? `Used in ${row.usedBy} item${row.usedBy > 1 ? 's' : ''}` : 'Not used by any item'}
+                      </span>
+                    </div>
+                  </label>
+                  {row.tracked && (
+                    <div className="flex items-center gap-2">
+                      <label className="text-xs text-gray-600">
+                        In stock
+                        <input
+                          type="number"
+                          min="0"
+                          step="1"
+                          value={row.quantity}
+                          onChange={(e) => updateRow(index, { quantity: Number(e.target.value) })}
+                          className={`ml-2 w-20 px-2 py-1.5 border rounded-lg text-sm ${row.quantity <= 0 ? 'border-red-300 text-red-600' : 'border-gray-300'}`}
+                          disabled={saving}
+                        />
+                      </label>
+                      <label className="text-xs text-gray-600">
+                        Warn at
+                        <input
+                          type="number"
+                          min="0"
+                          step="1"
+                          value={row.lowStockThreshold}
+                          onChange={(e) => updateRow(index, { lowStockThreshold: Number(e.target.value) })}
+                          className="ml-2 w-16 px-2 py-1.5 border border-gray-300 rounded-lg text-sm"
+                          disabled={saving}
+                        />
+                      </label>
+                    </div>
+                  )}
+                </div>
+              ))}
+            </div>
+          )}
+
+          <div className="flex flex-col-reverse sm:flex-row items-center justify-end gap-3 pt-4 border-t border-gray-200">
+            <button
+              onClick={onClose}
+              className="w-full sm:w-auto px-6 py-3 text-gray-700 font-semibold hover:bg-gray-100 rounded-xl transition-all duration-200 border border-gray-300"
+              disabled={saving}
+            >
+              Cancel
+            </button>
+            <button
+              onClick={handleSave}
+              className="w-full sm:w-auto bg-green-500 text-white px-6 py-3 rounded-xl font-semibold hover:bg-green-600 transition-all duration-200 flex items-center justify-center gap-2 shadow-lg shadow-green-500/25 disabled:opacity-50"
+              disabled={saving}
+            >
+              {saving ? <i className="ri-loader-4-line animate-spin"></i> : <i className="ri-save-line"></i>}
+              {saving ? 'Saving...' : 'Save Stock'}
+            </button>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default MenuManagement;
@@ -1,114 +1,30 @@
 import React, { useState, useEffect, useMemo, useCallback, memo, useRef } from 'react';
+import axios from 'axios';
 import { useAuth } from '../contexts/AuthContext';
 import { useToast } from '../contexts/ToastContext';
-import type { Order, OrderStatus } from '../types';
+import { useRealtime, useRealtimeEvent, useRealtimeResync } from '../contexts/RealtimeContext';
+import { orderService, reconcileOrders, getAmountPaid, getRemainingBalance, getPaidItemQuantities, isAwaitingPayment, isTakeawayItem, getItemNote } from '../services/orders';
+import { getApiErrorMessage } from '../services/api';
+import { formatModifiers } from '../services/modifiers';
+import {
+  buildEscPos,
+  buildKitchenTicketHtml,
+  buildReceiptHtml,
+  buildThermalHtml,
+  buildThermalText,
+  downloadEscPos,
+  printHtml
+} from '../services/print';
+import type { PaperWidth, PrintDocument } from '../services/print';
+import type { Order, OrderStatus, PaymentMethod, RecordPaymentData, Restaurant, SplitMode } from '../types';
 
 interface OrderManagementProps {
   selectedOrderId?: string | null;
   autoScroll?: boolean;
 }
 
-// SSE Hook
-const useSSE = (restaurantId: string | undefined, onNewOrder: (order: Order) => void, onOrderUpdate: (order: Order) => void, onOrderPaid: (order: Order) => void) => {
-  const [isConnected, setIsConnected] = useState(false);
-  const eventSourceRef = useRef<EventSource | null>(null);
-  const reconnectTimeout = useRef<number | null>(null);
-  const reconnectAttempts = useRef(0);
-  const maxReconnectAttempts = 5;
-
-  const connectSSE = useCallback(() => {
-    if (!restaurantId) {
-      console.log('❌ No restaurant ID for SSE connection');
-      return;
-    }
-
-    try {
-      console.log(`🔔 Connecting SSE for restaurant: ${restaurantId}`);
-      const eventSource = new EventSource(`http://localhost:5000/api/orders/stream/${restaurantId}`);
-      
-      eventSource.onopen = () => {
-        console.log('✅ SSE connection established');
-        setIsConnected(true);
-        reconnectAttempts.current = 0;
-      };
-
-      eventSource.onmessage = (event) => {
-        try {
-          const data = JSON.parse(event.data);
-          console.log('🔔 SSE message received:', data);
-
-          switch (data.type) {
-            case 'connected':
-              console.log('✅ SSE connection confirmed');
-              break;
-            case 'new_order':
-              console.log('🆕 New order via SSE:', data.order.orderNumber);
-              console.log('📦 Full order data:', data.order);
-              onNewOrder(data.order);
-              break;
-            case 'order_updated':
-              console.log('🔄 Order updated via SSE:', data.order.orderNumber);
-              onOrderUpdate(data.order);
-              break;
-            case 'order_paid':
-              console.log('💳 Order paid via SSE:', data.order.orderNumber);
-              onOrderPaid(data.order);
-              break;
-            default:
-              console.log('📨 Unknown SSE message type:', data.type);
-          }
-        } catch (error) {
-          console.error('❌ Failed to parse SSE message:', error);
-        }
-      };
-
-      eventSource.onerror = (error) => {
-        console.error('❌ SSE error:', error);
-        setIsConnected(false);
-        eventSource.close();
-        
-        // Attempt reconnect after delay
-        if (reconnectAttempts.current < maxReconnectAttempts) {
-          reconnectAttempts.current++;
-          const delay = Math.min(3000 * reconnectAttempts.current, 30000);
-          
-          console.log(`🔄 Attempting SSE reconnect in ${delay}ms... (attempt ${reconnectAttempts.current}/${maxReconnectAttempts})`);
-          
-          reconnectTimeout.current = window.setTimeout(() => {
-            connectSSE();
-          }, delay);
-        } else {
-          console.error('❌ Max SSE reconnection attempts reached');
-        }
-      };
-
-      eventSourceRef.current = eventSource;
-
-    } catch (error) {
-      console.error('❌ Failed to create SSE connection:', error);
-      setIsConnected(false);
-    }
-  }, [restaurantId, onNewOrder, onOrderUpdate, onOrderPaid]);
-
-  useEffect(() => {
-    connectSSE();
-
-    return () => {
-      if (reconnectTimeout.current) {
-        window.clearTimeout(reconnectTimeout.current);
-      }
-      if (eventSourceRef.current) {
-        console.log('🔔 Closing SSE connection');
-        eventSourceRef.current.close();
-      }
-    };
-  }, [connectSSE]);
-
-  return { isConnected };
-};
-
 const OrderManagement: React.FC<OrderManagementProps> = ({ selectedOrderId, autoScroll = false }) => {
-  const { user } = useAuth();
+  const { user, restaurant } = useAuth();
   const { showSuccess, showError } = useToast();
   const [orders, setOrders] = useState<Order[]>([]);
   const [loading, setLoading] = useState(true);
@@ -128,7 +44,9 @@ const OrderManagement: React.FC<OrderManagementProps> = ({ selectedOrderId, auto
   const [showRipple, setShowRipple] = useState(false);
   const [showFilters, setShowFilters] = useState(false);
   const [unreadOrders, setUnreadOrders] = useState<string[]>([]);
-  const [connectionStatus, setConnectionStatus] = useState<'connected' | 'disconnected' | 'connecting'>('connecting');
+  const [splitBillOrderId, setSplitBillOrderId] = useState<string | null>(null);
+  const [printOrderId, setPrintOrderId] = useState<string | null>(null);
+  const { connectionState: connectionStatus } = useRealtime();
 
   // Use refs for toast functions to prevent re-renders
   const toastRef = useRef({ showSuccess, showError });
@@ -138,7 +56,14 @@ const OrderManagement: React.FC<OrderManagementProps> = ({ selectedOrderId, auto
     toastRef.current = { showSuccess, showError };
   }, [showSuccess, showError]);
 
-  // SSE callbacks
+  // Latest orders for reconciling outside of render
+  const ordersRef = useRef(orders);
+
+  useEffect(() => {
+    ordersRef.current = orders;
+  }, [orders]);
+
+  // Realtime callbacks
   const handleNewOrder = useCallback((newOrder: Order) => {
     setOrders(prev => {
       // Check if order already exists to avoid duplicates
@@ -177,25 +102,38 @@ const OrderManagement: React.FC<OrderManagementProps> = ({ selectedOrderId, auto
     toastRef.current.showSuccess(`Order ${paidOrder.orderNumber} marked as paid`);
   }, []);
 
-  // Use the SSE hook
-  const { isConnected } = useSSE(
-    user?.restaurant?._id,
-    handleNewOrder,
-    handleOrderUpdate,
-    handleOrderPaid
-  );
+  useRealtimeEvent('new_order', handleNewOrder);
+  useRealtimeEvent('order_updated', handleOrderUpdate);
+  useRealtimeEvent('order_paid', handleOrderPaid);
 
-  // Update connection status
-  useEffect(() => {
-    setConnectionStatus(isConnected ? 'connected' : 'disconnected');
-  }, [isConnected]);
+  // Re-fetch after a reconnect so events missed during the outage aren't lost
+  const handleResync = useCallback(async () => {
+    try {
+      const freshOrders = await orderService.getOrders('all');
+      const { orders: merged, added: recovered } = reconcileOrders(ordersRef.current, freshOrders);
+      setOrders(merged);
+
+      if (recovered.length > 0) {
+        const recoveredIds = recovered.map(order => order._id);
+        toastRef.current.showSuccess(`Recovered ${recovered.length} order${recovered.length !== 1 ? 's' : ''} missed while offline`);
+        setUnreadOrders(prev => [...prev, ...recoveredIds]);
+        setTimeout(() => {
+          setUnreadOrders(prev => prev.filter(id => !recoveredIds.includes(id)));
+        }, 5000);
+      }
+    } catch (error) {
+      console.error('❌ Failed to resync orders:', error);
+    }
+  }, []);
+
+  useRealtimeResync(handleResync);
 
   // Memoized filtered orders for better performance
   const filteredOrders = useMemo(() => {
     return orders.filter(order => {
       const matchesPayment = activeTab === 'paid' 
         ? order.paymentStatus === 'paid' 
-        : order.paymentStatus === 'pending';
+        : isAwaitingPayment(order);
       const matchesStatus = selectedStatus === 'all' || order.status === selectedStatus;
       const matchesTable = !tableFilter || 
         (order.table && order.table.tableNumber.toLowerCase().includes(tableFilter.toLowerCase()));
@@ -204,7 +142,7 @@ const OrderManagement: React.FC<OrderManagementProps> = ({ selectedOrderId, auto
   }, [orders, activeTab, selectedStatus, tableFilter]);
 
   const unpaidCount = useMemo(() => 
-    orders.filter(o => o.paymentStatus === 'pending').length, 
+    orders.filter(isAwaitingPayment).length, 
     [orders]
   );
   
@@ -225,26 +163,14 @@ const OrderManagement: React.FC<OrderManagementProps> = ({ selectedOrderId, auto
       const controller = new AbortController();
       const timeoutId = setTimeout(() => controller.abort(), 8000);
 
-      const response = await fetch(`http://localhost:5000/api/orders?status=all`, {
-        headers: {
-          'Authorization': `Bearer ${localStorage.getItem('token')}`,
-          'Content-Type': 'application/json'
-        },
-        signal: controller.signal
-      });
+      const orders = await orderService.getOrders('all', controller.signal);
 
       clearTimeout(timeoutId);
-
-      if (!response.ok) {
-        throw new Error(`Failed to fetch orders: ${response.status}`);
-      }
-
-      const data = await response.json();
-      setOrders(data.orders || []);
+      setOrders(orders);
     } catch (error: any) {
-      if (error.name !== 'AbortError') {
+      if (!axios.isCancel(error)) {
         console.error('❌ Failed to load orders:', error);
-        toastRef.current.showError(`Failed to load orders: ${error.message}`);
+        toastRef.current.showError(`Failed to load orders: ${getApiErrorMessage(error)}`);
       }
     } finally {
       setLoading(false);
@@ -288,22 +214,11 @@ const OrderManagement: React.FC<OrderManagementProps> = ({ selectedOrderId, auto
         order._id === orderId ? { ...order, status: newStatus } : order
       ));
 
-      const response = await fetch(`http://localhost:5000/api/orders/${orderId}/status`, {
-        method: 'PUT',
-        headers: {
-          'Authorization': `Bearer ${localStorage.getItem('token')}`,
-          'Content-Type': 'application/json'
-        },
-        body: JSON.stringify({ status: newStatus })
-      });
-
-      if (!response.ok) throw new Error(`Failed to update order: ${response.status}`);
-
-      const updatedOrder = await response.json();
+      const updatedOrder = await orderService.updateOrderStatus(orderId, newStatus);
       
       // Final update with server data
       setOrders(prev => prev.map(order => 
-        order._id === orderId ? updatedOrder.order : order
+        order._id === orderId ? updatedOrder : order
       ));
       
       toastRef.current.showSuccess(`Order updated to ${newStatus}`);
@@ -314,7 +229,7 @@ const OrderManagement: React.FC<OrderManagementProps> = ({ selectedOrderId, auto
       ));
       
       console.error('❌ Failed to update order status:', error);
-      toastRef.current.showError(`Failed to update order: ${error.message}`);
+      toastRef.current.showError(`Failed to update order: ${getApiErrorMessage(error)}`);
     }
   }, [orders]);
 
@@ -344,21 +259,11 @@ const OrderManagement: React.FC<OrderManagementProps> = ({ selectedOrderId, auto
       setTimeout(() => setRecentlyPaidId(null), 3000);
       
       // Backend update
-      const response = await fetch(`http://localhost:5000/api/orders/${orderId}/pay`, {
-        method: 'PUT',
-        headers: {
-          'Authorization': `Bearer ${localStorage.getItem('token')}`,
-          'Content-Type': 'application/json'
-        }
-      });
-
-      if (!response.ok) throw new Error(`Failed to mark as paid: ${response.status}`);
-
-      const serverUpdatedOrder = await response.json();
+      const serverUpdatedOrder = await orderService.markAsPaid(orderId);
       
       // Final sync with server data
       setOrders(prev => prev.map(order => 
-        order._id === orderId ? serverUpdatedOrder.order : order
+        order._id === orderId ? serverUpdatedOrder : order
       ));
       
       toastRef.current.showSuccess('Order marked as paid!');
@@ -369,51 +274,88 @@ const OrderManagement: React.FC<OrderManagementProps> = ({ selectedOrderId, auto
         if (!orderToRevert) return prev;
         
         return prev.map(order => 
-          order._id === orderId ? { ...order, paymentStatus: 'pending' } : order
+          order._id === orderId ? { ...order, paymentStatus: orderToRevert.paymentStatus } : order
         );
       });
       
       console.error('❌ Failed to mark order as paid:', error);
-      toastRef.current.showError(`Failed to mark as paid: ${error.message}`);
+      toastRef.current.showError(`Failed to mark as paid: ${getApiErrorMessage(error)}`);
     }
   }, [orders]);
 
   const markAsUnpaid = useCallback(async (orderId: string) => {
+    const previous = orders.find(order => order._id === orderId);
+    // Every recorded payment is discarded, so make sure
+    if (previous && !confirm(`Mark order #${previous.orderNumber} as unpaid? The ${getAmountPaid(previous).toLocaleString()} CFA recorded so far will be discarded.`)) return;
+
     try {
       // Optimistic update
       setOrders(prev => prev.map(order => 
-        order._id === orderId ? { ...order, paymentStatus: 'pending' } : order
+        order._id === orderId ? { ...order, paymentStatus: 'pending', amountPaid: 0, payments: [] } : order
       ));
 
-      const response = await fetch(`http://localhost:5000/api/orders/${orderId}/unpay`, {
-        method: 'PUT',
-        headers: {
-          'Authorization': `Bearer ${localStorage.getItem('token')}`,
-          'Content-Type': 'application/json'
-        }
-      });
-
-      if (!response.ok) throw new Error(`Failed to mark as unpaid: ${response.status}`);
-
-      const updatedOrder = await response.json();
+      const updatedOrder = await orderService.markAsUnpaid(orderId);
       
       // Final update with server data
       setOrders(prev => prev.map(order => 
-        order._id === orderId ? updatedOrder.order : order
+        order._id === orderId ? updatedOrder : order
       ));
       
       toastRef.current.showSuccess('Order marked as unpaid');
     } catch (error: any) {
       // Revert optimistic update
       setOrders(prev => prev.map(order => 
-        order._id === orderId ? { ...order, paymentStatus: orders.find(o => o._id === orderId)?.paymentStatus || 'pending' } : order
+        order._id === orderId && previous
+          ? { ...order, paymentStatus: previous.paymentStatus, amountPaid: previous.amountPaid, payments: previous.payments }
+          : order
       ));
       
       console.error('❌ Failed to mark order as unpaid:', error);
-      toastRef.current.showError(`Failed to mark as unpaid: ${error.message}`);
+      toastRef.current.showError(`Failed to mark as unpaid: ${getApiErrorMessage(error)}`);
     }
   }, [orders]);
 
+  // Record one payment towards an order's bill
+  const recordPayment = useCallback(async (orderId: string, payment: RecordPaymentData) => {
+    try {
+      const updatedOrder = await orderService.recordPayment(orderId, payment);
+
+      setOrders(prev => prev.map(order => 
+        order._id === orderId ? updatedOrder : order
+      ));
+
+      if (updatedOrder.paymentStatus === 'paid') {
+        setSplitBillOrderId(null);
+        setRecentlyPaidId(orderId);
+        setShowRipple(true);
+        setTimeout(() => {
+          setShowRipple(false);
+          setActiveTab('paid');
+        }, 600);
+        setTimeout(() => setRecentlyPaidId(null), 3000);
+        toastRef.current.showSuccess(`Order ${updatedOrder.orderNumber} fully paid!`);
+      } else {
+        toastRef.current.showSuccess(
+          `Payment recorded. ${getRemainingBalance(updatedOrder).toLocaleString()} CFA remaining`
+        );
+      }
+    } catch (error) {
+      console.error('❌ Failed to record payment:', error);
+      toastRef.current.showError(`Failed to record payment: ${getApiErrorMessage(error)}`);
+      throw error;
+    }
+  }, []);
+
+  const splitBillOrder = useMemo(() => 
+    orders.find(order => order._id === splitBillOrderId) || null,
+    [orders, splitBillOrderId]
+  );
+
+  const printOrder = useMemo(() => 
+    orders.find(order => order._id === printOrderId) || null,
+    [orders, printOrderId]
+  );
+
   // Stats functions
   const filterOrdersByTimeRange = useCallback((orders: Order[], timeRange: string): Order[] => {
     const now = new Date();
@@ -441,7 +383,8 @@ const OrderManagement: React.FC<OrderManagementProps> = ({ selectedOrderId, auto
 
   const calculateStats = useCallback((filteredOrders: Order[]) => {
     const paidOrders = filteredOrders.filter(order => order.paymentStatus === 'paid');
-    const totalRevenue = paidOrders.reduce((sum, order) => sum + order.totalAmount, 0);
+    // Money taken on partially paid orders counts too
+    const totalRevenue = filteredOrders.reduce((sum, order) => sum + getAmountPaid(order), 0);
     
     const itemCounts: { [key: string]: { name: string; count: number; revenue: number } } = {};
     paidOrders.forEach(order => {
@@ -525,9 +468,7 @@ const OrderManagement: React.FC<OrderManagementProps> = ({ selectedOrderId, auto
 
   // Memoized total revenue calculation
   const totalRevenue = useMemo(() => 
-    orders
-      .filter(order => order.paymentStatus === 'paid')
-      .reduce((sum, order) => sum + order.totalAmount, 0),
+    orders.reduce((sum, order) => sum + getAmountPaid(order), 0),
     [orders]
   );
 
@@ -631,9 +572,29 @@ const OrderManagement: React.FC<OrderManagementProps> = ({ selectedOrderId, auto
           onUpdateStatus={updateOrderStatus}
           onMarkAsPaid={markAsPaid}
           onMarkAsUnpaid={markAsUnpaid}
+          onSplitBill={setSplitBillOrderId}
+          onPrint={setPrintOrderId}
         />
       </div>
 
+      {/* Split Bill Modal */}
+      {splitBillOrder && (
+        <SplitBillModal
+          order={splitBillOrder}
+          onRecordPayment={recordPayment}
+          onClose={() => setSplitBillOrderId(null)}
+        />
+      )}
+
+      {/* Print Modal */}
+      {printOrder && (
+        <PrintModal
+          order={printOrder}
+          restaurant={restaurant || user?.restaurant}
+          onClose={() => setPrintOrderId(null)}
+        />
+      )}
+
       {/* Statistics Modal */}
       {showStatsModal && (
         <StatsModal
@@ -895,6 +856,8 @@ interface OrdersGridProps {
   onUpdateStatus: (orderId: string, newStatus: OrderStatus) => void;
   onMarkAsPaid: (orderId: string) => void;
   onMarkAsUnpaid: (orderId: string) => void;
+  onSplitBill: (orderId: string) => void;
+  onPrint: (orderId: string) => void;
 }
 
 const OrdersGrid = memo(({ 
@@ -907,7 +870,9 @@ const OrdersGrid = memo(({
   unreadOrders,
   onUpdateStatus, 
   onMarkAsPaid, 
-  onMarkAsUnpaid 
+  onMarkAsUnpaid,
+  onSplitBill,
+  onPrint
 }: OrdersGridProps) => {
   if (orders.length === 0) {
     return (
@@ -935,6 +900,8 @@ const OrdersGrid = memo(({
           onUpdateStatus={onUpdateStatus}
           onMarkAsPaid={onMarkAsPaid}
           onMarkAsUnpaid={onMarkAsUnpaid}
+          onSplitBill={onSplitBill}
+          onPrint={onPrint}
           isRecentlyPaid={order._id === recentlyPaidId}
           isSelected={order._id === selectedOrderId}
           isUnread={unreadOrders.includes(order._id)}
@@ -951,6 +918,8 @@ interface OrderCardProps {
   onUpdateStatus: (orderId: string, newStatus: OrderStatus) => void;
   onMarkAsPaid: (orderId: string) => void;
   onMarkAsUnpaid: (orderId: string) => void;
+  onSplitBill: (orderId: string) => void;
+  onPrint: (orderId: string) => void;
   isRecentlyPaid?: boolean;
   isSelected?: boolean;
   isUnread?: boolean;
@@ -962,6 +931,8 @@ const OrderCard = memo(({
   onUpdateStatus, 
   onMarkAsPaid, 
   onMarkAsUnpaid,
+  onSplitBill,
+  onPrint,
   isRecentlyPaid = false,
   isSelected = false,
   isUnread = false,
@@ -1007,6 +978,19 @@ const OrderCard = memo(({
     });
   };
 
+  // Group orders: what each guest at the table ordered
+  const guestBreakdown = useMemo(() => {
+    const byGuest = new Map<string, { itemCount: number; subtotal: number }>();
+    order.items.forEach(item => {
+      if (!item.guestName) return;
+      const guest = byGuest.get(item.guestName) || { itemCount: 0, subtotal: 0 };
+      guest.itemCount += item.quantity;
+      guest.subtotal += item.price * item.quantity;
+      byGuest.set(item.guestName, guest);
+    });
+    return Array.from(byGuest.entries());
+  }, [order.items]);
+
   const handleStatusChange = (newStatus: string) => {
     const typedStatus = newStatus as OrderStatus;
     setSelectedStatus(typedStatus);
@@ -1093,8 +1077,34 @@ const OrderCard = memo(({
             <span className="text-xs text-gray-400">•</span>
             <span className="text-xs text-gray-500 capitalize">{order.orderType}</span>
           </div>
+          {guestBreakdown.length > 0 && (
+            <div className="mt-2 pt-2 border-t border-gray-200 space-y-1">
+              <p className="text-xs font-semibold text-gray-500">
+                <i className="ri-group-line mr-1"></i>Group order · {guestBreakdown.length} guest{guestBreakdown.length > 1 ? 's' : ''}
+              </p>
+              {guestBreakdown.map(([name, guest]) => (
+                <div key={name} className="flex items-center justify-between text-xs">
+                  <span className="text-gray-700 font-medium">{name}</span>
+                  <span className="text-gray-500">
+                    {guest.itemCount} item{guest.itemCount > 1 ? 's' : ''} · <span className="font-semibold text-gray-700">{guest.subtotal.toLocaleString()} CFA</span>
+                  </span>
+                </div>
+              ))}
+            </div>
+          )}
         </div>
 
+        {/* Customer Notes */}
+        {order.customerNotes && (
+          <div className="bg-amber-50 border-2 border-amber-300 rounded-xl p-3 mb-3 flex items-start gap-2">
+            <i className="ri-alert-line text-amber-600 text-lg"></i>
+            <div className="min-w-0">
+              <p className="text-xs font-bold text-amber-800 uppercase tracking-wide">Customer notes</p>
+              <p className="text-sm text-amber-900 break-words">{order.customerNotes}</p>
+            </div>
+          </div>
+        )}
+
         {/* Items Preview */}
         <div className="space-y-2 mb-3">
           {order.items.slice(0, isExpanded ? undefined : 2).map((item: any) => (
@@ -1122,10 +1132,21 @@ const OrderCard = memo(({
                 </p>
                 <p className="text-xs text-gray-600">
                   <span className="font-medium text-orange-600">{item.quantity}x</span> @ {item.price.toLocaleString()} CFA
+                  {item.guestName && <span className="text-purple-600 font-medium"> · {item.guestName}</span>}
                 </p>
-                {item.specialInstructions && (
-                  <p className="text-xs text-blue-600 italic mt-0.5 line-clamp-1">
-                    <i className="ri-takeaway-line"></i> {item.specialInstructions}
+                {item.modifiers?.length > 0 && (
+                  <p className="text-xs text-gray-700 mt-0.5">
+                    <i className="ri-list-settings-line"></i> {formatModifiers(item.modifiers)}
+                  </p>
+                )}
+                {isTakeawayItem(item) && (
+                  <p className="text-xs text-blue-600 italic mt-0.5">
+                    <i className="ri-takeaway-line"></i> Takeaway
+                  </p>
+                )}
+                {getItemNote(item) && (
+                  <p className="text-xs font-semibold text-amber-800 bg-amber-100 rounded-md px-1.5 py-0.5 mt-1">
+                    <i className="ri-sticky-note-line"></i> {getItemNote(item)}
                   </p>
                 )}
               </div>
@@ -1143,12 +1164,39 @@ const OrderCard = memo(({
               onClick={() => setIsExpanded(!isExpanded)}
               className="w-full py-2 text-xs font-medium text-yellow-600 hover:text-yellow-700 transition-colors flex items-center justify-center space-x-1"
             >
-              <span>{isExpanded ? 'Show Less' : `Show ${order.items.length - 2} More Items`}</span>
+              <span>
+                {isExpanded
+                  ? 'Show Less'
+                  : `Show ${order.items.length - 2} More Items${order.items.slice(2).some(item => getItemNote(item)) ? ' (with notes)' : ''}`}
+              </span>
               <i className={`ri-arrow-${isExpanded ? 'up' : 'down'}-s-line`}></i>
             </button>
           )}
         </div>
 
+        {/* Partial Payment Progress */}
+        {order.paymentStatus === 'partially_paid' && (
+          <div className="mb-3 p-3 bg-blue-50 rounded-xl border border-blue-100">
+            <div className="flex items-center justify-between text-xs mb-1.5">
+              <span className="font-semibold text-blue-800">
+                <i className="ri-pie-chart-line mr-1"></i>Partially paid
+              </span>
+              <span className="text-blue-700">
+                {getAmountPaid(order).toLocaleString()} / {order.totalAmount.toLocaleString()} CFA
+              </span>
+            </div>
+            <div className="h-1.5 bg-blue-100 rounded-full overflow-hidden">
+              <div
+                className="h-full bg-blue-500 rounded-full transition-all"
+                style={{ width: `${Math.min(100, (getAmountPaid(order) / order.totalAmount) * 100)}%` }}
+              ></div>
+            </div>
+            <p className="text-xs font-bold text-blue-900 mt-1.5">
+              Remaining: {getRemainingBalance(order).toLocaleString()} CFA
+            </p>
+          </div>
+        )}
+
         {/* Actions */}
         <div className="flex flex-col sm:flex-row gap-2 pt-3 border-t border-gray-100">
           <select
@@ -1163,7 +1211,26 @@ const OrderCard = memo(({
             ))}
           </select>
 
-          {order.paymentStatus === 'pending' && order.status !== 'cancelled' && (
+          <button
+            onClick={() => onPrint(order._id)}
+            className="bg-gray-100 text-gray-700 px-3 py-2 rounded-xl font-semibold hover:bg-gray-200 transition-all flex items-center justify-center space-x-1 text-sm"
+            title="Print receipt or kitchen ticket"
+          >
+            <i className="ri-printer-line"></i>
+            <span className="sm:hidden">Print</span>
+          </button>
+
+          {isAwaitingPayment(order) && order.status !== 'cancelled' && (
+            <button
+              onClick={() => onSplitBill(order._id)}
+              className="bg-gradient-to-r from-blue-500 to-indigo-500 text-white px-4 py-2 rounded-xl font-semibold hover:shadow-lg transition-all hover:scale-105 active:scale-95 flex items-center justify-center space-x-1 text-sm"
+            >
+              <i className="ri-scissors-cut-line"></i>
+              <span>Split</span>
+            </button>
+          )}
+
+          {isAwaitingPayment(order) && order.status !== 'cancelled' && (
             <button
               onClick={() => onMarkAsPaid(order._id)}
               className="bg-gradient-to-r from-green-500 to-emerald-500 text-white px-4 py-2 rounded-xl font-semibold hover:shadow-lg transition-all hover:scale-105 active:scale-95 flex items-center justify-center space-x-1 text-sm"
@@ -1173,7 +1240,7 @@ const OrderCard = memo(({
             </button>
           )}
           
-          {order.paymentStatus === 'paid' && (
+          {(order.paymentStatus === 'paid' || order.paymentStatus === 'partially_paid') && (
             <button
               onClick={() => onMarkAsUnpaid(order._id)}
               className="bg-gradient-to-r from-orange-500 to-red-500 text-white px-4 py-2 rounded-xl font-semibold hover:shadow-lg transition-all hover:scale-105 active:scale-95 flex items-center justify-center space-x-1 text-sm"
@@ -1188,6 +1255,464 @@ const OrderCard = memo(({
   );
 });
 
+// Split Bill Modal Component
+interface SplitBillModalProps {
+  order: Order;
+  onRecordPayment: (orderId: string, payment: RecordPaymentData) => Promise<void>;
+  onClose: () => void;
+}
+
+const PAYMENT_METHODS: { value: PaymentMethod; label: string; icon: string }[] = [
+  { value: 'cash', label: 'Cash', icon: 'ri-money-dollar-circle-line' },
+  { value: 'mobile_money', label: 'Mobile Money', icon: 'ri-smartphone-line' },
+  { value: 'card', label: 'Card', icon: 'ri-bank-card-line' }
+];
+
+const SPLIT_MODES: { value: SplitMode; label: string; icon: string }[] = [
+  { value: 'even', label: 'Evenly', icon: 'ri-group-line' },
+  { value: 'by_item', label: 'By Item', icon: 'ri-list-check-2' },
+  { value: 'custom', label: 'Custom', icon: 'ri-edit-line' }
+];
+
+const SplitBillModal: React.FC<SplitBillModalProps> = ({ order, onRecordPayment, onClose }) => {
+  const [splitMode, setSplitMode] = useState<SplitMode>('even');
+  const [method, setMethod] = useState<PaymentMethod>('cash');
+  const [payerName, setPayerName] = useState('');
+  const [peopleCount, setPeopleCount] = useState(2);
+  // Item index -> quantity this payer is covering
+  const [selectedItems, setSelectedItems] = useState<Record<number, number>>({});
+  const [customAmount, setCustomAmount] = useState('');
+  const [isSubmitting, setIsSubmitting] = useState(false);
+
+  const payments = order.payments || [];
+  const amountPaid = getAmountPaid(order);
+  const remaining = getRemainingBalance(order);
+  const evenPaymentsCount = payments.filter(payment => payment.splitMode === 'even').length;
+  const paidQuantities = getPaidItemQuantities(order);
+
+  // What's left of a line once earlier by-item payments are taken off
+  const getUnpaidQuantity = (index: number) =>
+    Math.max(0, order.items[index].quantity - (paidQuantities[index] || 0));
+
+  const itemsAmount = Object.entries(selectedItems).reduce(
+    (sum, [index, quantity]) => sum + (order.items[Number(index)]?.price || 0) * quantity, 0
+  );
+
+  // Never charge more than what is left on the bill
+  const amount = Math.min(remaining, 
+    splitMode === 'even' ? Math.ceil(order.totalAmount / peopleCount)
+    : splitMode === 'by_item' ? itemsAmount
+    : Math.max(0, Math.round(Number(customAmount) || 0))
+  );
+
+  const guestNames = Array.from(new Set(order.items.map(item => item.guestName).filter(Boolean))) as string[];
+
+  const setItemQuantity = (index: number, quantity: number) => {
+    setSelectedItems(prev => {
+      const next = { ...prev };
+      if (quantity <= 0) {
+        delete next[index];
+      } else {
+        next[index] = Math.min(quantity, getUnpaidQuantity(index));
+      }
+      return next;
+    });
+  };
+
+  // Select everything one guest of a group order had
+  const selectGuestItems = (guestName: string) => {
+    const next: Record<number, number> = {};
+    order.items.forEach((item, index) => {
+      const unpaid = getUnpaidQuantity(index);
+      if (item.guestName === guestName && unpaid > 0) next[index] = unpaid;
+    });
+    setSelectedItems(next);
+    setPayerName(guestName);
+  };
+
+  const handleRecordPayment = async () => {
+    if (amount <= 0 || isSubmitting) return;
+
+    setIsSubmitting(true);
+    try {
+      await onRecordPayment(order._id, {
+        amount,
+        method,
+        payerName: payerName.trim() || undefined,
+        splitMode,
+        items: splitMode === 'by_item'
+          ? Object.entries(selectedItems).map(([index, quantity]) => ({ itemIndex: Number(index), quantity }))
+          : undefined
+      });
+      setSelectedItems({});
+      setCustomAmount('');
+      setPayerName('');
+    } catch {
+      // Already reported by the parent
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  const getMethodInfo = (value: PaymentMethod) => PAYMENT_METHODS.find(m => m.value === value) || PAYMENT_METHODS[0];
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center p-3 sm:p-4 z-50 backdrop-blur-sm">
+      <div className="bg-white rounded-2xl w-full max-w-lg max-h-[90vh] overflow-y-auto shadow-2xl">
+        <div className="sticky top-0 bg-gradient-to-r from-blue-500 to-indigo-600 p-4 sm:p-6 z-10">
+          <div className="flex items-center justify-between">
+            <div className="flex items-center space-x-3">
+              <div className="w-10 h-10 bg-white bg-opacity-20 rounded-xl flex items-center justify-center">
+                <i className="ri-scissors-cut-line text-white text-xl"></i>
+              </div>
+              <div>
+                <h2 className="text-xl font-bold text-white">Split Bill</h2>
+                <p className="text-xs text-blue-100">Order #{order.orderNumber}</p>
+              </div>
+            </div>
+            <button
+              onClick={onClose}
+              className="w-10 h-10 bg-white bg-opacity-20 hover:bg-opacity-30 rounded-xl transition-all flex items-center justify-center"
+            >
+              <i className="ri-close-line text-white text-xl"></i>
+            </button>
+          </div>
+
+          {/* Balance */}
+          <div className="grid grid-cols-3 gap-2 mt-4">
+            <div className="bg-white bg-opacity-15 rounded-xl p-2 text-center">
+              <p className="text-xs text-blue-100">Total</p>
+              <p className="text-sm font-bold text-white">{order.totalAmount.toLocaleString()}</p>
+            </div>
+            <div className="bg-white bg-opacity-15 rounded-xl p-2 text-center">
+              <p className="text-xs text-blue-100">Paid</p>
+              <p className="text-sm font-bold text-white">{amountPaid.toLocaleString()}</p>
+            </div>
+            <div className="bg-white rounded-xl p-2 text-center">
+              <p className="text-xs text-indigo-500">Remaining</p>
+              <p className="text-sm font-bold text-indigo-700">{remaining.toLocaleString()}</p>
+            </div>
+          </div>
+        </div>
+
+        <div className="p-4 sm:p-6 space-y-5">
+          {/* Split Mode */}
+          <div className="flex gap-2 bg-gray-100 p-1 rounded-xl">
+            {SPLIT_MODES.map(mode => (
+              <button
+                key={mode.value}
+                onClick={() => setSplitMode(mode.value)}
+                className={`flex-1 flex items-center justify-center gap-1 py-2 rounded-lg text-sm font-semibold transition-all ${
+                  splitMode === mode.value ? 'bg-white text-indigo-600 shadow' : 'text-gray-600 hover:text-gray-900'
+                }`}
+              >
+                <i className={mode.icon}></i>
+                <span>{mode.label}</span>
+              </button>
+            ))}
+          </div>
+
+          {/* Even Split */}
+          {splitMode === 'even' && (
+            <div className="space-y-3">
+              <div className="flex items-center justify-between">
+                <span className="text-sm font-medium text-gray-700">Number of people</span>
+                <div className="flex items-center gap-3">
+                  <button
+                    onClick={() => setPeopleCount(count => Math.max(2, count - 1))}
+                    className="w-8 h-8 bg-gray-100 hover:bg-gray-200 rounded-full flex items-center justify-center"
+                  >
+                    <i className="ri-subtract-line"></i>
+                  </button>
+                  <span className="font-bold text-gray-900 w-6 text-center">{peopleCount}</span>
+                  <button
+                    onClick={() => setPeopleCount(count => Math.min(50, count + 1))}
+                    className="w-8 h-8 bg-gray-100 hover:bg-gray-200 rounded-full flex items-center justify-center"
+                  >
+                    <i className="ri-add-line"></i>
+                  </button>
+                </div>
+              </div>
+              <p className="text-sm text-gray-600">
+                {Math.ceil(order.totalAmount / peopleCount).toLocaleString()} CFA per person
+                {evenPaymentsCount > 0 && (
+                  <span className="text-gray-400"> · share {Math.min(evenPaymentsCount + 1, peopleCount)} of {peopleCount}</span>
+                )}
+              </p>
+            </div>
+          )}
+
+          {/* Split By Item */}
+          {splitMode === 'by_item' && (
+            <div className="space-y-2">
+              {guestNames.length > 0 && (
+                <div className="flex flex-wrap gap-2 mb-2">
+                  {guestNames.map(name => (
+                    <button
+                      key={name}
+                      onClick={() => selectGuestItems(name)}
+                      className="px-3 py-1 rounded-full text-xs font-medium bg-purple-100 text-purple-700 hover:bg-purple-200"
+                    >
+                      <i className="ri-user-line mr-1"></i>{name}'s items
+                    </button>
+                  ))}
+                </div>
+              )}
+              {order.items.map((item, index) => {
+                const selected = selectedItems[index] || 0;
+                const unpaid = getUnpaidQuantity(index);
+                return (
+                  <div
+                    key={item._id || index}
+                    className={`flex items-center justify-between p-2 rounded-xl border ${
+                      selected > 0 ? 'border-indigo-300 bg-indigo-50' : 'border-gray-100 bg-gray-50'
+                    } ${unpaid === 0 ? 'opacity-50' : ''}`}
+                  >
+                    <div className="min-w-0">
+                      <p className="text-sm font-semibold text-gray-900 truncate">{item.menuItem?.name}</p>
+                      {item.modifiers && item.modifiers.length > 0 && (
+                        <p className="text-xs text-gray-500 truncate">{formatModifiers(item.modifiers)}</p>
+                      )}
+                      <p className="text-xs text-gray-500">
+                        {item.price.toLocaleString()} CFA
+                        {item.guestName && <span className="text-purple-600"> · {item.guestName}</span>}
+                        {unpaid < item.quantity && (
+                          <span className="text-green-600"> · {unpaid === 0 ? 'Paid' : `${item.quantity - unpaid} paid`}</span>
+                        )}
+                      </p>
+                    </div>
+                    <div className="flex items-center gap-2">
+                      <button
+                        onClick={() => setItemQuantity(index, selected - 1)}
+                        disabled={selected === 0}
+                        className="w-7 h-7 bg-white rounded-full flex items-center justify-center shadow-sm disabled:opacity-40"
+                      >
+                        <i className="ri-subtract-line text-xs"></i>
+                      </button>
+                      <span className="text-sm font-bold w-10 text-center">{selected}/{unpaid}</span>
+                      <button
+                        onClick={() => setItemQuantity(index, selected + 1)}
+                        disabled={selected >= unpaid}
+                        className="w-7 h-7 bg-indigo-500 text-white rounded-full flex items-center justify-center shadow-sm disabled:opacity-40"
+                      >
+                        <i className="ri-add-line text-xs"></i>
+                      </button>
+                    </div>
+                  </div>
+                );
+              })}
+            </div>
+          )}
+
+          {/* Custom Amount */}
+          {splitMode === 'custom' && (
+            <div>
+              <label className="text-xs font-semibold text-gray-700 mb-2 block">Amount (CFA)</label>
+              <input
+                type="number"
+                min={0}
+                max={remaining}
+                value={customAmount}
+                onChange={(e) => setCustomAmount(e.target.value)}
+                placeholder={remaining.toString()}
+                className="w-full px-3 py-2 border border-gray-200 rounded-lg text-sm focus:ring-2 focus:ring-indigo-400 focus:border-indigo-400"
+              />
+            </div>
+          )}
+
+          {/* Payer & Method */}
+          <div className="space-y-3">
+            <input
+              type="text"
+              value={payerName}
+              onChange={(e) => setPayerName(e.target.value)}
+              placeholder="Payer name (optional)"
+              className="w-full px-3 py-2 border border-gray-200 rounded-lg text-sm focus:ring-2 focus:ring-indigo-400 focus:border-indigo-400"
+            />
+            <div className="grid grid-cols-3 gap-2">
+              {PAYMENT_METHODS.map(option => (
+                <button
+                  key={option.value}
+                  onClick={() => setMethod(option.value)}
+                  className={`flex flex-col items-center gap-1 py-2 rounded-xl border-2 text-xs font-semibold transition-all ${
+                    method === option.value ? 'border-indigo-500 bg-indigo-50 text-indigo-700' : 'border-gray-100 text-gray-600 hover:border-gray-200'
+                  }`}
+                >
+                  <i className={`${option.icon} text-lg`}></i>
+                  <span>{option.label}</span>
+                </button>
+              ))}
+            </div>
+          </div>
+
+          <button
+            onClick={handleRecordPayment}
+            disabled={amount <= 0 || isSubmitting}
+            className="w-full bg-gradient-to-r from-green-500 to-emerald-500 text-white py-3 rounded-xl font-semibold hover:shadow-lg transition-all disabled:opacity-50 disabled:cursor-not-allowed flex items-center justify-center gap-2"
+          >
+            {isSubmitting ? (
+              <div className="w-4 h-4 border-2 border-white border-t-transparent rounded-full animate-spin"></div>
+            ) : (
+              <i className="ri-checkbox-circle-line"></i>
+            )}
+            <span>Record {amount.toLocaleString()} CFA</span>
+          </button>
+
+          {/* Payment History */}
+          {payments.length > 0 && (
+            <div className="pt-4 border-t border-gray-100">
+              <h3 className="text-sm font-semibold text-gray-900 mb-2">Payments</h3>
+              <div className="space-y-2">
+                {payments.map((payment, index) => (
+                  <div key={payment._id || index} className="flex items-center justify-between text-sm p-2 bg-gray-50 rounded-lg">
+                    <div className="flex items-center gap-2">
+                      <i className={`${getMethodInfo(payment.method).icon} text-gray-500`}></i>
+                      <span className="text-gray-700">{payment.payerName || getMethodInfo(payment.method).label}</span>
+                      <span className="text-xs text-gray-400">
+                        {new Date(payment.paidAt).toLocaleTimeString('en-US', { hour: '2-digit', minute: '2-digit' })}
+                      </span>
+                    </div>
+                    <span className="font-semibold text-gray-900">{payment.amount.toLocaleString()} CFA</span>
+                  </div>
+                ))}
+              </div>
+            </div>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+// Print Modal Component
+interface PrintModalProps {
+  order: Order;
+  restaurant?: Restaurant | null;
+  onClose: () => void;
+}
+
+type PrintFormat = 'standard' | PaperWidth;
+
+const PRINT_FORMATS: { value: PrintFormat; label: string }[] = [
+  { value: 'standard', label: 'Standard' },
+  { value: 80, label: 'Thermal 80mm' },
+  { value: 58, label: 'Thermal 58mm' }
+];
+
+const PrintModal: React.FC<PrintModalProps> = ({ order, restaurant, onClose }) => {
+  const [documentType, setDocumentType] = useState<PrintDocument>('receipt');
+  const [format, setFormat] = useState<PrintFormat>('standard');
+
+  const isThermal = format !== 'standard';
+
+  const preview = useMemo(() => {
+    if (format === 'standard') {
+      return documentType === 'receipt' ? buildReceiptHtml(order, restaurant) : buildKitchenTicketHtml(order);
+    }
+    return buildThermalText(documentType, order, restaurant, format);
+  }, [documentType, format, order, restaurant]);
+
+  const handlePrint = () => {
+    printHtml(format === 'standard' ? preview : buildThermalHtml(preview, format));
+  };
+
+  const handleDownloadEscPos = () => {
+    if (format === 'standard') return;
+    downloadEscPos(
+      buildEscPos(documentType, order, restaurant, format),
+      `${documentType === 'receipt' ? 'receipt' : 'ticket'}-${order.orderNumber}-${format}mm.bin`
+    );
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center p-3 sm:p-4 z-50 backdrop-blur-sm">
+      <div className="bg-white rounded-2xl w-full max-w-lg max-h-[90vh] flex flex-col shadow-2xl overflow-hidden">
+        <div className="bg-gradient-to-r from-gray-700 to-gray-900 p-4 sm:p-6">
+          <div className="flex items-center justify-between">
+            <div className="flex items-center space-x-3">
+              <div className="w-10 h-10 bg-white bg-opacity-20 rounded-xl flex items-center justify-center">
+                <i className="ri-printer-line text-white text-xl"></i>
+              </div>
+              <div>
+                <h2 className="text-xl font-bold text-white">Print</h2>
+                <p className="text-xs text-gray-300">Order #{order.orderNumber}</p>
+              </div>
+            </div>
+            <button
+              onClick={onClose}
+              className="w-10 h-10 bg-white bg-opacity-20 hover:bg-opacity-30 rounded-xl transition-all flex items-center justify-center"
+            >
+              <i className="ri-close-line text-white text-xl"></i>
+            </button>
+          </div>
+        </div>
+
+        <div className="p-4 space-y-3 border-b border-gray-100">
+          <div className="flex gap-2 bg-gray-100 p-1 rounded-xl">
+            {([['receipt', 'Receipt', 'ri-bill-line'], ['kitchen', 'Kitchen Ticket', 'ri-fire-line']] as const).map(([value, label, icon]) => (
+              <button
+                key={value}
+                onClick={() => setDocumentType(value)}
+                className={`flex-1 flex items-center justify-center gap-1 py-2 rounded-lg text-sm font-semibold transition-all ${
+                  documentType === value ? 'bg-white text-gray-900 shadow' : 'text-gray-600 hover:text-gray-900'
+                }`}
+              >
+                <i className={icon}></i>
+                <span>{label}</span>
+              </button>
+            ))}
+          </div>
+          <div className="flex gap-2">
+            {PRINT_FORMATS.map(option => (
+              <button
+                key={option.value}
+                onClick={() => setFormat(option.value)}
+                className={`flex-1 py-1.5 rounded-lg text-xs font-semibold border transition-all ${
+                  format === option.value ? 'border-gray-900 bg-gray-900 text-white' : 'border-gray-200 text-gray-600 hover:border-gray-300'
+                }`}
+              >
+                {option.label}
+              </button>
+            ))}
+          </div>
+        </div>
+
+        {/* Preview */}
+        <div className="flex-1 overflow-auto bg-gray-100 p-4 flex justify-center">
+          {isThermal ? (
+            <pre className="bg-white shadow-md p-3 text-[11px] leading-tight font-mono text-gray-900 whitespace-pre">{preview}</pre>
+          ) : (
+            <iframe
+              title="Print preview"
+              srcDoc={preview}
+              className="bg-white shadow-md w-full max-w-sm h-[420px] border-0"
+            />
+          )}
+        </div>
+
+        <div className="p-4 flex gap-2 border-t border-gray-100">
+          {isThermal && (
+            <button
+              onClick={handleDownloadEscPos}
+              className="flex-1 bg-gray-100 text-gray-700 py-3 rounded-xl font-semibold hover:bg-gray-200 transition-all flex items-center justify-center gap-2 text-sm"
+            >
+              <i className="ri-download-2-line"></i>
+              <span>ESC/POS</span>
+            </button>
+          )}
+          <button
+            onClick={handlePrint}
+            className="flex-1 bg-gradient-to-r from-gray-700 to-gray-900 text-white py-3 rounded-xl font-semibold hover:shadow-lg transition-all flex items-center justify-center gap-2 text-sm"
+          >
+            <i className="ri-printer-line"></i>
+            <span>Print</span>
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
 // Stats Modal Component
 interface StatsModalProps {
   statsData: any;
@@ -0,0 +1,305 @@
+import React, { useState, useEffect, useCallback, useRef } from 'react';
+import { useParams, useNavigate } from 'react-router-dom';
+import { RealtimeProvider, useRealtime, useRealtimeEvent, useRealtimeResync } from '../contexts/RealtimeContext';
+import { orderService, getPrepMinutes, isTakeawayItem, getItemNote } from '../services/orders';
+import { getApiErrorMessage } from '../services/api';
+import { formatModifiers } from '../services/modifiers';
+import type { Order, OrderStatus, Restaurant } from '../types';
+
+// Steps shown on the progress timeline
+const TRACKING_STEPS: { status: OrderStatus; label: string; icon: string; description: string }[] = [
+  { status: 'pending', label: 'Order Placed', icon: 'ri-file-list-3-line', description: 'Waiting for the restaurant to confirm' },
+  { status: 'confirmed', label: 'Confirmed', icon: 'ri-checkbox-circle-line', description: 'The restaurant accepted your order' },
+  { status: 'preparing', label: 'Preparing', icon: 'ri-restaurant-line', description: 'The kitchen is cooking your food' },
+  { status: 'ready', label: 'Ready', icon: 'ri-check-double-line', description: 'Your order is ready' },
+  { status: 'served', label: 'Served', icon: 'ri-user-smile-line', description: 'Enjoy your meal!' }
+];
+
+const FALLBACK_POLL_INTERVAL = 15000;
+
+const getStepIndex = (status: OrderStatus) => {
+  if (status === 'completed') return TRACKING_STEPS.length - 1;
+  return TRACKING_STEPS.findIndex(step => step.status === status);
+};
+
+// Public orders may come back with the restaurant populated or as a bare id
+const getRestaurant = (order: Order): Partial<Restaurant> => {
+  const restaurant = order.restaurant as Restaurant | string;
+  return typeof restaurant === 'string' ? { _id: restaurant } : restaurant || {};
+};
+
+// Estimated ready time: placed time plus the order's prep time
+const getEstimatedReadyAt = (order: Order) =>
+  new Date(new Date(order.createdAt).getTime() + getPrepMinutes(order) * 60 * 1000);
+
+const formatTime = (date: Date) => date.toLocaleTimeString('en-US', { hour: '2-digit', minute: '2-digit' });
+
+const OrderTracking: React.FC = () => {
+  const { orderId } = useParams<{ orderId: string }>();
+  const navigate = useNavigate();
+  const [order, setOrder] = useState<Order | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  const loadOrder = useCallback(async () => {
+    if (!orderId) return;
+    try {
+      const data = await orderService.getPublicOrder(orderId);
+      setOrder(data);
+      setError(null);
+    } catch (err) {
+      console.error('❌ Failed to load order for tracking:', err);
+      setError(getApiErrorMessage(err, 'Failed to load order'));
+    } finally {
+      setLoading(false);
+    }
+  }, [orderId]);
+
+  useEffect(() => {
+    loadOrder();
+  }, [loadOrder]);
+
+  if (loading) {
+    return (
+      <div className="min-h-screen bg-gray-50 flex items-center justify-center">
+        <div className="text-center">
+          <div className="inline-block w-16 h-16 border-4 border-gray-200 border-t-red-500 rounded-full animate-spin mb-4"></div>
+          <p className="text-gray-600 text-base font-medium">Loading your order...</p>
+        </div>
+      </div>
+    );
+  }
+
+  if (!order) {
+    return (
+      <div className="min-h-screen bg-gray-50 flex items-center justify-center">
+        <div className="text-center p-8">
+          <i className="ri-file-search-line text-6xl text-gray-300 mb-4"></i>
+          <h3 className="text-2xl font-bold text-gray-900 mb-2">Order not found</h3>
+          <p className="text-gray-600 mb-6">{error || 'We could not find this order.'}</p>
+          <button
+            onClick={() => navigate('/waiter/restaurants')}
+            className="bg-red-500 text-white px-8 py-3.5 rounded-full font-semibold hover:opacity-90 transition-all shadow-md"
+          >
+            Back to Restaurants
+          </button>
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <RealtimeProvider publicStream={{ scope: 'order', id: order._id }}>
+      <OrderTrackingView order={order} onOrderChange={setOrder} onRefresh={loadOrder} />
+    </RealtimeProvider>
+  );
+};
+
+// Order Tracking View (inside this order's public realtime stream)
+interface OrderTrackingViewProps {
+  order: Order;
+  onOrderChange: (order: Order) => void;
+  onRefresh: () => Promise<void>;
+}
+
+const OrderTrackingView: React.FC<OrderTrackingViewProps> = ({ order, onOrderChange, onRefresh }) => {
+  const navigate = useNavigate();
+  const { isConnected } = useRealtime();
+  const [notificationPermission, setNotificationPermission] = useState<NotificationPermission | 'unsupported'>(
+    typeof Notification === 'undefined' ? 'unsupported' : Notification.permission
+  );
+  const [showReadyBanner, setShowReadyBanner] = useState(order.status === 'ready');
+  const previousStatusRef = useRef<OrderStatus>(order.status);
+
+  const restaurant = getRestaurant(order);
+  const primaryColor = restaurant.theme?.primaryColor || '#FF6B6B';
+  const currentStep = getStepIndex(order.status);
+  const estimatedReadyAt = getEstimatedReadyAt(order);
+  const isCancelled = order.status === 'cancelled';
+
+  // Only this order's events matter
+  const handleOrderEvent = useCallback((updatedOrder: Order) => {
+    if (updatedOrder._id !== order._id) return;
+    // Keep the populated restaurant/items from the initial load
+    onOrderChange({
+      ...order,
+      ...updatedOrder,
+      restaurant: order.restaurant,
+      items: updatedOrder.items?.some(item => typeof item.menuItem === 'object') ? updatedOrder.items : order.items
+    });
+  }, [order, onOrderChange]);
+
+  useRealtimeEvent('order_updated', handleOrderEvent);
+  useRealtimeEvent('order_paid', handleOrderEvent);
+  useRealtimeResync(onRefresh);
+
+  // Poll while the stream is down so the page never goes stale
+  useEffect(() => {
+    if (isConnected) return;
+    const interval = window.setInterval(onRefresh, FALLBACK_POLL_INTERVAL);
+    return () => window.clearInterval(interval);
+  }, [isConnected, onRefresh]);
+
+  // Notify once when the order becomes ready
+  useEffect(() => {
+    if (order.status === 'ready' && previousStatusRef.current !== 'ready') {
+      setShowReadyBanner(true);
+
+      if (navigator.vibrate) {
+        navigator.vibrate([200, 100, 200]);
+      }
+
+      if (notificationPermission === 'granted') {
+        new Notification('Your order is ready! 🍽️', {
+          body: `Order #${order.orderNumber}${restaurant.name ? ` at ${restaurant.name}` : ''} is ready.`,
+          icon: restaurant.logo
+        });
+      }
+    }
+    previousStatusRef.current = order.status;
+  }, [order.status, order.orderNumber, restaurant.name, restaurant.logo, notificationPermission]);
+
+  const requestNotifications = async () => {
+    if (notificationPermission === 'unsupported') return;
+    const permission = await Notification.requestPermission();
+    setNotificationPermission(permission);
+  };
+
+  return (
+    <div className="min-h-screen bg-gray-50">
+      {/* Header */}
+      <div className="w-full shadow-sm sticky top-0 z-50 bg-white">
+        <div className="max-w-2xl mx-auto px-4 py-4 flex items-center justify-between">
+          <button
+            onClick={() => navigate(restaurant._id ? `/waiter/restaurant/${restaurant._id}/menu` : '/waiter/restaurants')}
+            className="w-10 h-10 rounded-full bg-gray-100 hover:bg-gray-200 flex items-center justify-center transition-colors"
+          >
+            <i className="ri-arrow-left-line text-xl text-gray-700"></i>
+          </button>
+          <div className="text-center">
+            <h1 className="text-lg font-bold text-gray-900">Order #{order.orderNumber}</h1>
+            {restaurant.name && <p className="text-xs text-gray-500">{restaurant.name}</p>}
+          </div>
+          <div className={`flex items-center gap-1 px-2 py-1 rounded-full text-xs font-medium ${
+            isConnected ? 'bg-green-100 text-green-700' : 'bg-yellow-100 text-yellow-700'
+          }`}>
+            <div className={`w-2 h-2 rounded-full ${isConnected ? 'bg-green-500 animate-pulse' : 'bg-yellow-500'}`}></div>
+            {isConnected ? 'Live' : 'Syncing'}
+          </div>
+        </div>
+      </div>
+
+      <div className="max-w-2xl mx-auto px-4 py-6 space-y-4">
+        {/* Ready Banner */}
+        {showReadyBanner && order.status === 'ready' && (
+          <div className="bg-green-500 text-white rounded-2xl p-5 shadow-lg flex items-center gap-4 animate-bounce">
+            <i className="ri-notification-3-fill text-3xl"></i>
+            <div className="flex-1">
+              <p className="font-bold text-lg">Your order is ready!</p>
+              <p className="text-sm opacity-90">
+                {order.table ? 'It is on its way to your table.' : 'Please collect it at the counter.'}
+              </p>
+            </div>
+            <button onClick={() => setShowReadyBanner(false)} className="p-1">
+              <i className="ri-close-line text-xl"></i>
+            </button>
+          </div>
+        )}
+
+        {/* Estimated Time */}
+        {!isCancelled && currentStep < getStepIndex('ready') && (
+          <div className="bg-white rounded-2xl shadow-sm p-5 flex items-center gap-4">
+            <div className="w-14 h-14 rounded-full flex items-center justify-center" style={{ backgroundColor: `${primaryColor}20` }}>
+              <i className="ri-time-line text-2xl" style={{ color: primaryColor }}></i>
+            </div>
+            <div>
+              <p className="text-sm text-gray-500">Estimated ready time</p>
+              <p className="text-2xl font-bold text-gray-900">{formatTime(estimatedReadyAt)}</p>
+            </div>
+          </div>
+        )}
+
+        {/* Timeline */}
+        <div className="bg-white rounded-2xl shadow-sm p-5">
+          {isCancelled ? (
+            <div className="text-center py-6">
+              <i className="ri-close-circle-line text-5xl text-red-500"></i>
+              <p className="text-lg font-bold text-gray-900 mt-2">Order cancelled</p>
+              <p className="text-sm text-gray-500">Please contact the restaurant staff for help.</p>
+            </div>
+          ) : (
+            <ol className="space-y-0">
+              {TRACKING_STEPS.map((step, index) => {
+                const isDone = index < currentStep;
+                const isCurrent = index === currentStep;
+                return (
+                  <li key={step.status} className="flex gap-4">
+                    <div className="flex flex-col items-center">
+                      <div
+                        className={`w-10 h-10 rounded-full flex items-center justify-center text-white ${isCurrent ? 'ring-4 ring-offset-2' : ''}`}
+                        style={{
+                          backgroundColor: isDone || isCurrent ? primaryColor : '#E5E7EB',
+                          ['--tw-ring-color' as string]: `${primaryColor}40`
+                        }}
+                      >
+                        <i className={`${isDone ? 'ri-check-line' : step.icon} ${isDone || isCurrent ? '' : 'text-gray-400'}`}></i>
+                      </div>
+                      {index < TRACKING_STEPS.length - 1 && (
+                        <div className="w-0.5 flex-1 min-h-8" style={{ backgroundColor: isDone ? primaryColor : '#E5E7EB' }}></div>
+                      )}
+                    </div>
+                    <div className="pb-6">
+                      <p className={`font-semibold ${isDone || isCurrent ? 'text-gray-900' : 'text-gray-400'}`}>{step.label}</p>
+                      {isCurrent && <p className="text-sm text-gray-500">{step.description}</p>}
+                    </div>
+                  </li>
+                );
+              })}
+            </ol>
+          )}
+        </div>
+
+        {/* Notifications */}
+        {notificationPermission === 'default' && !isCancelled && currentStep < getStepIndex('ready') && (
+          <button
+            onClick={requestNotifications}
+            className="w-full bg-white rounded-2xl shadow-sm p-4 flex items-center justify-center gap-2 font-semibold text-gray-700 hover:bg-gray-50 transition-colors"
+          >
+            <i className="ri-notification-3-line" style={{ color: primaryColor }}></i>
+            Notify me when it's ready
+          </button>
+        )}
+
+        {/* Order Summary */}
+        <div className="bg-white rounded-2xl shadow-sm p-5">
+          <h3 className="font-semibold text-gray-900 mb-3">Order Summary</h3>
+          <div className="space-y-2">
+            {order.items.map((item, index) => (
+              <div key={item._id || index} className="flex justify-between text-sm">
+                <span className="text-gray-700">
+                  {item.quantity}x {item.menuItem?.name || 'Item'}
+                  {isTakeawayItem(item) && (
+                    <span className="text-xs text-gray-500 ml-1">(Takeaway)</span>
+                  )}
+                  {getItemNote(item) && (
+                    <span className="block text-xs text-gray-500 italic">{getItemNote(item)}</span>
+                  )}
+                  {item.modifiers && item.modifiers.length > 0 && (
+                    <span className="block text-xs text-gray-500">{formatModifiers(item.modifiers)}</span>
+                  )}
+                </span>
+                <span className="font-medium">{(item.price * item.quantity).toLocaleString()} CFA</span>
+              </div>
+            ))}
+          </div>
+          <div className="flex justify-between mt-3 pt-3 border-t border-gray-200 font-bold">
+            <span>Total</span>
+            <span style={{ color: primaryColor }}>{order.totalAmount.toLocaleString()} CFA</span>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default OrderTracking;
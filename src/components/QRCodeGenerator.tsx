@@ -1,7 +1,17 @@
-import React, { useState, useEffect } from 'react';
+import React, { useState, useEffect, useMemo } from 'react';
 import { useAuth } from '../contexts/AuthContext';
 import { menuService } from '../services/menu';
-import type { MenuItem, Category } from '../types';
+import { tableService } from '../services/tables';
+import { getApiErrorMessage } from '../services/api';
+import { encodeQR, drawQRToCanvas, qrToSvg, qrToSvgDataUrl, QR_RECOVERY } from '../services/qrcode';
+import type { QRErrorCorrectionLevel } from '../services/qrcode';
+import { parseTableList, buildQRSheetHtml } from '../services/qrSheet';
+import { getZones, getTableZone, compareByFloorPosition } from '../services/floorPlan';
+import type { PaperSize } from '../services/qrSheet';
+import { printHtml } from '../services/print';
+import { createZip } from '../services/zip';
+import type { ZipEntry } from '../services/zip';
+import type { MenuItem, Category, Table, UpdateTableData } from '../types';
 import { useToast } from '../contexts/ToastContext';
 
 // QR Code Generator Skeleton Loader
@@ -110,10 +120,140 @@ interface QRCodeData {
   generatedAt: string;
   tableNumber: string;
   title: string;
+  errorCorrection: QRErrorCorrectionLevel;
+  // Set for codes stored on a Table record
+  tableId?: string;
+  zone?: string;
 }
 
+const TABLE_STATUSES: Table['status'][] = ['available', 'occupied', 'reserved', 'maintenance'];
+
+const TABLE_STATUS_COLORS: Record<Table['status'], string> = {
+  available: 'bg-emerald-100 text-emerald-700',
+  occupied: 'bg-amber-100 text-amber-700',
+  reserved: 'bg-blue-100 text-blue-700',
+  maintenance: 'bg-gray-200 text-gray-700'
+};
+
+const getTableId = (table: Table) => table._id || table.id;
+
+// Signed token carried by a table's stored QR link
+const getTableToken = (table?: Table) => {
+  if (!table?.qrCode) return null;
+  try {
+    return new URL(table.qrCode).searchParams.get('t');
+  } catch {
+    return null;
+  }
+};
+
+const compareTables = (a: Table, b: Table) =>
+  String(a.tableNumber).localeCompare(String(b.tableNumber), undefined, { numeric: true });
+
+const ERROR_CORRECTION_OPTIONS: { level: QRErrorCorrectionLevel; label: string }[] = [
+  { level: 'L', label: 'Low' },
+  { level: 'M', label: 'Medium' },
+  { level: 'Q', label: 'Quartile' },
+  { level: 'H', label: 'High' }
+];
+
+// The logo hides the centre of the code, so it needs Q or H to still scan
+const canOverlayLogo = (level: QRErrorCorrectionLevel) => QR_RECOVERY[level] >= QR_RECOVERY.Q;
+
+const getFileName = (qr: QRCodeData, extension: string, copy?: number) =>
+  `qr-${qr.title.toLowerCase().replace(/[^a-z0-9]/g, '-')}${copy ? `-${copy}` : ''}.${extension}`;
+
+const saveBlob = (blob: Blob, filename: string) => {
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = filename;
+  document.body.appendChild(link);
+  link.click();
+  document.body.removeChild(link);
+  URL.revokeObjectURL(url);
+};
+
+const renderQRCodeSvg = (qr: QRCodeData, logo?: string) =>
+  qrToSvg(encodeQR(qr.url, qr.errorCorrection), { logoUrl: logo && canOverlayLogo(qr.errorCorrection) ? logo : undefined });
+
+// Titled PNG card with the logo over the centre of the code
+const renderQRCodePng = async (qr: QRCodeData, logo?: string): Promise<Blob> => {
+  const canvas = document.createElement('canvas');
+  const ctx = canvas.getContext('2d');
+  if (!ctx) {
+    throw new Error('Canvas not supported');
+  }
+
+  const qrSize = 400;
+  const logoSize = 80;
+  const padding = 20;
+  const titleHeight = 60;
+  const totalHeight = qrSize + titleHeight + padding * 3;
+  
+  canvas.width = qrSize + padding * 2;
+  canvas.height = totalHeight;
+
+  ctx.fillStyle = '#ffffff';
+  ctx.fillRect(0, 0, canvas.width, canvas.height);
+
+  drawQRToCanvas(ctx, encodeQR(qr.url, qr.errorCorrection), padding, padding + titleHeight, qrSize);
+
+  if (logo && canOverlayLogo(qr.errorCorrection)) {
+    const logoImage = new Image();
+    logoImage.crossOrigin = 'anonymous';
+    logoImage.src = logo;
+
+    await new Promise((resolve) => {
+      logoImage.onload = resolve;
+      logoImage.onerror = resolve;
+    });
+
+    const logoX = (canvas.width - logoSize) / 2;
+    const logoY = padding + titleHeight + (qrSize - logoSize) / 2;
+
+    ctx.fillStyle = '#ffffff';
+    ctx.fillRect(logoX - 5, logoY - 5, logoSize + 10, logoSize + 10);
+    ctx.drawImage(logoImage, logoX, logoY, logoSize, logoSize);
+  }
+
+  ctx.fillStyle = '#1f2937';
+  ctx.font = 'bold 24px system-ui, -apple-system, sans-serif';
+  ctx.textAlign = 'center';
+  ctx.fillText(qr.title, canvas.width / 2, padding + 35);
+
+  return new Promise((resolve, reject) => {
+    canvas.toBlob((blob) => {
+      if (blob) {
+        resolve(blob);
+      } else {
+        reject(new Error('Failed to generate QR code image'));
+      }
+    }, 'image/png');
+  });
+};
+
+const QRCodePreview: React.FC<{ qr: QRCodeData; logo?: string }> = ({ qr, logo }) => {
+  const src = useMemo(() => qrToSvgDataUrl(encodeQR(qr.url, qr.errorCorrection)), [qr.url, qr.errorCorrection]);
+
+  return (
+    <div className="relative inline-block w-full">
+      <img src={src} alt={qr.title} className="w-full rounded-lg" />
+      {logo && canOverlayLogo(qr.errorCorrection) && (
+        <div className="absolute top-1/2 left-1/2 -translate-x-1/2 -translate-y-1/2 bg-white p-2 rounded-lg shadow-lg border-2 border-gray-200">
+          <img
+            src={logo}
+            alt="Logo"
+            className="w-12 h-12 object-contain"
+          />
+        </div>
+      )}
+    </div>
+  );
+};
+
 const QRCodeGenerator: React.FC = () => {
-  const { user } = useAuth();
+  const { user, restaurant } = useAuth();
   const { showSuccess, showError } = useToast();
   const [activeTab, setActiveTab] = useState<'table' | 'category' | 'item'>('table');
   const [categories, setCategories] = useState<Category[]>([]);
@@ -124,9 +264,19 @@ const QRCodeGenerator: React.FC = () => {
   const [generatedQRs, setGeneratedQRs] = useState<QRCodeData[]>([]);
   const [loading, setLoading] = useState<boolean>(true);
   const [baseUrl, setBaseUrl] = useState<string>('');
+  const [errorCorrection, setErrorCorrection] = useState<QRErrorCorrectionLevel>('H');
+  const [paperSize, setPaperSize] = useState<PaperSize>('a4');
+  const [exporting, setExporting] = useState<boolean>(false);
+  const [tables, setTables] = useState<Table[]>([]);
+  const [savingTables, setSavingTables] = useState<boolean>(false);
+  // Blank fields keep an existing table's values
+  const [tableCapacity, setTableCapacity] = useState<string>('');
+  const [tableLocation, setTableLocation] = useState<string>('');
+  const [tableStatus, setTableStatus] = useState<Table['status'] | ''>('');
 
   useEffect(() => {
     loadMenuData();
+    loadTables();
     setBaseUrl(`${window.location.origin}/waiter`);
   }, []);
 
@@ -176,7 +326,104 @@ const QRCodeGenerator: React.FC = () => {
     }
   };
 
-  const generateQRCode = (): void => {
+  const loadTables = async () => {
+    try {
+      const tables = await tableService.getTables();
+      setTables([...tables].sort(compareTables));
+    } catch (error) {
+      showError(`Failed to load tables: ${getApiErrorMessage(error)}`);
+    }
+  };
+
+  // Replace updated tables and append new ones
+  const mergeTables = (saved: Table[]) => {
+    setTables(prev => {
+      const next = prev.map(table => saved.find(s => getTableId(s) === getTableId(table)) || table);
+      saved.forEach((table) => {
+        if (!next.some(t => getTableId(t) === getTableId(table))) next.push(table);
+      });
+      return next.sort(compareTables);
+    });
+  };
+
+  const getMenuUrl = (restaurantId: string, params: URLSearchParams) =>
+    `${baseUrl}/restaurant/${restaurantId}/menu?${params.toString()}`;
+
+  // Sign a fresh token for the table and store the link it goes into
+  const issueTableQR = async (restaurantId: string, table: Table): Promise<Table> => {
+    const { token } = await tableService.issueQrToken(getTableId(table));
+    return tableService.updateTable(getTableId(table), {
+      qrCode: getMenuUrl(restaurantId, new URLSearchParams({ t: token }))
+    });
+  };
+
+  // Table codes are stored on the restaurant's Table records, created on first use. A table
+  // that already has a code keeps it, so copies printed for it go on working; Regenerate replaces it.
+  const saveTableQRs = async (restaurantId: string, tableNames: string[]) => {
+    const details: UpdateTableData = {};
+    if (tableCapacity) details.capacity = parseInt(tableCapacity, 10);
+    if (tableLocation.trim()) details.location = tableLocation.trim();
+    if (tableStatus) details.status = tableStatus;
+
+    setSavingTables(true);
+    const saved: Table[] = [];
+    let failed = 0;
+    for (const tableName of tableNames) {
+      const existing = tables.find(table => String(table.tableNumber) === tableName);
+      try {
+        const table = existing
+          ? await tableService.updateTable(getTableId(existing), details)
+          : await tableService.addTable({
+            restaurant: restaurantId,
+            tableNumber: tableName,
+            capacity: details.capacity || 4,
+            status: details.status || 'available',
+            location: details.location
+          });
+        const qrCode = table.qrCode || existing?.qrCode;
+        saved.push(qrCode ? { ...table, qrCode } : await issueTableQR(restaurantId, table));
+      } catch (error) {
+        console.error(`Failed to save table ${tableName}:`, error);
+        failed++;
+      }
+    }
+    mergeTables(saved);
+    setSavingTables(false);
+
+    if (failed > 0) {
+      showError(`${failed} of ${tableNames.length} tables could not be saved`);
+    } else {
+      showSuccess(tableNames.length === 1 ? 'QR code saved to table!' : `${tableNames.length} table QR codes saved!`);
+    }
+  };
+
+  const regenerateTableQR = async (table: Table): Promise<void> => {
+    const restaurantId = user?.restaurant?.id || user?.restaurant?._id;
+    if (!restaurantId) return;
+
+    try {
+      const updated = await issueTableQR(restaurantId, table);
+      mergeTables([updated]);
+      showSuccess(`QR code regenerated for Table ${table.tableNumber}`);
+    } catch (error) {
+      showError(`Failed to regenerate QR code: ${getApiErrorMessage(error)}`);
+    }
+  };
+
+  const revokeTableQR = async (table: Table): Promise<void> => {
+    if (!confirm(`Revoke the QR code for Table ${table.tableNumber}? Printed copies will stop working and you will need to generate a new one.`)) return;
+
+    try {
+      await tableService.revokeQrToken(getTableId(table));
+      const updated = await tableService.updateTable(getTableId(table), { qrCode: null });
+      mergeTables([updated]);
+      showSuccess(`QR code revoked for Table ${table.tableNumber}`);
+    } catch (error) {
+      showError(`Failed to revoke QR code: ${getApiErrorMessage(error)}`);
+    }
+  };
+
+  const generateQRCode = async (): Promise<void> => {
     const restaurantId = user?.restaurant?.id || (user?.restaurant as any)?._id;
     
     if (!restaurantId) {
@@ -189,19 +436,20 @@ const QRCodeGenerator: React.FC = () => {
       return;
     }
 
-    let url = '';
-    let name = '';
-    let title = '';
-    let type: 'table' | 'category' | 'item' = 'table';
-    const params = new URLSearchParams();
+    let tableNames: string[];
+    try {
+      tableNames = parseTableList(tableNumber);
+    } catch (error) {
+      showError(error instanceof Error ? error.message : 'Invalid table list');
+      return;
+    }
 
-    params.append('table', tableNumber.trim());
+    let type: 'table' | 'category' | 'item' = 'table';
+    let category: Category | undefined;
+    let item: MenuItem | undefined;
 
     switch (activeTab) {
       case 'table':
-        url = `${baseUrl}/restaurant/${restaurantId}/menu?${params.toString()}`;
-        name = `Table ${tableNumber}`;
-        title = `Table ${tableNumber}`;
         type = 'table';
         break;
 
@@ -210,12 +458,8 @@ const QRCodeGenerator: React.FC = () => {
           showError('Please select a category');
           return;
         }
-        const category = categories.find(c => c.id === selectedCategory);
+        category = categories.find(c => c.id === selectedCategory);
         if (!category) return;
-        params.append('category', category.id);
-        url = `${baseUrl}/restaurant/${restaurantId}/menu?${params.toString()}`;
-        name = `${category.name} (Table ${tableNumber})`;
-        title = `Table ${tableNumber} - ${category.name}`;
         type = 'category';
         break;
 
@@ -224,109 +468,145 @@ const QRCodeGenerator: React.FC = () => {
           showError('Please select a menu item');
           return;
         }
-        const item = menuItems.find(m => m.id === selectedItem);
+        item = menuItems.find(m => m.id === selectedItem);
         if (!item) return;
-        params.append('item', item.id);
-        url = `${baseUrl}/restaurant/${restaurantId}/menu?${params.toString()}`;
-        name = `${item.name} (Table ${tableNumber})`;
-        title = `Table ${tableNumber} - ${item.name}`;
         type = 'item';
         break;
     }
 
-    const newQR: QRCodeData = {
-      type,
-      id: Date.now().toString(),
-      name,
-      url,
-      title,
-      generatedAt: new Date().toISOString(),
-      tableNumber: tableNumber.trim()
-    };
-
-    setGeneratedQRs(prev => [newQR, ...prev]);
-    setSelectedCategory('');
-    setSelectedItem('');
-    showSuccess('QR code generated successfully!');
-  };
+    if (type === 'table') {
+      await saveTableQRs(restaurantId, tableNames);
+      return;
+    }
 
-  const downloadQRCode = async (qr: QRCodeData): Promise<void> => {
-    try {
-      const canvas = document.createElement('canvas');
-      const ctx = canvas.getContext('2d');
-      if (!ctx) {
-        showError('Canvas not supported');
-        return;
-      }
+    // Category and item codes reuse the table's signed token
+    const missing = tableNames.filter(name => !getTableToken(tables.find(table => String(table.tableNumber) === name)));
+    if (missing.length > 0) {
+      showError(`Generate a table QR code first for: ${missing.map(name => `Table ${name}`).join(', ')}`);
+      return;
+    }
 
-      const qrSize = 400;
-      const logoSize = 80;
-      const padding = 20;
-      const titleHeight = 60;
-      const totalHeight = qrSize + titleHeight + padding * 3;
-      
-      canvas.width = qrSize + padding * 2;
-      canvas.height = totalHeight;
-
-      ctx.fillStyle = '#ffffff';
-      ctx.fillRect(0, 0, canvas.width, canvas.height);
-
-      const qrImage = new Image();
-      qrImage.crossOrigin = 'anonymous';
-      qrImage.src = `https://api.qrserver.com/v1/create-qr-code/?size=400x400&data=${encodeURIComponent(qr.url)}&margin=10`;
-
-      await new Promise((resolve, reject) => {
-        qrImage.onload = resolve;
-        qrImage.onerror = reject;
-      });
+    const generatedAt = new Date().toISOString();
+    const newQRs: QRCodeData[] = tableNames.map((table, index) => {
+      const params = new URLSearchParams();
+      params.append('t', getTableToken(tables.find(t => String(t.tableNumber) === table)) || '');
 
-      ctx.drawImage(qrImage, padding, padding + titleHeight, qrSize, qrSize);
+      let name = `Table ${table}`;
+      let title = `Table ${table}`;
+      if (category) {
+        params.append('category', category.id);
+        name = `${category.name} (Table ${table})`;
+        title = `Table ${table} - ${category.name}`;
+      } else if (item) {
+        params.append('item', item.id);
+        name = `${item.name} (Table ${table})`;
+        title = `Table ${table} - ${item.name}`;
+      }
 
-      if (user?.restaurant?.logo) {
-        const logoImage = new Image();
-        logoImage.crossOrigin = 'anonymous';
-        logoImage.src = user.restaurant.logo;
+      return {
+        type,
+        id: `${Date.now()}_${index}`,
+        name,
+        url: getMenuUrl(restaurantId, params),
+        title,
+        generatedAt,
+        tableNumber: table,
+        errorCorrection
+      };
+    });
 
-        await new Promise((resolve) => {
-          logoImage.onload = resolve;
-          logoImage.onerror = resolve;
-        });
+    setGeneratedQRs(prev => [...newQRs, ...prev]);
+    setSelectedCategory('');
+    setSelectedItem('');
+    showSuccess(newQRs.length === 1 ? 'QR code generated successfully!' : `${newQRs.length} QR codes generated successfully!`);
+  };
 
-        const logoX = (canvas.width - logoSize) / 2;
-        const logoY = padding + titleHeight + (qrSize - logoSize) / 2;
+  const floorZones = useMemo(() => getZones(restaurant?.floorPlan, tables), [restaurant?.floorPlan, tables]);
 
-        ctx.fillStyle = '#ffffff';
-        ctx.fillRect(logoX - 5, logoY - 5, logoSize + 10, logoSize + 10);
-        ctx.drawImage(logoImage, logoX, logoY, logoSize, logoSize);
-      }
+  // Links saved before tables had signed tokens are left out; they no longer open the menu.
+  // Sorted by floor plan so printed sheets can be handed out zone by zone.
+  const tableQRs = useMemo(() => tables
+    .filter(table => getTableToken(table))
+    .sort(compareByFloorPosition(floorZones))
+    .map((table): QRCodeData => ({
+      type: 'table',
+      id: getTableId(table),
+      tableId: getTableId(table),
+      name: `Table ${table.tableNumber}`,
+      url: table.qrCode || '',
+      title: `Table ${table.tableNumber}`,
+      generatedAt: table.updatedAt || '',
+      tableNumber: String(table.tableNumber),
+      errorCorrection,
+      zone: floorZones.length > 1 ? getTableZone(table) : undefined
+    })), [tables, floorZones, errorCorrection]);
 
-      ctx.fillStyle = '#1f2937';
-      ctx.font = 'bold 24px system-ui, -apple-system, sans-serif';
-      ctx.textAlign = 'center';
-      ctx.fillText(qr.title, canvas.width / 2, padding + 35);
+  // Unsaved category and item codes first, then every table's stored code
+  const allQRs = useMemo(() => [...generatedQRs, ...tableQRs], [generatedQRs, tableQRs]);
 
-      canvas.toBlob((blob) => {
-        if (!blob) {
-          showError('Failed to generate QR code image');
-          return;
-        }
-        const url = URL.createObjectURL(blob);
-        const link = document.createElement('a');
-        link.href = url;
-        link.download = `qr-${qr.title.toLowerCase().replace(/[^a-z0-9]/g, '-')}.png`;
-        document.body.appendChild(link);
-        link.click();
-        document.body.removeChild(link);
-        URL.revokeObjectURL(url);
-        showSuccess('QR code downloaded successfully!');
-      }, 'image/png');
+  const downloadQRCode = async (qr: QRCodeData): Promise<void> => {
+    try {
+      const blob = await renderQRCodePng(qr, user?.restaurant?.logo);
+      saveBlob(blob, getFileName(qr, 'png'));
+      showSuccess('QR code downloaded successfully!');
+    } catch (error) {
+      console.error('Download error:', error);
+      showError('Failed to download QR code');
+    }
+  };
 
+  const downloadQRCodeSvg = (qr: QRCodeData): void => {
+    try {
+      const svg = renderQRCodeSvg(qr, user?.restaurant?.logo);
+      saveBlob(new Blob([svg], { type: 'image/svg+xml' }), getFileName(qr, 'svg'));
+      showSuccess('QR code downloaded successfully!');
     } catch (error) {
       console.error('Download error:', error);
       showError('Failed to download QR code');
     }
   };
 
+  const printQRSheet = (): void => {
+    try {
+      const cards = allQRs.map(qr => ({ title: qr.title, subtitle: qr.zone, svg: renderQRCodeSvg(qr, user?.restaurant?.logo) }));
+      printHtml(buildQRSheetHtml(cards, {
+        paperSize,
+        restaurantName: user?.restaurant?.name,
+        logoUrl: user?.restaurant?.logo
+      }));
+    } catch (error) {
+      console.error('Print error:', error);
+      showError('Failed to prepare QR sheet');
+    }
+  };
+
+  const downloadQRZip = async (format: 'png' | 'svg'): Promise<void> => {
+    setExporting(true);
+    try {
+      const encoder = new TextEncoder();
+      const usedNames = new Set<string>();
+      const entries: ZipEntry[] = [];
+      for (const qr of allQRs) {
+        // Same title twice (e.g. a regenerated table) would overwrite in the archive
+        let name = getFileName(qr, format);
+        for (let n = 2; usedNames.has(name); n++) name = getFileName(qr, format, n);
+        usedNames.add(name);
+
+        const data = format === 'png'
+          ? new Uint8Array(await (await renderQRCodePng(qr, user?.restaurant?.logo)).arrayBuffer())
+          : encoder.encode(renderQRCodeSvg(qr, user?.restaurant?.logo));
+        entries.push({ name, data });
+      }
+      saveBlob(createZip(entries), `qr-codes-${format}.zip`);
+      showSuccess(`${entries.length} QR codes exported`);
+    } catch (error) {
+      console.error('Export error:', error);
+      showError('Failed to export QR codes');
+    } finally {
+      setExporting(false);
+    }
+  };
+
   const copyToClipboard = (text: string): void => {
     navigator.clipboard.writeText(text).then(() => {
       showSuccess('URL copied to clipboard!');
@@ -355,7 +635,7 @@ const QRCodeGenerator: React.FC = () => {
               <p className="text-sm text-gray-500 mt-0.5">Create QR codes for your restaurant</p>
             </div>
             <button
-              onClick={loadMenuData}
+              onClick={() => { loadMenuData(); loadTables(); }}
               className="w-10 h-10 lg:w-auto lg:px-4 lg:h-10 flex items-center justify-center rounded-full lg:rounded-xl bg-gray-100 hover:bg-gray-200 transition-colors lg:gap-2"
             >
               <i className="ri-refresh-line text-xl text-gray-700"></i>
@@ -403,7 +683,7 @@ const QRCodeGenerator: React.FC = () => {
                 {/* Table Number */}
                 <div>
                   <label className="block text-sm font-semibold text-gray-700 mb-2">
-                    Table Number / Name <span className="text-red-500">*</span>
+                    Table Numbers / Names <span className="text-red-500">*</span>
                   </label>
                   <div className="relative">
                     <i className="ri-table-2-line absolute left-4 top-1/2 -translate-y-1/2 text-gray-400"></i>
@@ -411,13 +691,56 @@ const QRCodeGenerator: React.FC = () => {
                       type="text"
                       value={tableNumber}
                       onChange={(e) => setTableNumber(e.target.value)}
-                      placeholder="e.g., Table 5, A1, Patio"
+                      placeholder="e.g., 5, 1-40, Terrace A-F, Patio"
                       className="w-full pl-12 pr-4 py-3 border-2 border-gray-200 rounded-xl focus:border-blue-500 focus:ring-4 focus:ring-blue-100 transition-all outline-none"
                     />
                   </div>
-                  <p className="text-xs text-gray-500 mt-1.5">This identifies the customer's location</p>
+                  <p className="text-xs text-gray-500 mt-1.5">This identifies the customer's location. Use ranges or commas to generate several at once</p>
                 </div>
 
+                {/* Table Details */}
+                {activeTab === 'table' && (
+                  <div className="grid grid-cols-3 gap-3">
+                    <div>
+                      <label className="block text-sm font-semibold text-gray-700 mb-2">Seats</label>
+                      <input
+                        type="number"
+                        min="1"
+                        value={tableCapacity}
+                        onChange={(e) => setTableCapacity(e.target.value)}
+                        placeholder="4"
+                        className="w-full px-4 py-3 border-2 border-gray-200 rounded-xl focus:border-blue-500 focus:ring-4 focus:ring-blue-100 transition-all outline-none"
+                      />
+                    </div>
+                    <div>
+                      <label className="block text-sm font-semibold text-gray-700 mb-2">Location</label>
+                      <input
+                        type="text"
+                        value={tableLocation}
+                        onChange={(e) => setTableLocation(e.target.value)}
+                        placeholder="e.g., Terrace"
+                        className="w-full px-4 py-3 border-2 border-gray-200 rounded-xl focus:border-blue-500 focus:ring-4 focus:ring-blue-100 transition-all outline-none"
+                      />
+                    </div>
+                    <div>
+                      <label className="block text-sm font-semibold text-gray-700 mb-2">Status</label>
+                      <select
+                        value={tableStatus}
+                        onChange={(e) => setTableStatus(e.target.value as Table['status'] | '')}
+                        className="w-full px-3 py-3 border-2 border-gray-200 rounded-xl focus:border-blue-500 focus:ring-4 focus:ring-blue-100 transition-all outline-none bg-white capitalize"
+                      >
+                        <option value="">Keep current</option>
+                        {TABLE_STATUSES.map(status => (
+                          <option key={status} value={status}>{status}</option>
+                        ))}
+                      </select>
+                    </div>
+                    <p className="col-span-3 text-xs text-gray-500 -mt-1">
+                      Table codes are saved to your tables. Leave a field blank to keep an existing table's value
+                    </p>
+                  </div>
+                )}
+
                 {/* Category Selection */}
                 {activeTab === 'category' && (
                   <div>
@@ -468,22 +791,108 @@ const QRCodeGenerator: React.FC = () => {
                   </div>
                 )}
 
+                {/* Error Correction */}
+                <div>
+                  <label className="block text-sm font-semibold text-gray-700 mb-2">
+                    Error Correction
+                  </label>
+                  <div className="grid grid-cols-4 gap-2">
+                    {ERROR_CORRECTION_OPTIONS.map(({ level, label }) => (
+                      <button
+                        key={level}
+                        type="button"
+                        onClick={() => setErrorCorrection(level)}
+                        className={`py-2 rounded-xl border-2 text-sm font-semibold transition-all ${
+                          errorCorrection === level
+                            ? 'border-blue-500 bg-blue-50 text-blue-700'
+                            : 'border-gray-200 text-gray-600 hover:border-gray-300'
+                        }`}
+                      >
+                        <span className="block">{label}</span>
+                        <span className="block text-xs font-normal">{Math.round(QR_RECOVERY[level] * 100)}%</span>
+                      </button>
+                    ))}
+                  </div>
+                  <p className="text-xs text-gray-500 mt-1.5">
+                    {user?.restaurant?.logo && !canOverlayLogo(errorCorrection)
+                      ? 'Your logo is only placed on codes with Quartile or High correction'
+                      : 'Higher levels survive scratches and the logo overlay, but make denser codes'}
+                  </p>
+                </div>
+
                 {/* Generate Button */}
                 <button
                   onClick={generateQRCode}
                   disabled={
+                    savingTables ||
                     !tableNumber.trim() ||
                     (activeTab === 'category' && !selectedCategory) ||
                     (activeTab === 'item' && !selectedItem)
                   }
                   className="w-full py-4 px-6 bg-gradient-to-r from-blue-600 to-blue-700 hover:from-blue-700 hover:to-blue-800 disabled:from-gray-300 disabled:to-gray-400 disabled:cursor-not-allowed text-white rounded-xl font-bold transition-all shadow-lg shadow-blue-200 disabled:shadow-none flex items-center justify-center gap-3"
                 >
-                  <i className="ri-qr-scan-2-line text-xl"></i>
-                  Generate QR Code
+                  <i className={`${savingTables ? 'ri-loader-4-line animate-spin' : 'ri-qr-scan-2-line'} text-xl`}></i>
+                  {savingTables ? 'Saving Tables...' : 'Generate QR Code'}
                 </button>
               </div>
             </div>
 
+            {/* Restaurant Tables */}
+            <div className="bg-white rounded-2xl shadow-sm border border-gray-200 p-6">
+              <div className="flex items-center justify-between mb-4">
+                <h2 className="text-lg font-bold text-gray-900 flex items-center gap-2">
+                  <i className="ri-table-2-line text-blue-600"></i>
+                  Restaurant Tables
+                </h2>
+                <span className="text-sm text-gray-500">
+                  {tableQRs.length}/{tables.length} with codes
+                </span>
+              </div>
+
+              {tables.length === 0 ? (
+                <p className="text-sm text-gray-500 text-center py-6">
+                  No tables yet. Generate table QR codes to create them.
+                </p>
+              ) : (
+                <div className="divide-y divide-gray-100 max-h-80 overflow-y-auto -mx-2">
+                  {tables.map((table) => (
+                    <div key={getTableId(table)} className="flex items-center gap-3 px-2 py-3">
+                      <div className="w-10 h-10 rounded-xl bg-blue-50 text-blue-700 font-bold flex items-center justify-center flex-shrink-0">
+                        {table.tableNumber}
+                      </div>
+                      <div className="flex-1 min-w-0">
+                        <div className="flex items-center gap-2">
+                          <span className="font-semibold text-gray-900 truncate">Table {table.tableNumber}</span>
+                          <span className={`px-2 py-0.5 rounded-md text-xs font-semibold capitalize ${TABLE_STATUS_COLORS[table.status] || 'bg-gray-100 text-gray-600'}`}>
+                            {table.status}
+                          </span>
+                        </div>
+                        <p className="text-xs text-gray-500 truncate">
+                          {table.capacity} seats{table.location ? ` · ${table.location}` : ''} · {getTableToken(table) ? 'Code active' : table.qrCode ? 'Outdated code, regenerate it' : 'No code'}
+                        </p>
+                      </div>
+                      <button
+                        onClick={() => regenerateTableQR(table)}
+                        title={table.qrCode ? 'Regenerate code' : 'Generate code'}
+                        className="w-8 h-8 rounded-lg bg-gray-100 hover:bg-blue-100 text-gray-600 hover:text-blue-700 transition-colors flex items-center justify-center"
+                      >
+                        <i className={table.qrCode ? 'ri-refresh-line' : 'ri-qr-code-line'}></i>
+                      </button>
+                      {table.qrCode && (
+                        <button
+                          onClick={() => revokeTableQR(table)}
+                          title="Revoke code"
+                          className="w-8 h-8 rounded-lg bg-gray-100 hover:bg-red-100 text-gray-600 hover:text-red-600 transition-colors flex items-center justify-center"
+                        >
+                          <i className="ri-forbid-line"></i>
+                        </button>
+                      )}
+                    </div>
+                  ))}
+                </div>
+              )}
+            </div>
+
             {/* Tips Section */}
             <div className="bg-white rounded-2xl shadow-sm border border-gray-200 p-6">
               <div className="flex items-start gap-3">
@@ -519,7 +928,7 @@ const QRCodeGenerator: React.FC = () => {
                   <div>
                     <h2 className="text-lg font-bold text-gray-900">Generated QR Codes</h2>
                     <p className="text-sm text-gray-500 mt-0.5">
-                      {generatedQRs.length} {generatedQRs.length === 1 ? 'code' : 'codes'} created
+                      {allQRs.length} {allQRs.length === 1 ? 'code' : 'codes'}{tableQRs.length > 0 ? `, ${tableQRs.length} saved to tables` : ''}
                     </p>
                   </div>
                   {generatedQRs.length > 0 && (
@@ -527,14 +936,56 @@ const QRCodeGenerator: React.FC = () => {
                       onClick={() => setGeneratedQRs([])}
                       className="text-sm text-red-600 hover:text-red-700 font-semibold"
                     >
-                      Clear All
+                      Clear Unsaved
                     </button>
                   )}
                 </div>
+
+                {/* Export */}
+                {allQRs.length > 0 && (
+                  <div className="flex flex-wrap items-center gap-2 mt-4">
+                    <div className="flex bg-gray-100 rounded-xl p-1">
+                      {(['a4', 'letter'] as PaperSize[]).map((size) => (
+                        <button
+                          key={size}
+                          onClick={() => setPaperSize(size)}
+                          className={`px-3 py-1.5 rounded-lg text-xs font-semibold transition-colors ${
+                            paperSize === size ? 'bg-white text-gray-900 shadow-sm' : 'text-gray-500 hover:text-gray-700'
+                          }`}
+                        >
+                          {size === 'a4' ? 'A4' : 'Letter'}
+                        </button>
+                      ))}
+                    </div>
+                    <button
+                      onClick={printQRSheet}
+                      className="px-3 py-2 bg-gray-900 hover:bg-gray-800 text-white rounded-xl font-semibold text-xs transition-colors flex items-center gap-1.5"
+                    >
+                      <i className="ri-printer-line"></i>
+                      Print Sheet
+                    </button>
+                    <button
+                      onClick={() => downloadQRZip('png')}
+                      disabled={exporting}
+                      className="px-3 py-2 bg-white hover:bg-gray-100 disabled:opacity-50 text-gray-900 border border-gray-200 rounded-xl font-semibold text-xs transition-colors flex items-center gap-1.5"
+                    >
+                      <i className="ri-folder-zip-line"></i>
+                      ZIP (PNG)
+                    </button>
+                    <button
+                      onClick={() => downloadQRZip('svg')}
+                      disabled={exporting}
+                      className="px-3 py-2 bg-white hover:bg-gray-100 disabled:opacity-50 text-gray-900 border border-gray-200 rounded-xl font-semibold text-xs transition-colors flex items-center gap-1.5"
+                    >
+                      <i className="ri-folder-zip-line"></i>
+                      ZIP (SVG)
+                    </button>
+                  </div>
+                )}
               </div>
 
               <div className="p-6 max-h-[calc(100vh-300px)] lg:max-h-[calc(100vh-200px)] overflow-y-auto">
-                {generatedQRs.length === 0 ? (
+                {allQRs.length === 0 ? (
                   <div className="text-center py-12">
                     <div className="w-20 h-20 bg-gray-100 rounded-2xl flex items-center justify-center mx-auto mb-4">
                       <i className="ri-qr-code-line text-4xl text-gray-400"></i>
@@ -544,7 +995,7 @@ const QRCodeGenerator: React.FC = () => {
                   </div>
                 ) : (
                   <div className="space-y-4">
-                    {generatedQRs.map((qr) => (
+                    {allQRs.map((qr) => (
                       <div
                         key={qr.id}
                         className={`relative border-2 rounded-2xl p-4 transition-all ${
@@ -566,34 +1017,46 @@ const QRCodeGenerator: React.FC = () => {
                               </span>
                             </div>
                             <h3 className="font-bold text-gray-900">{qr.title}</h3>
-                            <p className="text-sm text-gray-600 mt-0.5">Table: {qr.tableNumber}</p>
+                            <p className="text-sm text-gray-600 mt-0.5">
+                              Table: {qr.tableNumber}{qr.tableId ? ' · Saved to table' : ''}
+                            </p>
                           </div>
-                          <button
-                            onClick={() => deleteQRCode(qr.id)}
-                            className="w-8 h-8 rounded-lg bg-white hover:bg-red-50 text-gray-400 hover:text-red-600 transition-colors flex items-center justify-center"
-                          >
-                            <i className="ri-delete-bin-line"></i>
-                          </button>
+                          {qr.tableId ? (
+                            <div className="flex gap-1">
+                              <button
+                                onClick={() => {
+                                  const table = tables.find(t => getTableId(t) === qr.tableId);
+                                  if (table) regenerateTableQR(table);
+                                }}
+                                title="Regenerate code"
+                                className="w-8 h-8 rounded-lg bg-white hover:bg-blue-50 text-gray-400 hover:text-blue-600 transition-colors flex items-center justify-center"
+                              >
+                                <i className="ri-refresh-line"></i>
+                              </button>
+                              <button
+                                onClick={() => {
+                                  const table = tables.find(t => getTableId(t) === qr.tableId);
+                                  if (table) revokeTableQR(table);
+                                }}
+                                title="Revoke code"
+                                className="w-8 h-8 rounded-lg bg-white hover:bg-red-50 text-gray-400 hover:text-red-600 transition-colors flex items-center justify-center"
+                              >
+                                <i className="ri-forbid-line"></i>
+                              </button>
+                            </div>
+                          ) : (
+                            <button
+                              onClick={() => deleteQRCode(qr.id)}
+                              className="w-8 h-8 rounded-lg bg-white hover:bg-red-50 text-gray-400 hover:text-red-600 transition-colors flex items-center justify-center"
+                            >
+                              <i className="ri-delete-bin-line"></i>
+                            </button>
+                          )}
                         </div>
 
                         {/* QR Code */}
                         <div className="bg-white rounded-xl p-4 mb-4 border-2 border-gray-200">
-                          <div className="relative inline-block w-full">
-                            <img
-                              src={`https://api.qrserver.com/v1/create-qr-code/?size=300x300&data=${encodeURIComponent(qr.url)}&margin=10`}
-                              alt={qr.title}
-                              className="w-full rounded-lg"
-                            />
-                            {user?.restaurant?.logo && (
-                              <div className="absolute top-1/2 left-1/2 -translate-x-1/2 -translate-y-1/2 bg-white p-2 rounded-lg shadow-lg border-2 border-gray-200">
-                                <img
-                                  src={user.restaurant.logo}
-                                  alt="Logo"
-                                  className="w-12 h-12 object-contain"
-                                />
-                              </div>
-                            )}
-                          </div>
+                          <QRCodePreview qr={qr} logo={user?.restaurant?.logo} />
                         </div>
 
                         {/* URL */}
@@ -614,13 +1077,20 @@ const QRCodeGenerator: React.FC = () => {
                         </div>
 
                         {/* Actions */}
-                        <div className="grid grid-cols-2 gap-2">
+                        <div className="grid grid-cols-3 gap-2">
                           <button
                             onClick={() => downloadQRCode(qr)}
                             className="py-2.5 px-4 bg-gray-900 hover:bg-gray-800 text-white rounded-xl font-semibold text-sm transition-colors flex items-center justify-center gap-2"
                           >
                             <i className="ri-download-2-line"></i>
-                            Download
+                            PNG
+                          </button>
+                          <button
+                            onClick={() => downloadQRCodeSvg(qr)}
+                            className="py-2.5 px-4 bg-white hover:bg-gray-100 text-gray-900 border border-gray-200 rounded-xl font-semibold text-sm transition-colors flex items-center justify-center gap-2"
+                          >
+                            <i className="ri-shape-line"></i>
+                            SVG
                           </button>
                           <button
                             onClick={() => window.open(qr.url, '_blank')}
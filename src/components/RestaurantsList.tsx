@@ -1,6 +1,7 @@
 // src/components/RestaurantsList.tsx
 import React, { useState, useEffect } from 'react';
 import { useNavigate } from 'react-router-dom';
+import { publicApi, SERVER_URL } from '../services/api';
 
 interface Restaurant {
   _id: string;
@@ -55,18 +56,7 @@ const RestaurantsList: React.FC<RestaurantsListProps> = ({ onRestaurantSelect })
       setError(null);
       console.log('🔄 Fetching restaurants from API...');
       
-      const response = await fetch('http://localhost:5000/api/restaurants', {
-        method: 'GET',
-        headers: {
-          'Content-Type': 'application/json',
-        },
-      });
-      
-      if (!response.ok) {
-        throw new Error(`HTTP error! status: ${response.status}`);
-      }
-      
-      const data = await response.json();
+      const { data } = await publicApi.get('/restaurants');
       console.log('✅ API Response:', data);
       
       // Handle different response formats
@@ -382,7 +372,7 @@ const RestaurantsList: React.FC<RestaurantsListProps> = ({ onRestaurantSelect })
               <div className="relative h-48 bg-gradient-to-br from-gray-100 to-gray-200 overflow-hidden">
                 {restaurant.logo ? (
                   <img
-                    src={`http://localhost:5000${restaurant.logo}`}
+                    src={`${SERVER_URL}${restaurant.logo}`}
                     alt={restaurant.name}
                     className="w-full h-full object-cover transition-transform duration-300 group-hover:scale-105"
                   />
@@ -0,0 +1,544 @@
+import React, { useState, useEffect, useMemo, useCallback, memo, useRef } from 'react';
+import { useAuth } from '../contexts/AuthContext';
+import { useToast } from '../contexts/ToastContext';
+import { useRealtime, useRealtimeEvent, useRealtimeResync } from '../contexts/RealtimeContext';
+import { orderService, getRemainingBalance, isAwaitingPayment } from '../services/orders';
+import { tableService } from '../services/tables';
+import { getApiErrorMessage } from '../services/api';
+import { getZones, getTableZone } from '../services/floorPlan';
+import FloorPlan from './FloorPlan';
+import FloorPlanEditor from './FloorPlanEditor';
+import type { Order, Table, UpdateTableData } from '../types';
+
+// What the floor view changes on a table
+type TableStateUpdate = Pick<UpdateTableData, 'status' | 'cleanedAt'>;
+
+// What the floor sees: the stored table status plus what its orders say
+type FloorStatus = 'available' | 'occupied' | 'needs_cleaning' | 'reserved' | 'maintenance';
+
+interface FloorTable {
+  table: Table;
+  status: FloorStatus;
+  openOrders: Order[];
+  amountDue: number;
+  seatedAt?: string;
+}
+
+const FLOOR_STATUS_STYLES: Record<FloorStatus, { label: string; icon: string; card: string; badge: string }> = {
+  available: { label: 'Available', icon: 'ri-checkbox-circle-line', card: 'border-emerald-200 bg-emerald-50', badge: 'bg-emerald-100 text-emerald-700' },
+  occupied: { label: 'Occupied', icon: 'ri-group-line', card: 'border-orange-300 bg-orange-50', badge: 'bg-orange-100 text-orange-700' },
+  needs_cleaning: { label: 'Needs Cleaning', icon: 'ri-brush-line', card: 'border-yellow-300 bg-yellow-50', badge: 'bg-yellow-100 text-yellow-800' },
+  reserved: { label: 'Reserved', icon: 'ri-bookmark-line', card: 'border-blue-200 bg-blue-50', badge: 'bg-blue-100 text-blue-700' },
+  maintenance: { label: 'Out of Service', icon: 'ri-tools-line', card: 'border-gray-300 bg-gray-100', badge: 'bg-gray-200 text-gray-700' }
+};
+
+const FLOOR_STATUS_ORDER: FloorStatus[] = ['occupied', 'needs_cleaning', 'reserved', 'available', 'maintenance'];
+
+const getTableId = (table: Table) => table._id || table.id;
+
+// An order keeps its table until it's cancelled, or served and fully paid
+const isOpenOrder = (order: Order) =>
+  order.status !== 'cancelled'
+  && (!['served', 'completed'].includes(order.status) || isAwaitingPayment(order));
+
+const getClosedAt = (order: Order) => order.completedAt || order.paidAt || order.updatedAt;
+
+const belongsToTable = (order: Order, table: Table) =>
+  !!order.table && (order.table._id === getTableId(table) || String(order.table.tableNumber) === String(table.tableNumber));
+
+// A table whose last party left after it was last marked cleaned still needs
+// cleaning. Only the cleaned stamp counts: layout, QR and seat edits also
+// touch updatedAt.
+const getFloorTable = (table: Table, orders: Order[]): FloorTable => {
+  const tableOrders = orders.filter(order => belongsToTable(order, table));
+  const openOrders = tableOrders.filter(isOpenOrder);
+  const amountDue = openOrders.reduce((sum, order) => sum + getRemainingBalance(order), 0);
+
+  if (openOrders.length > 0) {
+    const seatedAt = openOrders.map(order => order.createdAt).sort()[0];
+    return { table, status: 'occupied', openOrders, amountDue, seatedAt };
+  }
+  if (table.status === 'maintenance') {
+    return { table, status: 'maintenance', openOrders, amountDue };
+  }
+
+  const lastClosedAt = tableOrders
+    .filter(order => order.status !== 'cancelled')
+    .map(getClosedAt)
+    .sort()
+    .pop();
+  const lastCleanedAt = table.cleanedAt ? new Date(table.cleanedAt).getTime() : 0;
+  if (lastClosedAt && new Date(lastClosedAt).getTime() > lastCleanedAt) {
+    return { table, status: 'needs_cleaning', openOrders, amountDue };
+  }
+
+  return { table, status: table.status === 'reserved' ? 'reserved' : 'available', openOrders, amountDue };
+};
+
+const formatDuration = (ms: number) => {
+  const minutes = Math.max(0, Math.floor(ms / 60000));
+  return minutes < 60 ? `${minutes} min` : `${Math.floor(minutes / 60)}h ${minutes % 60}m`;
+};
+
+interface TableManagementProps {
+  onOpenOrder: (orderId: string) => void;
+}
+
+const TableManagement: React.FC<TableManagementProps> = ({ onOpenOrder }) => {
+  const { user, restaurant } = useAuth();
+  const { showSuccess, showError } = useToast();
+  const [tables, setTables] = useState<Table[]>([]);
+  const [orders, setOrders] = useState<Order[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [now, setNow] = useState(Date.now());
+  const [statusFilter, setStatusFilter] = useState<FloorStatus | 'all'>('all');
+  const [selectedTableId, setSelectedTableId] = useState<string | null>(null);
+  const [updatingIds, setUpdatingIds] = useState<string[]>([]);
+  const [view, setView] = useState<'grid' | 'plan'>('grid');
+  const [planZone, setPlanZone] = useState<string | null>(null);
+  const [editingLayout, setEditingLayout] = useState(false);
+
+  // Use refs for toast functions to prevent re-renders
+  const toastRef = useRef({ showSuccess, showError });
+
+  useEffect(() => {
+    toastRef.current = { showSuccess, showError };
+  }, [showSuccess, showError]);
+
+  const upsertOrder = useCallback((incoming: Order) => {
+    setOrders(prev => [...prev.filter(order => order._id !== incoming._id), incoming]);
+  }, []);
+
+  const { isConnected } = useRealtime();
+  useRealtimeEvent('new_order', upsertOrder);
+  useRealtimeEvent('order_updated', upsertOrder);
+  useRealtimeEvent('order_paid', upsertOrder);
+
+  // Load tables and orders (silently when resyncing after a reconnect)
+  const loadFloor = useCallback(async (silent = false) => {
+    if (!user) return;
+
+    try {
+      if (!silent) setLoading(true);
+      const [allTables, allOrders] = await Promise.all([
+        tableService.getTables(),
+        orderService.getOrders('all')
+      ]);
+      setTables(allTables);
+      setOrders(allOrders);
+    } catch (error) {
+      console.error('❌ Failed to load floor:', error);
+      toastRef.current.showError(`Failed to load tables: ${getApiErrorMessage(error)}`);
+    } finally {
+      setLoading(false);
+    }
+  }, [user]);
+
+  useEffect(() => {
+    loadFloor();
+  }, [loadFloor]);
+
+  useRealtimeResync(() => loadFloor(true));
+
+  // Seated times only need minute precision
+  useEffect(() => {
+    const interval = window.setInterval(() => setNow(Date.now()), 30000);
+    return () => window.clearInterval(interval);
+  }, []);
+
+  const setTableStatus = useCallback(async (table: Table, update: TableStateUpdate, message: string) => {
+    const tableId = getTableId(table);
+    setUpdatingIds(prev => [...prev, tableId]);
+
+    try {
+      const updated = await tableService.updateTable(tableId, update);
+      // Apply locally too, so a just-cleaned table stops showing as dirty
+      const next = { ...table, ...updated, ...update };
+      setTables(prev => prev.map(t => getTableId(t) === tableId ? next : t));
+      toastRef.current.showSuccess(message);
+    } catch (error) {
+      console.error('❌ Failed to update table:', error);
+      toastRef.current.showError(`Failed to update table: ${getApiErrorMessage(error)}`);
+    } finally {
+      setUpdatingIds(prev => prev.filter(id => id !== tableId));
+    }
+  }, []);
+
+  const floorTables = useMemo(() =>
+    tables
+      .map(table => getFloorTable(table, orders))
+      .sort((a, b) => String(a.table.tableNumber).localeCompare(String(b.table.tableNumber), undefined, { numeric: true })),
+    [tables, orders]
+  );
+
+  const statusCounts = useMemo(() => {
+    const counts = { all: floorTables.length } as Record<FloorStatus | 'all', number>;
+    FLOOR_STATUS_ORDER.forEach(status => {
+      counts[status] = floorTables.filter(floorTable => floorTable.status === status).length;
+    });
+    return counts;
+  }, [floorTables]);
+
+  const floorZones = useMemo(() => getZones(restaurant?.floorPlan, tables), [restaurant?.floorPlan, tables]);
+
+  // Filtered tables grouped by zone, in floor plan order
+  const zones = useMemo(() =>
+    floorZones
+      .map(zone => [
+        zone.name,
+        floorTables.filter(floorTable =>
+          getTableZone(floorTable.table) === zone.name
+          && (statusFilter === 'all' || floorTable.status === statusFilter))
+      ] as [string, FloorTable[]])
+      .filter(([, zoneTables]) => zoneTables.length > 0),
+    [floorZones, floorTables, statusFilter]
+  );
+
+  const activePlanZone = floorZones.find(zone => zone.name === planZone) || floorZones[0];
+  const planTables = floorTables.filter(floorTable => getTableZone(floorTable.table) === activePlanZone.name);
+  const unplacedPlanTables = planTables.filter(floorTable => !floorTable.table.layout);
+
+  const selectedTable = floorTables.find(floorTable => getTableId(floorTable.table) === selectedTableId);
+  const seatedGuests = floorTables
+    .filter(floorTable => floorTable.status === 'occupied')
+    .reduce((sum, floorTable) => sum + (floorTable.table.capacity || 0), 0);
+
+  return (
+    <div className="min-h-screen bg-gray-50">
+      <div className="px-3 sm:px-4 lg:px-6 py-4 sm:py-6 space-y-4">
+
+        {/* Header */}
+        <div className="flex flex-col sm:flex-row sm:items-center justify-between gap-3">
+          <div>
+            <div className="flex items-center gap-2">
+              <i className="ri-layout-grid-line text-green-600 text-2xl"></i>
+              <h1 className="text-2xl sm:text-3xl font-bold text-gray-900">Tables</h1>
+              <div className={`flex items-center gap-1 px-2 py-1 rounded-full text-xs font-medium ${
+                isConnected ? 'bg-green-100 text-green-700' : 'bg-red-100 text-red-700'
+              }`}>
+                <div className={`w-2 h-2 rounded-full ${isConnected ? 'bg-green-500 animate-pulse' : 'bg-red-500'}`}></div>
+                {isConnected ? 'Live' : 'Disconnected'}
+              </div>
+            </div>
+            <p className="text-sm text-gray-500 mt-1">
+              {statusCounts.occupied || 0} of {floorTables.length} tables occupied • up to {seatedGuests} seats in use
+            </p>
+          </div>
+          {!editingLayout && (
+            <div className="flex items-center gap-2 self-start">
+              <div className="flex rounded-xl bg-white border border-gray-200 p-1">
+                {(['grid', 'plan'] as const).map(mode => (
+                  <button
+                    key={mode}
+                    onClick={() => setView(mode)}
+                    className={`px-3 py-1 rounded-lg text-sm font-semibold flex items-center gap-1 transition-colors ${
+                      view === mode ? 'bg-gray-900 text-white' : 'text-gray-600 hover:bg-gray-100'
+                    }`}
+                  >
+                    <i className={mode === 'grid' ? 'ri-grid-line' : 'ri-map-2-line'}></i>
+                    {mode === 'grid' ? 'Grid' : 'Floor Plan'}
+                  </button>
+                ))}
+              </div>
+              <button
+                onClick={() => setEditingLayout(true)}
+                disabled={loading}
+                className="px-4 py-2 rounded-xl bg-white border border-gray-200 hover:bg-gray-100 disabled:opacity-50 transition-colors flex items-center gap-2 text-sm font-semibold text-gray-700"
+              >
+                <i className="ri-pencil-ruler-2-line"></i>
+                <span>Edit Layout</span>
+              </button>
+              <button
+                onClick={() => loadFloor()}
+                className="px-4 py-2 rounded-xl bg-white border border-gray-200 hover:bg-gray-100 transition-colors flex items-center gap-2 text-sm font-semibold text-gray-700"
+              >
+                <i className="ri-refresh-line"></i>
+                <span>Refresh</span>
+              </button>
+            </div>
+          )}
+        </div>
+
+        {editingLayout ? (
+          <FloorPlanEditor
+            tables={tables}
+            onSaved={setTables}
+            onClose={() => setEditingLayout(false)}
+          />
+        ) : (
+        <>
+
+          {/* Status Filters */}
+          <div className="flex overflow-x-auto gap-2 pb-1">
+            {(['all', ...FLOOR_STATUS_ORDER] as (FloorStatus | 'all')[]).map(status => (
+              <button
+                key={status}
+                onClick={() => setStatusFilter(status)}
+                className={`flex items-center gap-2 px-3 py-2 rounded-xl whitespace-nowrap text-sm font-semibold transition-colors ${
+                  statusFilter === status
+                    ? 'bg-gray-900 text-white'
+                    : 'bg-white border border-gray-200 text-gray-600 hover:bg-gray-100'
+                }`}
+              >
+                {status !== 'all' && <i className={FLOOR_STATUS_STYLES[status].icon}></i>}
+                <span>{status === 'all' ? 'All' : FLOOR_STATUS_STYLES[status].label}</span>
+                <span className="opacity-70">{statusCounts[status] || 0}</span>
+              </button>
+            ))}
+          </div>
+
+          {/* Floor */}
+          {loading ? (
+            <div className="flex items-center justify-center py-24 text-gray-400">
+              <i className="ri-loader-4-line animate-spin text-3xl mr-3"></i>
+              Loading tables...
+            </div>
+          ) : floorTables.length === 0 ? (
+            <div className="text-center py-24">
+              <i className="ri-table-2-line text-6xl text-gray-300"></i>
+              <p className="text-xl font-semibold text-gray-500 mt-4">No tables yet</p>
+              <p className="text-sm text-gray-400 mt-1">Generate table QR codes to add your tables</p>
+            </div>
+          ) : view === 'plan' ? (
+            <div className="space-y-3">
+              <div className="flex overflow-x-auto gap-2 pb-1">
+                {floorZones.map(zone => (
+                  <button
+                    key={zone.name}
+                    onClick={() => setPlanZone(zone.name)}
+                    className={`flex items-center gap-2 px-3 py-1.5 rounded-xl whitespace-nowrap text-sm font-semibold border-2 ${
+                      zone.name === activePlanZone.name ? 'bg-white shadow-sm' : 'bg-gray-100 border-transparent text-gray-600'
+                    }`}
+                    style={zone.name === activePlanZone.name ? { borderColor: zone.color } : undefined}
+                  >
+                    <span className="w-2.5 h-2.5 rounded-full" style={{ backgroundColor: zone.color }}></span>
+                    {zone.name}
+                  </button>
+                ))}
+              </div>
+              <FloorPlan
+                tables={planTables.map(floorTable => floorTable.table)}
+                zoneColor={activePlanZone.color}
+                selectedTableId={selectedTableId}
+                getTableClassName={(table) => {
+                  const floorTable = planTables.find(ft => getTableId(ft.table) === getTableId(table));
+                  if (!floorTable) return '';
+                  const dimmed = statusFilter !== 'all' && floorTable.status !== statusFilter;
+                  return `${FLOOR_STATUS_STYLES[floorTable.status].card} ${dimmed ? 'opacity-30' : ''}`;
+                }}
+                renderTableInfo={(table) => {
+                  const floorTable = planTables.find(ft => getTableId(ft.table) === getTableId(table));
+                  return floorTable && <i className={`${FLOOR_STATUS_STYLES[floorTable.status].icon} text-sm text-gray-600`}></i>;
+                }}
+                onTableClick={(table) => setSelectedTableId(getTableId(table))}
+              />
+              {unplacedPlanTables.length > 0 && (
+                <div className="flex flex-wrap items-center gap-2 text-sm">
+                  <span className="text-gray-500">Not on the plan:</span>
+                  {unplacedPlanTables.map(floorTable => (
+                    <button
+                      key={getTableId(floorTable.table)}
+                      onClick={() => setSelectedTableId(getTableId(floorTable.table))}
+                      className={`px-2 py-0.5 rounded-md font-semibold ${FLOOR_STATUS_STYLES[floorTable.status].badge}`}
+                    >
+                      {floorTable.table.tableNumber}
+                    </button>
+                  ))}
+                </div>
+              )}
+            </div>
+          ) : (
+            zones.map(([location, zoneTables]) => (
+              <div key={location}>
+                <h2 className="text-sm font-bold text-gray-500 uppercase tracking-wide mb-2">{location}</h2>
+                <div className="grid grid-cols-2 sm:grid-cols-3 lg:grid-cols-4 xl:grid-cols-6 gap-3">
+                  {zoneTables.map(floorTable => (
+                    <FloorTableCard
+                      key={getTableId(floorTable.table)}
+                      floorTable={floorTable}
+                      now={now}
+                      onSelect={setSelectedTableId}
+                    />
+                  ))}
+                </div>
+              </div>
+            ))
+          )}
+        </>
+        )}
+      </div>
+
+      {selectedTable && (
+        <TableDetailModal
+          floorTable={selectedTable}
+          now={now}
+          isUpdating={updatingIds.includes(getTableId(selectedTable.table))}
+          onSetStatus={setTableStatus}
+          onOpenOrder={onOpenOrder}
+          onClose={() => setSelectedTableId(null)}
+        />
+      )}
+    </div>
+  );
+};
+
+// Floor Table Card Component (memoized)
+interface FloorTableCardProps {
+  floorTable: FloorTable;
+  now: number;
+  onSelect: (tableId: string) => void;
+}
+
+const FloorTableCard = memo(({ floorTable, now, onSelect }: FloorTableCardProps) => {
+  const { table, status, openOrders, amountDue, seatedAt } = floorTable;
+  const style = FLOOR_STATUS_STYLES[status];
+
+  return (
+    <button
+      onClick={() => onSelect(getTableId(table))}
+      className={`text-left rounded-2xl border-2 p-4 transition-all hover:shadow-md ${style.card}`}
+    >
+      <div className="flex items-start justify-between">
+        <span className="text-2xl font-bold text-gray-900">{table.tableNumber}</span>
+        <span className="text-xs text-gray-500 flex items-center gap-1">
+          <i className="ri-user-line"></i>{table.capacity}
+        </span>
+      </div>
+      <span className={`inline-flex items-center gap-1 mt-2 px-2 py-0.5 rounded-md text-xs font-semibold ${style.badge}`}>
+        <i className={style.icon}></i>{style.label}
+      </span>
+      {status === 'occupied' && (
+        <div className="mt-2 text-xs text-gray-600 space-y-0.5">
+          <p>{openOrders.length} open order{openOrders.length > 1 ? 's' : ''}{seatedAt ? ` • ${formatDuration(now - new Date(seatedAt).getTime())}` : ''}</p>
+          {amountDue > 0 && <p className="font-semibold text-gray-900">{amountDue.toLocaleString()} CFA due</p>}
+        </div>
+      )}
+    </button>
+  );
+});
+
+// Table Detail Modal Component
+interface TableDetailModalProps {
+  floorTable: FloorTable;
+  now: number;
+  isUpdating: boolean;
+  onSetStatus: (table: Table, update: TableStateUpdate, message: string) => void;
+  onOpenOrder: (orderId: string) => void;
+  onClose: () => void;
+}
+
+const TableDetailModal: React.FC<TableDetailModalProps> = ({ floorTable, now, isUpdating, onSetStatus, onOpenOrder, onClose }) => {
+  const { table, status, openOrders, amountDue, seatedAt } = floorTable;
+  const style = FLOOR_STATUS_STYLES[status];
+  const label = `Table ${table.tableNumber}`;
+
+  return (
+    <div className="fixed inset-0 bg-black/50 z-50 flex items-end sm:items-center justify-center p-0 sm:p-4" onClick={onClose}>
+      <div
+        className="bg-white w-full sm:max-w-md rounded-t-3xl sm:rounded-2xl shadow-2xl max-h-[90vh] overflow-hidden flex flex-col"
+        onClick={(e) => e.stopPropagation()}
+      >
+        {/* Header */}
+        <div className="bg-gradient-to-r from-green-500 to-emerald-600 px-6 py-5 text-white flex items-center justify-between">
+          <div>
+            <h2 className="text-xl font-bold">{label}</h2>
+            <p className="text-sm opacity-90">
+              {table.capacity} seats{table.location ? ` • ${table.location}` : ''}
+            </p>
+          </div>
+          <button onClick={onClose} className="w-9 h-9 rounded-full bg-white/20 hover:bg-white/30 flex items-center justify-center">
+            <i className="ri-close-line text-xl"></i>
+          </button>
+        </div>
+
+        <div className="p-6 space-y-5 overflow-y-auto">
+          <div className="flex items-center justify-between">
+            <span className={`inline-flex items-center gap-1 px-3 py-1 rounded-lg text-sm font-semibold ${style.badge}`}>
+              <i className={style.icon}></i>{style.label}
+            </span>
+            {seatedAt && (
+              <span className="text-sm text-gray-500">Seated {formatDuration(now - new Date(seatedAt).getTime())} ago</span>
+            )}
+          </div>
+
+          {/* Active Orders */}
+          {openOrders.length > 0 && (
+            <div>
+              <div className="flex items-center justify-between mb-2">
+                <h3 className="font-semibold text-gray-900">Active Orders</h3>
+                {amountDue > 0 && <span className="text-sm font-semibold text-gray-900">{amountDue.toLocaleString()} CFA due</span>}
+              </div>
+              <div className="space-y-2">
+                {openOrders.map(order => (
+                  <button
+                    key={order._id}
+                    onClick={() => onOpenOrder(order._id)}
+                    className="w-full flex items-center justify-between p-3 rounded-xl border border-gray-200 hover:border-green-400 hover:bg-green-50 transition-colors text-left"
+                  >
+                    <div>
+                      <p className="font-semibold text-gray-900">#{order.orderNumber}</p>
+                      <p className="text-xs text-gray-500">
+                        {order.customerName} • <span className="capitalize">{order.status}</span>
+                        {isAwaitingPayment(order) ? ' • unpaid' : ''}
+                      </p>
+                    </div>
+                    <div className="flex items-center gap-2 text-sm font-semibold text-gray-900">
+                      {order.totalAmount.toLocaleString()} CFA
+                      <i className="ri-arrow-right-s-line text-gray-400"></i>
+                    </div>
+                  </button>
+                ))}
+              </div>
+            </div>
+          )}
+
+          {/* Actions */}
+          <div className="grid grid-cols-2 gap-2">
+            {(status === 'needs_cleaning' || status === 'maintenance') && (
+              <button
+                onClick={() => onSetStatus(table, { status: 'available', cleanedAt: new Date().toISOString() }, `${label} is ready for guests`)}
+                disabled={isUpdating}
+                className="col-span-2 py-3 rounded-xl bg-green-600 hover:bg-green-700 disabled:opacity-50 text-white font-semibold flex items-center justify-center gap-2"
+              >
+                <i className="ri-sparkling-line"></i>
+                {status === 'maintenance' ? 'Back in Service' : 'Mark Cleaned'}
+              </button>
+            )}
+            {status === 'available' && (
+              <button
+                onClick={() => onSetStatus(table, { status: 'reserved' }, `${label} reserved`)}
+                disabled={isUpdating}
+                className="py-3 rounded-xl bg-blue-600 hover:bg-blue-700 disabled:opacity-50 text-white font-semibold flex items-center justify-center gap-2"
+              >
+                <i className="ri-bookmark-line"></i>
+                Reserve
+              </button>
+            )}
+            {status === 'reserved' && (
+              <button
+                onClick={() => onSetStatus(table, { status: 'available' }, `Reservation for ${label} cancelled`)}
+                disabled={isUpdating}
+                className="py-3 rounded-xl bg-gray-100 hover:bg-gray-200 disabled:opacity-50 text-gray-700 font-semibold flex items-center justify-center gap-2"
+              >
+                <i className="ri-bookmark-2-line"></i>
+                Cancel Reservation
+              </button>
+            )}
+            {(status === 'available' || status === 'reserved') && (
+              <button
+                onClick={() => onSetStatus(table, { status: 'maintenance' }, `${label} taken out of service`)}
+                disabled={isUpdating}
+                className="py-3 rounded-xl bg-gray-100 hover:bg-gray-200 disabled:opacity-50 text-gray-700 font-semibold flex items-center justify-center gap-2"
+              >
+                <i className="ri-tools-line"></i>
+                Out of Service
+              </button>
+            )}
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default TableManagement;
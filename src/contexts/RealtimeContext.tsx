@@ -0,0 +1,297 @@
+// contexts/RealtimeContext.tsx
+import React, { createContext, useContext, useState, useEffect, useRef, useCallback, useMemo } from 'react';
+import type { ReactNode } from 'react';
+import { useAuth } from './AuthContext';
+import { orderService } from '../services/orders';
+import { inventoryService } from '../services/inventory';
+import type { ConnectionState, Order, PublicStream, RealtimeEvent, RealtimeEventType, StockUpdate, StreamResume } from '../types';
+
+type RealtimeHandler = (order: Order, event: RealtimeEvent) => void;
+type ResyncHandler = () => void;
+type StockHandler = (update: StockUpdate) => void;
+
+interface RealtimeContextType {
+  connectionState: ConnectionState;
+  isConnected: boolean;
+  reconnectAttempt: number;
+  subscribe: (type: RealtimeEventType, handler: RealtimeHandler) => () => void;
+  subscribeResync: (handler: ResyncHandler) => () => void;
+  subscribeStock: (handler: StockHandler) => () => void;
+  reconnect: () => void;
+}
+
+// Reconnect policy: exponential backoff with jitter, retried forever
+const BASE_RECONNECT_DELAY = 1000;
+const MAX_RECONNECT_DELAY = 30000;
+
+const getReconnectDelay = (attempt: number) => {
+  const ceiling = Math.min(MAX_RECONNECT_DELAY, BASE_RECONNECT_DELAY * 2 ** attempt);
+  // Equal jitter: half fixed, half random, so clients don't reconnect in lockstep
+  return Math.round(ceiling / 2 + Math.random() * (ceiling / 2));
+};
+
+const REALTIME_EVENT_TYPES: RealtimeEventType[] = ['new_order', 'order_updated', 'order_paid'];
+
+// Staff follow their restaurant's full stream; public pages only their own scope
+type StreamScope = PublicStream['scope'] | 'restaurant';
+
+const getStreamUrl = (scope: StreamScope, id: string, resume?: StreamResume) => {
+  switch (scope) {
+    case 'order':
+      return orderService.getPublicStreamUrl(id, resume);
+    case 'stock':
+      return inventoryService.getPublicStockStreamUrl(id, resume);
+    case 'restaurant':
+      return orderService.getStreamUrl(id, resume);
+  }
+};
+
+const RealtimeContext = createContext<RealtimeContextType | undefined>(undefined);
+
+export const useRealtime = () => {
+  const context = useContext(RealtimeContext);
+  if (context === undefined) {
+    throw new Error('useRealtime must be used within a RealtimeProvider');
+  }
+  return context;
+};
+
+// Subscribe a component to one event type for its lifetime
+export const useRealtimeEvent = (type: RealtimeEventType, handler: RealtimeHandler) => {
+  const { subscribe } = useRealtime();
+  const handlerRef = useRef(handler);
+
+  useEffect(() => {
+    handlerRef.current = handler;
+  }, [handler]);
+
+  useEffect(() => {
+    return subscribe(type, (order, event) => handlerRef.current(order, event));
+  }, [subscribe, type]);
+};
+
+// Run a handler whenever the stream reconnects after a drop, so state that may
+// have missed events during the outage can be re-fetched and reconciled
+export const useRealtimeResync = (handler: ResyncHandler) => {
+  const { subscribeResync } = useRealtime();
+  const handlerRef = useRef(handler);
+
+  useEffect(() => {
+    handlerRef.current = handler;
+  }, [handler]);
+
+  useEffect(() => {
+    return subscribeResync(() => handlerRef.current());
+  }, [subscribeResync]);
+};
+
+interface RealtimeProviderProps {
+  children: ReactNode;
+  // Follow a public page's own stream instead of the signed-in user's restaurant.
+  // Public pages never fall back to the staff stream, which carries every order.
+  publicStream?: PublicStream;
+}
+
+export const RealtimeProvider: React.FC<RealtimeProviderProps> = ({ children, publicStream }) => {
+  const { user } = useAuth();
+  const streamScope: StreamScope = publicStream?.scope ?? 'restaurant';
+  const streamId = publicStream ? publicStream.id : user?.restaurant?._id;
+
+  const [connectionState, setConnectionState] = useState<ConnectionState>('disconnected');
+  const [reconnectAttempt, setReconnectAttempt] = useState(0);
+  const [connectionKey, setConnectionKey] = useState(0);
+  const listenersRef = useRef<Map<RealtimeEventType, Set<RealtimeHandler>>>(new Map());
+  const resyncListenersRef = useRef<Set<ResyncHandler>>(new Set());
+  const stockListenersRef = useRef<Set<StockHandler>>(new Set());
+
+  // Stream position, used to resume after a reconnect
+  const streamRef = useRef<{ streamKey?: string; lastEventId: string | null; lastEventAt: string | null; hasConnected: boolean }>({
+    lastEventId: null,
+    lastEventAt: null,
+    hasConnected: false
+  });
+
+  const subscribe = useCallback((type: RealtimeEventType, handler: RealtimeHandler) => {
+    const listeners = listenersRef.current;
+    if (!listeners.has(type)) {
+      listeners.set(type, new Set());
+    }
+    listeners.get(type)!.add(handler);
+
+    return () => {
+      listeners.get(type)?.delete(handler);
+    };
+  }, []);
+
+  const subscribeResync = useCallback((handler: ResyncHandler) => {
+    resyncListenersRef.current.add(handler);
+    return () => {
+      resyncListenersRef.current.delete(handler);
+    };
+  }, []);
+
+  const subscribeStock = useCallback((handler: StockHandler) => {
+    stockListenersRef.current.add(handler);
+    return () => {
+      stockListenersRef.current.delete(handler);
+    };
+  }, []);
+
+  const dispatchStock = useCallback((update: StockUpdate) => {
+    stockListenersRef.current.forEach(handler => {
+      try {
+        handler(update);
+      } catch (error) {
+        console.error('❌ Realtime - stock handler failed:', error);
+      }
+    });
+  }, []);
+
+  const dispatchResync = useCallback(() => {
+    resyncListenersRef.current.forEach(handler => {
+      try {
+        handler();
+      } catch (error) {
+        console.error('❌ Realtime - resync handler failed:', error);
+      }
+    });
+  }, []);
+
+  const dispatch = useCallback((event: RealtimeEvent) => {
+    listenersRef.current.get(event.type)?.forEach(handler => {
+      try {
+        handler(event.order, event);
+      } catch (error) {
+        console.error(`❌ Realtime - ${event.type} handler failed:`, error);
+      }
+    });
+  }, []);
+
+  // Drop the current connection and open a fresh one straight away
+  const reconnect = useCallback(() => {
+    setConnectionKey(key => key + 1);
+  }, []);
+
+  // One connection per stream
+  useEffect(() => {
+    if (!streamId) {
+      setConnectionState('disconnected');
+      return;
+    }
+
+    // A different stream starts from a clean stream position
+    const streamKey = `${streamScope}:${streamId}`;
+    if (streamRef.current.streamKey !== streamKey) {
+      streamRef.current = { streamKey, lastEventId: null, lastEventAt: null, hasConnected: false };
+    }
+
+    let eventSource: EventSource | null = null;
+    let reconnectTimeout: number | null = null;
+    let attempt = 0;
+    let closed = false;
+
+    const connect = () => {
+      if (closed) return;
+
+      const position = streamRef.current;
+      const isResume = position.hasConnected;
+
+      console.log(`🔔 Realtime - ${isResume ? 'Resuming' : 'Connecting'} ${streamScope} stream: ${streamId}`);
+      setConnectionState('connecting');
+      eventSource = new EventSource(getStreamUrl(
+        streamScope,
+        streamId,
+        isResume ? { since: position.lastEventAt, lastEventId: position.lastEventId } : undefined
+      ));
+
+      eventSource.onopen = () => {
+        console.log('✅ Realtime - Connection established');
+        attempt = 0;
+        setReconnectAttempt(0);
+        setConnectionState('connected');
+
+        position.hasConnected = true;
+        if (isResume) {
+          // The server may not replay everything, so let subscribers re-fetch
+          console.log(`🔄 Realtime - Resyncing after gap since ${position.lastEventAt}`);
+          dispatchResync();
+        }
+      };
+
+      eventSource.onmessage = (message) => {
+        try {
+          const data = JSON.parse(message.data);
+
+          // Remember how far we got in the stream
+          if (message.lastEventId) {
+            position.lastEventId = message.lastEventId;
+          }
+          position.lastEventAt = data.timestamp || new Date().toISOString();
+
+          if (data.type === 'connected') {
+            console.log('✅ Realtime - Connection confirmed');
+            return;
+          }
+
+          if (data.type === 'stock_updated' && data.stock) {
+            console.log('📦 Realtime - stock_updated:', data.stock.menuItems?.length || 0, 'items');
+            dispatchStock(data.stock as StockUpdate);
+          } else if (REALTIME_EVENT_TYPES.includes(data.type) && data.order) {
+            console.log(`🔔 Realtime - ${data.type}:`, data.order.orderNumber);
+            dispatch(data as RealtimeEvent);
+          } else {
+            console.log('📨 Realtime - Unknown message type:', data.type);
+          }
+        } catch (error) {
+          console.error('❌ Realtime - Failed to parse message:', error);
+        }
+      };
+
+      eventSource.onerror = () => {
+        eventSource?.close();
+        eventSource = null;
+        if (closed) return;
+
+        const delay = getReconnectDelay(attempt);
+        attempt++;
+        setReconnectAttempt(attempt);
+        setConnectionState('disconnected');
+
+        console.log(`🔄 Realtime - Reconnecting in ${delay}ms (attempt ${attempt})`);
+        reconnectTimeout = window.setTimeout(connect, delay);
+      };
+    };
+
+    // Skip the backoff wait when the browser comes back online
+    const handleOnline = () => {
+      if (eventSource) return;
+      if (reconnectTimeout) window.clearTimeout(reconnectTimeout);
+      connect();
+    };
+
+    connect();
+    window.addEventListener('online', handleOnline);
+
+    return () => {
+      closed = true;
+      window.removeEventListener('online', handleOnline);
+      if (reconnectTimeout) window.clearTimeout(reconnectTimeout);
+      if (eventSource) {
+        console.log('🔔 Realtime - Closing connection');
+        eventSource.close();
+      }
+    };
+  }, [streamScope, streamId, connectionKey, dispatch, dispatchResync, dispatchStock]);
+
+  const contextValue = useMemo((): RealtimeContextType => ({
+    connectionState,
+    isConnected: connectionState === 'connected',
+    reconnectAttempt,
+    subscribe,
+    subscribeResync,
+    subscribeStock,
+    reconnect
+  }), [connectionState, reconnectAttempt, subscribe, subscribeResync, subscribeStock, reconnect]);
+
+  return <RealtimeContext.Provider value={contextValue}>{children}</RealtimeContext.Provider>;
+};
@@ -0,0 +1,60 @@
+// hooks/useDragReorder.ts
+import { useState, useRef } from 'react';
+import type React from 'react';
+
+const REORDER_ATTRIBUTE = 'data-reorder-id';
+
+const moveId = (ids: string[], id: string, targetId: string) => {
+  const next = ids.filter(entry => entry !== id);
+  next.splice(ids.indexOf(targetId), 0, id);
+  return next;
+};
+
+// Reorders a list by dragging a handle over the other entries. Uses pointer events like the
+// floor plan, so it works with touch as well as a mouse (give the handle touch-none);
+// onReorder only fires when the order changed.
+export const useDragReorder = (ids: string[], onReorder: (ids: string[]) => void) => {
+  const [draggingId, setDraggingId] = useState<string | null>(null);
+  const [preview, setPreview] = useState<string[] | null>(null);
+  const startRef = useRef<string[]>([]);
+
+  const orderedIds = preview || ids;
+
+  const handlePointerDown = (id: string, e: React.PointerEvent<HTMLElement>) => {
+    e.preventDefault();
+    e.currentTarget.setPointerCapture(e.pointerId);
+    startRef.current = ids;
+    setDraggingId(id);
+    setPreview(ids);
+  };
+
+  const handlePointerMove = (e: React.PointerEvent<HTMLElement>) => {
+    if (!draggingId || !preview) return;
+    const target = document.elementFromPoint(e.clientX, e.clientY)?.closest(`[${REORDER_ATTRIBUTE}]`);
+    const targetId = target?.getAttribute(REORDER_ATTRIBUTE);
+    if (targetId && targetId !== draggingId && preview.includes(targetId)) {
+      setPreview(moveId(preview, draggingId, targetId));
+    }
+  };
+
+  const handlePointerEnd = () => {
+    if (preview && preview.some((id, index) => id !== startRef.current[index])) {
+      onReorder(preview);
+    }
+    setDraggingId(null);
+    setPreview(null);
+  };
+
+  return {
+    orderedIds,
+    draggingId,
+    // Spread on each entry so the handle can find what it is over
+    getItemProps: (id: string) => ({ [REORDER_ATTRIBUTE]: id }),
+    getHandleProps: (id: string) => ({
+      onPointerDown: (e: React.PointerEvent<HTMLElement>) => handlePointerDown(id, e),
+      onPointerMove: handlePointerMove,
+      onPointerUp: handlePointerEnd,
+      onPointerCancel: handlePointerEnd
+    })
+  };
+};
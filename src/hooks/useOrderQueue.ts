@@ -0,0 +1,58 @@
+// hooks/useOrderQueue.ts
+import { useState, useEffect, useCallback, useRef } from 'react';
+import { orderQueue } from '../services/orderQueue';
+import type { CreateOrderData, Order, QueuedOrder } from '../types';
+
+interface UseOrderQueueOptions {
+  onSubmitted: (order: Order, entry: QueuedOrder) => void;
+  onRejected: (error: unknown, entry: QueuedOrder) => void;
+}
+
+// Tracks connectivity and replays orders queued while offline
+export const useOrderQueue = ({ onSubmitted, onRejected }: UseOrderQueueOptions) => {
+  const [isOnline, setIsOnline] = useState(navigator.onLine);
+  const [pendingOrders, setPendingOrders] = useState<QueuedOrder[]>(orderQueue.getAll);
+  const callbacksRef = useRef({ onSubmitted, onRejected });
+
+  useEffect(() => {
+    callbacksRef.current = { onSubmitted, onRejected };
+  }, [onSubmitted, onRejected]);
+
+  const flush = useCallback(async () => {
+    if (orderQueue.getAll().length === 0) return;
+    await orderQueue.flush({
+      onSubmitted: (order, entry) => callbacksRef.current.onSubmitted(order, entry),
+      onRejected: (error, entry) => callbacksRef.current.onRejected(error, entry)
+    });
+    setPendingOrders(orderQueue.getAll());
+  }, []);
+
+  const queueOrder = useCallback((orderData: CreateOrderData, options: Parameters<typeof orderQueue.enqueue>[1]) => {
+    const entry = orderQueue.enqueue(orderData, options);
+    setPendingOrders(orderQueue.getAll());
+    return entry;
+  }, []);
+
+  useEffect(() => {
+    const handleOnline = () => {
+      setIsOnline(true);
+      flush();
+    };
+    const handleOffline = () => setIsOnline(false);
+
+    window.addEventListener('online', handleOnline);
+    window.addEventListener('offline', handleOffline);
+
+    // Pick up anything left over from a previous visit
+    if (navigator.onLine) {
+      flush();
+    }
+
+    return () => {
+      window.removeEventListener('online', handleOnline);
+      window.removeEventListener('offline', handleOffline);
+    };
+  }, [flush]);
+
+  return { isOnline, pendingOrders, queueOrder, flush };
+};
@@ -0,0 +1,18 @@
+// hooks/useRealtimeStock.ts
+import { useEffect, useRef } from 'react';
+import { useRealtime } from '../contexts/RealtimeContext';
+import type { StockUpdate } from '../types';
+
+// Stock levels changed (sale, restock, manual edit); these events carry counts rather than an order
+export const useRealtimeStock = (handler: (update: StockUpdate) => void) => {
+  const { subscribeStock } = useRealtime();
+  const handlerRef = useRef(handler);
+
+  useEffect(() => {
+    handlerRef.current = handler;
+  }, [handler]);
+
+  useEffect(() => {
+    return subscribeStock(update => handlerRef.current(update));
+  }, [subscribeStock]);
+};
@@ -0,0 +1,259 @@
+// hooks/useSharedCart.ts
+import { useState, useEffect, useCallback, useRef } from 'react';
+import type { SetStateAction } from 'react';
+import axios from 'axios';
+import { cartService } from '../services/cart';
+import type { CartItems, SharedCart } from '../types';
+
+export type CartSyncState = 'local' | 'syncing' | 'synced';
+
+interface UseSharedCartOptions {
+  restaurantId?: string;
+  tableNumber: string;
+  // Cart ID from a share link
+  sharedCartId: string | null;
+  // Verified table token, sent with every cart call and carried over into share links
+  tableToken?: string | null;
+  // Set for group ordering: this device's guest at the table ('' until they join)
+  guestName?: string;
+}
+
+const PUSH_DEBOUNCE = 500;
+const PULL_INTERVAL = 5000;
+
+// Statuses that mean the server has no cart sync endpoint at all
+const SYNC_UNSUPPORTED_STATUSES = [404, 405, 501];
+
+// Resume this device's cart, or join the one from a share link. Group carts
+// are keyed on the table so everyone scanning the same QR lands in one cart.
+const openCart = (restaurantId: string, tableNumber: string, sharedCartId: string | null, isGroup: boolean): SharedCart => {
+  const local = cartService.getLocalCart(restaurantId, tableNumber);
+  const cartId = sharedCartId
+    || (isGroup ? cartService.getTableCartId(restaurantId, tableNumber) : local?.cartId)
+    || cartService.createCartId();
+  if (local && local.cartId === cartId) {
+    return local;
+  }
+  return {
+    cartId,
+    restaurant: restaurantId,
+    tableNumber,
+    items: {},
+    guests: isGroup ? {} : undefined,
+    updatedAt: new Date(0).toISOString()
+  };
+};
+
+// Cart persisted per restaurant and table, synced through the server when it
+// supports it so everyone with the share link edits the same cart. In group
+// mode each guest only edits (and pushes) their own slot of the cart.
+export const useSharedCart = ({ restaurantId = '', tableNumber, sharedCartId, tableToken, guestName }: UseSharedCartOptions) => {
+  const isGroup = guestName !== undefined;
+  const [cart, setCartState] = useState<SharedCart>(() => openCart(restaurantId, tableNumber, sharedCartId, isGroup));
+  const [syncState, setSyncState] = useState<CartSyncState>('local');
+  const cartRef = useRef(cart);
+  const guestNameRef = useRef(guestName);
+  const tableTokenRef = useRef(tableToken);
+  const pushTimeoutRef = useRef<number | null>(null);
+  const syncUnsupportedRef = useRef(false);
+  // Whether this cart has been seen on the server, and whether this device
+  // started it (rather than joining it from a share link)
+  const syncedRef = useRef(false);
+  const createdHereRef = useRef(!sharedCartId);
+  // Bumped on every local edit; pulls are ignored until the latest edit is pushed
+  const editVersionRef = useRef(0);
+  const pushedVersionRef = useRef(0);
+
+  const applyCart = useCallback((next: SharedCart) => {
+    cartRef.current = next;
+    setCartState(next);
+    if (next.restaurant) {
+      cartService.saveLocalCart(next);
+    }
+  }, []);
+
+  const push = useCallback(async () => {
+    pushTimeoutRef.current = null;
+    if (syncUnsupportedRef.current) return;
+
+    const version = editVersionRef.current;
+    const snapshot = cartRef.current;
+    const guest = guestNameRef.current;
+
+    setSyncState('syncing');
+    try {
+      if (snapshot.guests && guest) {
+        await cartService.saveGuestItems(snapshot, guest, snapshot.guests[guest] || {}, tableTokenRef.current);
+      } else {
+        await cartService.saveCart(snapshot, tableTokenRef.current);
+      }
+      pushedVersionRef.current = Math.max(pushedVersionRef.current, version);
+      if (cartRef.current.cartId === snapshot.cartId) syncedRef.current = true;
+      setSyncState('synced');
+    } catch (error) {
+      if (axios.isAxiosError(error) && SYNC_UNSUPPORTED_STATUSES.includes(error.response?.status || 0)) {
+        console.log('🛒 Cart - Server sync not available, keeping cart on this device');
+        syncUnsupportedRef.current = true;
+      } else {
+        console.warn('⚠️ Cart - Sync failed, will retry:', error);
+      }
+      setSyncState('local');
+    }
+  }, []);
+
+  const schedulePush = useCallback(() => {
+    editVersionRef.current++;
+    if (pushTimeoutRef.current) window.clearTimeout(pushTimeoutRef.current);
+    pushTimeoutRef.current = window.setTimeout(push, PUSH_DEBOUNCE);
+  }, [push]);
+
+  const pull = useCallback(async () => {
+    if (syncUnsupportedRef.current) return;
+
+    const { cartId } = cartRef.current;
+    try {
+      const remote = await cartService.fetchCart(cartId, tableTokenRef.current);
+      // A local edit that hasn't reached the server yet wins
+      if (editVersionRef.current > pushedVersionRef.current || cartRef.current.cartId !== cartId) {
+        if (editVersionRef.current > pushedVersionRef.current && !pushTimeoutRef.current) push();
+        return;
+      }
+
+      const current = cartRef.current;
+      if (!remote) {
+        if (syncedRef.current) {
+          // Gone after being synced: the order was placed (or the cart cleared)
+          // on another device, so empty it here rather than bringing it back
+          syncedRef.current = false;
+          applyCart({ ...current, items: {}, guests: current.guests ? {} : undefined, updatedAt: new Date().toISOString() });
+          return;
+        }
+
+        // This device started the cart: publish it so the share link works
+        const hasItems = current.guests
+          ? Object.values(current.guests).some(items => Object.keys(items).length > 0)
+          : Object.keys(current.items).length > 0;
+        if (createdHereRef.current && hasItems) push();
+        return;
+      }
+
+      syncedRef.current = true;
+      if (current.guests) {
+        // Other guests' slots always come from the server
+        applyCart({ ...current, guests: remote.guests || {}, updatedAt: remote.updatedAt });
+      } else if (new Date(remote.updatedAt).getTime() > new Date(current.updatedAt).getTime()) {
+        applyCart({ ...remote, restaurant: current.restaurant, tableNumber: current.tableNumber });
+      }
+      setSyncState('synced');
+    } catch (error) {
+      console.warn('⚠️ Cart - Could not refresh shared cart:', error);
+      setSyncState('local');
+    }
+  }, [applyCart, push]);
+
+  // Same signature as a useState setter, so the cart UI doesn't need to change.
+  // In group mode it reads and writes this guest's items only.
+  const setCart = useCallback((action: SetStateAction<CartItems>) => {
+    const current = cartRef.current;
+    const guest = guestNameRef.current;
+
+    if (current.guests) {
+      if (!guest) return;
+      const mine = current.guests[guest] || {};
+      const items = typeof action === 'function' ? action(mine) : action;
+      if (items === mine) return;
+      applyCart({ ...current, guests: { ...current.guests, [guest]: items }, updatedAt: new Date().toISOString() });
+    } else {
+      const items = typeof action === 'function' ? action(current.items) : action;
+      if (items === current.items) return;
+      applyCart({ ...current, items, updatedAt: new Date().toISOString() });
+    }
+
+    schedulePush();
+  }, [applyCart, schedulePush]);
+
+  // Empty the cart after checkout (the whole table's cart in group mode)
+  const clearCart = useCallback(() => {
+    const current = cartRef.current;
+    if (!current.guests) {
+      setCart({});
+      return;
+    }
+
+    applyCart({ ...current, guests: {}, updatedAt: new Date().toISOString() });
+    if (!syncUnsupportedRef.current) {
+      cartService.deleteCart(current.cartId, tableTokenRef.current).catch((error) => {
+        console.warn('⚠️ Cart - Could not clear shared cart:', error);
+      });
+    }
+  }, [applyCart, setCart]);
+
+  // Switch carts when the restaurant, table, share link or mode changes
+  useEffect(() => {
+    const next = openCart(restaurantId, tableNumber, sharedCartId, isGroup);
+    const current = cartRef.current;
+    if (next.cartId === current.cartId && next.restaurant === current.restaurant
+      && next.tableNumber === current.tableNumber && !!next.guests === !!current.guests) {
+      return;
+    }
+    syncedRef.current = false;
+    createdHereRef.current = !sharedCartId;
+    applyCart(next);
+  }, [restaurantId, tableNumber, sharedCartId, isGroup, applyCart]);
+
+  // Pushes and pulls send the latest verified token
+  useEffect(() => {
+    tableTokenRef.current = tableToken;
+  }, [tableToken]);
+
+  // A guest who renames keeps their items
+  useEffect(() => {
+    const previous = guestNameRef.current;
+    guestNameRef.current = guestName;
+
+    const current = cartRef.current;
+    if (!current.guests || !previous || !guestName || previous === guestName) return;
+
+    const { [previous]: items = {}, ...others } = current.guests;
+    applyCart({ ...current, guests: { ...others, [guestName]: items }, updatedAt: new Date().toISOString() });
+    if (!syncUnsupportedRef.current) {
+      cartService.saveGuestItems(current, previous, {}, tableTokenRef.current).catch((error) => {
+        console.warn('⚠️ Cart - Could not clear previous guest slot:', error);
+      });
+    }
+    schedulePush();
+  }, [guestName, applyCart, schedulePush]);
+
+  // Pick up other guests' changes while the page is visible
+  useEffect(() => {
+    if (!restaurantId) return;
+
+    pull();
+    const interval = window.setInterval(() => {
+      if (document.visibilityState === 'visible') pull();
+    }, PULL_INTERVAL);
+
+    return () => window.clearInterval(interval);
+  }, [restaurantId, cart.cartId, pull]);
+
+  // Flush a pending edit before leaving
+  useEffect(() => {
+    return () => {
+      if (pushTimeoutRef.current) {
+        window.clearTimeout(pushTimeoutRef.current);
+        push();
+      }
+    };
+  }, [push]);
+
+  return {
+    cart: cart.guests ? (guestName && cart.guests[guestName]) || {} : cart.items,
+    setCart,
+    clearCart,
+    // Everyone's items by guest name (group mode only)
+    guests: cart.guests,
+    cartId: cart.cartId,
+    shareUrl: cartService.getShareUrl(cart, tableToken),
+    syncState
+  };
+};
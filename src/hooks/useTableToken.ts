@@ -0,0 +1,89 @@
+// hooks/useTableToken.ts
+import { useState, useEffect } from 'react';
+import axios from 'axios';
+import { tableService } from '../services/tables';
+import { isNetworkError } from '../services/orderQueue';
+import type { Table } from '../types';
+
+export type TableTokenState = 'none' | 'checking' | 'valid' | 'invalid';
+
+interface VerifiedTable {
+  id: string;
+  tableNumber: string;
+}
+
+const getVerifiedKey = (restaurantId: string, token: string) => `table_token_${restaurantId}_${token}`;
+
+const toVerifiedTable = (table: Table): VerifiedTable => ({
+  id: table._id || table.id,
+  tableNumber: String(table.tableNumber)
+});
+
+// What to tell the customer when the server rejects a token
+const getTokenErrorMessage = (error: unknown) => {
+  const status = axios.isAxiosError(error) ? error.response?.status : undefined;
+  if (status === 410) {
+    return 'This table QR code has been replaced. Please scan the code on your table again or ask a member of staff.';
+  }
+  return "We couldn't recognise this table QR code. Please scan the code on your table again or ask a member of staff.";
+};
+
+// Resolve the table from the signed token in a table QR link. A plain table
+// number in the URL is never trusted, since anyone can edit it.
+export const useTableToken = (restaurantId: string | undefined, token: string | null, hasLegacyTable: boolean) => {
+  const [table, setTable] = useState<VerifiedTable | null>(null);
+  const [state, setState] = useState<TableTokenState>(token ? 'checking' : hasLegacyTable ? 'invalid' : 'none');
+  const [error, setError] = useState('');
+
+  useEffect(() => {
+    setTable(null);
+    setError('');
+
+    if (!token || !restaurantId) {
+      setState(hasLegacyTable ? 'invalid' : 'none');
+      if (hasLegacyTable) {
+        setError('This table link is missing its security code. Please scan the QR code on your table.');
+      }
+      return;
+    }
+
+    let cancelled = false;
+    setState('checking');
+
+    tableService.verifyQrToken(restaurantId, token)
+      .then((verified) => {
+        if (cancelled) return;
+        const next = toVerifiedTable(verified);
+        localStorage.setItem(getVerifiedKey(restaurantId, token), JSON.stringify(next));
+        setTable(next);
+        setState('valid');
+      })
+      .catch((verifyError) => {
+        if (cancelled) return;
+
+        // Offline: trust a token this device already verified; the server
+        // checks it again when the order is sent
+        if (isNetworkError(verifyError)) {
+          const saved = localStorage.getItem(getVerifiedKey(restaurantId, token));
+          if (saved) {
+            setTable(JSON.parse(saved));
+            setState('valid');
+            return;
+          }
+        }
+
+        console.error('❌ Table token rejected:', verifyError);
+        localStorage.removeItem(getVerifiedKey(restaurantId, token));
+        setError(isNetworkError(verifyError)
+          ? "You're offline, so this table QR code can't be checked yet. Please try again once you're connected."
+          : getTokenErrorMessage(verifyError));
+        setState('invalid');
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [restaurantId, token, hasLegacyTable]);
+
+  return { table, state, error };
+};
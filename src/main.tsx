@@ -7,4 +7,14 @@ ReactDOM.createRoot(document.getElementById('root')!).render(
   <React.StrictMode>
     <App />
   </React.StrictMode>,
-)
\ No newline at end of file
+)
+
+// Service worker caches the customer menu for offline use (production only,
+// so it never serves stale modules to the dev server)
+if ('serviceWorker' in navigator && import.meta.env.PROD) {
+  window.addEventListener('load', () => {
+    navigator.serviceWorker.register('/sw.js').catch((error) => {
+      console.error('❌ Service worker registration failed:', error)
+    })
+  })
+}
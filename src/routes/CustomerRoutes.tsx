@@ -3,6 +3,7 @@ import { Routes, Route } from 'react-router-dom';
 import RestaurantList from '../components/CustomerApp';
 import RestaurantOrder from '../components/OrderManagement';
 import CustomerMenu from '../components/CustomerMenu';
+import OrderTracking from '../components/OrderTracking';
 
 const CustomerRoutes = () => {
   return (
@@ -12,6 +13,7 @@ const CustomerRoutes = () => {
       <Route path="/restaurant/:restaurantId/menu" element={<CustomerMenu />} />
       <Route path="/order" element={<RestaurantOrder />} />
       <Route path="/order/:restaurantId" element={<RestaurantOrder />} />
+      <Route path="/order/:orderId/track" element={<OrderTracking />} />
     </Routes>
   );
 };
@@ -1,8 +1,21 @@
 // services/api.ts
 import axios from 'axios';
-import type { TestResponse, DatabaseTestResponse } from '../types';
+import type { TestResponse, DatabaseTestResponse, ApiError } from '../types';
 
-const API_URL = 'http://localhost:5000/api';
+// Base URL comes from the Vite env so staging/production builds need no source edits
+export const API_URL = (import.meta.env.VITE_API_URL || 'http://localhost:5000/api').replace(/\/$/, '');
+
+// Server origin (for uploaded assets) derived from the API URL
+export const SERVER_URL = API_URL.replace(/\/api$/, '');
+
+// Pull a readable message out of an axios error
+export const getApiErrorMessage = (error: unknown, fallback = 'Request failed'): string => {
+  if (axios.isAxiosError(error)) {
+    const data = error.response?.data as ApiError | undefined;
+    return data?.details || data?.error || error.message || fallback;
+  }
+  return error instanceof Error ? error.message : fallback;
+};
 
 // Create axios instance with authentication interceptor
 const api = axios.create({
@@ -53,6 +66,12 @@ api.interceptors.response.use(
   }
 );
 
+// Unauthenticated instance for the public customer-facing endpoints
+export const publicApi = axios.create({
+  baseURL: API_URL,
+  timeout: 10000,
+});
+
 export const testApi = {
   testBackend: async (): Promise<TestResponse> => {
     const response = await api.get<TestResponse>('/test');
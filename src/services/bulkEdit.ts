@@ -0,0 +1,120 @@
+// services/bulkEdit.ts - what a bulk action does to each selected menu item, and how to take it back
+import type { MenuItem, UpdateMenuItemData } from '../types';
+
+export type BulkAction =
+  | { type: 'category'; categoryId: string; categoryName: string }
+  | { type: 'availability'; isAvailable: boolean }
+  | { type: 'price'; percent: number }
+  | { type: 'takeaway'; isTakeawayAvailable: boolean }
+  | { type: 'delete' };
+
+export interface BulkChange {
+  item: MenuItem;
+  from: string;
+  to: string;
+  // null when the item already matches and is left alone
+  update: UpdateMenuItemData | null;
+}
+
+// Prices are whole CFA amounts
+export const applyPercentage = (price: number, percent: number) =>
+  Math.max(0, Math.round(price * (1 + percent / 100)));
+
+const getCategoryId = (item: MenuItem) =>
+  typeof item.category === 'string' ? item.category : item.category?.id || '';
+
+const getCategoryName = (item: MenuItem) =>
+  typeof item.category === 'string' ? 'Uncategorized' : item.category?.name || 'Uncategorized';
+
+const formatPrice = (price: number) => `${price.toLocaleString()} CFA`;
+
+const yesNo = (value: boolean, yes: string, no: string) => (value ? yes : no);
+
+// The update a bulk action sends for one item
+const getUpdate = (item: MenuItem, action: BulkAction): UpdateMenuItemData | null => {
+  switch (action.type) {
+    case 'category':
+      return getCategoryId(item) === action.categoryId ? null : { category: action.categoryId };
+    case 'availability':
+      return item.isAvailable === action.isAvailable ? null : { isAvailable: action.isAvailable };
+    case 'price': {
+      const price = applyPercentage(item.price, action.percent);
+      if (price === item.price) return null;
+      const update: UpdateMenuItemData = { price };
+      // A takeaway price of its own moves with the dine-in price
+      if (item.takeaway?.takeawayPrice) {
+        update.takeawayPrice = applyPercentage(item.takeaway.takeawayPrice, action.percent);
+      }
+      return update;
+    }
+    case 'takeaway':
+      return !!item.takeaway?.isTakeawayAvailable === action.isTakeawayAvailable
+        ? null
+        : { isTakeawayAvailable: action.isTakeawayAvailable };
+    case 'delete':
+      return null;
+  }
+};
+
+// Before and after for the confirmation summary
+export const previewBulkAction = (items: MenuItem[], action: BulkAction): BulkChange[] =>
+  items.map(item => {
+    const update = getUpdate(item, action);
+    switch (action.type) {
+      case 'category':
+        return { item, update, from: getCategoryName(item), to: action.categoryName };
+      case 'availability':
+        return {
+          item,
+          update,
+          from: yesNo(item.isAvailable, 'Available', 'Unavailable'),
+          to: yesNo(action.isAvailable, 'Available', 'Unavailable')
+        };
+      case 'price':
+        return { item, update, from: formatPrice(item.price), to: formatPrice(update?.price ?? item.price) };
+      case 'takeaway':
+        return {
+          item,
+          update,
+          from: yesNo(!!item.takeaway?.isTakeawayAvailable, 'Takeaway on', 'Takeaway off'),
+          to: yesNo(action.isTakeawayAvailable, 'Takeaway on', 'Takeaway off')
+        };
+      case 'delete':
+        return { item, update, from: getCategoryName(item), to: 'Deleted' };
+    }
+  });
+
+// Puts back the fields an action changed, from the item as it was before
+export const getRevertUpdate = (previous: MenuItem, action: BulkAction): UpdateMenuItemData => {
+  switch (action.type) {
+    case 'category':
+      return { category: getCategoryId(previous) };
+    case 'availability':
+      return { isAvailable: previous.isAvailable };
+    case 'price':
+      return previous.takeaway?.takeawayPrice
+        ? { price: previous.price, takeawayPrice: previous.takeaway.takeawayPrice }
+        : { price: previous.price };
+    case 'takeaway':
+      return { isTakeawayAvailable: !!previous.takeaway?.isTakeawayAvailable };
+    case 'delete':
+      return {};
+  }
+};
+
+// "Move 4 items to Drinks", used as the confirm button and undo bar text
+export const describeBulkAction = (action: BulkAction, count: number) => {
+  const items = `${count} item${count !== 1 ? 's' : ''}`;
+  switch (action.type) {
+    case 'category':
+      return `Move ${items} to ${action.categoryName}`;
+    case 'availability':
+      return `Mark ${items} ${action.isAvailable ? 'available' : 'unavailable'}`;
+    case 'price':
+      return `${action.percent >= 0 ? 'Raise' : 'Lower'} prices of ${items} by ${Math.abs(action.percent)}%`;
+    case 'takeaway':
+      return `Turn takeaway ${action.isTakeawayAvailable ? 'on' : 'off'} for ${items}`;
+    case 'delete':
+      return `Delete ${items}`;
+  }
+};
@@ -0,0 +1,77 @@
+// services/cart.ts
+import axios from 'axios';
+import { publicApi } from './api';
+import type { CartItems, SharedCart, SharedCartResponse } from '../types';
+
+const getCartKey = (restaurantId: string, tableNumber: string) =>
+  `cart_${restaurantId}_${tableNumber || 'takeaway'}`;
+
+// The signed table token goes with every cart call, so the server only lets
+// someone at the table read or change a table's cart
+const withTableToken = (tableToken?: string | null) =>
+  (tableToken ? { params: { token: tableToken } } : {});
+
+export const cartService = {
+  createCartId: () => `cart_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`,
+
+  // Group orders share one cart per table
+  getTableCartId: (restaurantId: string, tableNumber: string) => `table_${restaurantId}_${tableNumber}`,
+
+  // Last cart for this restaurant and table on this device
+  getLocalCart: (restaurantId: string, tableNumber: string): SharedCart | null => {
+    try {
+      const saved = localStorage.getItem(getCartKey(restaurantId, tableNumber));
+      return saved ? JSON.parse(saved) : null;
+    } catch (error) {
+      console.error('❌ CartService - Failed to read saved cart:', error);
+      return null;
+    }
+  },
+
+  saveLocalCart: (cart: SharedCart) => {
+    localStorage.setItem(getCartKey(cart.restaurant, cart.tableNumber), JSON.stringify(cart));
+  },
+
+  // Get a shared cart from the server (null if nobody has synced it yet)
+  fetchCart: async (cartId: string, tableToken?: string | null): Promise<SharedCart | null> => {
+    try {
+      const response = await publicApi.get<SharedCartResponse>(`/public/carts/${cartId}`, withTableToken(tableToken));
+      return response.data.cart;
+    } catch (error) {
+      if (axios.isAxiosError(error) && error.response?.status === 404) {
+        return null;
+      }
+      throw error;
+    }
+  },
+
+  // Push the whole cart; the server keeps the latest by updatedAt
+  saveCart: async (cart: SharedCart, tableToken?: string | null): Promise<SharedCart> => {
+    const response = await publicApi.put<SharedCartResponse>(`/public/carts/${cart.cartId}`, cart, withTableToken(tableToken));
+    return response.data.cart;
+  },
+
+  // Push one guest's items of a group cart, leaving the other guests untouched
+  saveGuestItems: async (cart: SharedCart, guestName: string, items: CartItems, tableToken?: string | null): Promise<SharedCart> => {
+    const response = await publicApi.put<SharedCartResponse>(
+      `/public/carts/${cart.cartId}/guests/${encodeURIComponent(guestName)}`,
+      { restaurant: cart.restaurant, tableNumber: cart.tableNumber, items },
+      withTableToken(tableToken)
+    );
+    return response.data.cart;
+  },
+
+  // Remove a shared cart once its order has been placed
+  deleteCart: async (cartId: string, tableToken?: string | null): Promise<void> => {
+    await publicApi.delete(`/public/carts/${cartId}`, withTableToken(tableToken));
+  },
+
+  // Link that opens the menu on the same cart, at the same table when the
+  // table's signed token is known
+  getShareUrl: (cart: SharedCart, tableToken?: string | null) => {
+    const params = new URLSearchParams();
+    if (tableToken) params.set('t', tableToken);
+    params.set('cart', cart.cartId);
+    return `${window.location.origin}/waiter/restaurant/${cart.restaurant}/menu?${params.toString()}`;
+  },
+};
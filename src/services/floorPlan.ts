@@ -0,0 +1,88 @@
+// services/floorPlan.ts - grid geometry and zones for the table floor plan
+import type { FloorPlan, FloorZone, Table, TableLayout, TableShape } from '../types';
+
+// Every zone is drawn on the same grid
+export const PLAN_COLUMNS = 24;
+export const PLAN_ROWS = 16;
+export const PLAN_CELL_SIZE = 36;
+
+// Tables without a location share this zone
+export const DEFAULT_ZONE = 'Main Floor';
+
+export const ZONE_COLORS = ['#10b981', '#3b82f6', '#f59e0b', '#8b5cf6', '#ef4444', '#14b8a6'];
+
+export const TABLE_SHAPES: { shape: TableShape; label: string; icon: string }[] = [
+  { shape: 'square', label: 'Square', icon: 'ri-checkbox-blank-line' },
+  { shape: 'round', label: 'Round', icon: 'ri-checkbox-blank-circle-line' },
+  { shape: 'rectangle', label: 'Long', icon: 'ri-rectangle-line' }
+];
+
+export const getTableZone = (table: Table) => table.location?.trim() || DEFAULT_ZONE;
+
+// Zones saved on the restaurant, plus any location typed on a table that isn't one yet
+export const getZones = (floorPlan: FloorPlan | undefined, tables: Table[]): FloorZone[] => {
+  const zones = [...(floorPlan?.zones || [])];
+  tables.forEach((table) => {
+    const name = getTableZone(table);
+    if (!zones.some(zone => zone.name === name)) {
+      zones.push({ name, color: ZONE_COLORS[zones.length % ZONE_COLORS.length] });
+    }
+  });
+  if (zones.length === 0) {
+    zones.push({ name: DEFAULT_ZONE, color: ZONE_COLORS[0] });
+  }
+  return zones;
+};
+
+// Size in grid cells; big round tables get more room
+export const getTableFootprint = (table: Table, layout: TableLayout) => {
+  if (layout.shape === 'rectangle') {
+    const length = Math.max(3, Math.ceil((table.capacity || 4) / 2) + 1);
+    return layout.rotated ? { width: 2, height: length } : { width: length, height: 2 };
+  }
+  const size = (table.capacity || 4) > 6 ? 3 : 2;
+  return { width: size, height: size };
+};
+
+// Keep a table fully on the grid
+export const clampLayout = (table: Table, layout: TableLayout): TableLayout => {
+  const { width, height } = getTableFootprint(table, layout);
+  return {
+    ...layout,
+    x: Math.min(Math.max(0, layout.x), PLAN_COLUMNS - width),
+    y: Math.min(Math.max(0, layout.y), PLAN_ROWS - height)
+  };
+};
+
+const overlaps = (a: Table, aLayout: TableLayout, b: Table, bLayout: TableLayout) => {
+  const aSize = getTableFootprint(a, aLayout);
+  const bSize = getTableFootprint(b, bLayout);
+  return aLayout.x < bLayout.x + bSize.width && bLayout.x < aLayout.x + aSize.width
+    && aLayout.y < bLayout.y + bSize.height && bLayout.y < aLayout.y + aSize.height;
+};
+
+// First spot, row by row, where a new table doesn't cover a placed one
+export const findFreeSpot = (table: Table, shape: TableShape, placed: Table[]): TableLayout => {
+  for (let y = 0; y < PLAN_ROWS; y++) {
+    for (let x = 0; x < PLAN_COLUMNS; x++) {
+      const layout = clampLayout(table, { x, y, shape });
+      if (layout.x !== x || layout.y !== y) continue;
+      if (!placed.some(other => other.layout && overlaps(table, layout, other, other.layout))) {
+        return layout;
+      }
+    }
+  }
+  return { x: 0, y: 0, shape };
+};
+
+// Zone order, then front to back and left to right
+export const compareByFloorPosition = (zones: FloorZone[]) => (a: Table, b: Table) => {
+  const zoneA = zones.findIndex(zone => zone.name === getTableZone(a));
+  const zoneB = zones.findIndex(zone => zone.name === getTableZone(b));
+  if (zoneA !== zoneB) return zoneA - zoneB;
+  if (a.layout && b.layout) {
+    return a.layout.y - b.layout.y || a.layout.x - b.layout.x;
+  }
+  if (a.layout || b.layout) return a.layout ? -1 : 1;
+  return String(a.tableNumber).localeCompare(String(b.tableNumber), undefined, { numeric: true });
+};
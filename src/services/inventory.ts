@@ -0,0 +1,82 @@
+// services/inventory.ts - stock counts on menu items and ingredients, and what they mean for sales
+import api, { API_URL } from './api';
+import { withStreamResume } from './orders';
+import type { IngredientStock, StockUpdate, StreamResume } from '../types';
+
+// Just the fields stock looks at, so both menu item shapes fit
+interface StockedItem {
+  name: string;
+  ingredients?: string[];
+  trackStock?: boolean;
+  stockQuantity?: number;
+  lowStockThreshold?: number;
+}
+
+export interface StockAlert {
+  kind: 'item' | 'ingredient';
+  name: string;
+  quantity: number;
+}
+
+export const DEFAULT_LOW_STOCK_THRESHOLD = 5;
+
+const normalizeName = (name: string) => name.trim().toLowerCase();
+
+export const findIngredientStock = (name: string, ingredientStock?: IngredientStock[]) =>
+  (ingredientStock || []).find(ingredient => normalizeName(ingredient.name) === normalizeName(name));
+
+// How many more can be sold, limited by the item's own count and its tracked ingredients; null when nothing is tracked
+export const getAvailableQuantity = (item: StockedItem, ingredientStock?: IngredientStock[]): number | null => {
+  const limits: number[] = [];
+  if (item.trackStock) limits.push(item.stockQuantity || 0);
+  (item.ingredients || []).forEach(name => {
+    const ingredient = findIngredientStock(name, ingredientStock);
+    if (ingredient) limits.push(ingredient.quantity);
+  });
+  return limits.length > 0 ? Math.max(0, Math.min(...limits)) : null;
+};
+
+export const isSoldOut = (item: StockedItem, ingredientStock?: IngredientStock[]) =>
+  getAvailableQuantity(item, ingredientStock) === 0;
+
+// Items and ingredients at or under their threshold, sold out first
+export const getLowStockAlerts = (items: StockedItem[], ingredientStock?: IngredientStock[]): StockAlert[] => {
+  const alerts: StockAlert[] = [];
+  items.forEach(item => {
+    const threshold = item.lowStockThreshold ?? DEFAULT_LOW_STOCK_THRESHOLD;
+    if (item.trackStock && (item.stockQuantity || 0) <= threshold) {
+      alerts.push({ kind: 'item', name: item.name, quantity: Math.max(0, item.stockQuantity || 0) });
+    }
+  });
+  (ingredientStock || []).forEach(ingredient => {
+    if (ingredient.quantity <= ingredient.lowStockThreshold) {
+      alerts.push({ kind: 'ingredient', name: ingredient.name, quantity: Math.max(0, ingredient.quantity) });
+    }
+  });
+  return alerts.sort((a, b) => a.quantity - b.quantity || a.name.localeCompare(b.name));
+};
+
+// New counts from a realtime stock event, applied to a list of items
+export const applyStockUpdate = <T extends StockedItem>(items: T[], update: StockUpdate, getId: (item: T) => string): T[] =>
+  items.map(item => {
+    const change = update.menuItems.find(entry => entry.id === getId(item));
+    return change ? { ...item, trackStock: change.trackStock, stockQuantity: change.stockQuantity } : item;
+  });
+
+export const inventoryService = {
+  // Replace the tracked ingredient list
+  updateIngredients: async (ingredients: IngredientStock[]): Promise<StockUpdate> => {
+    try {
+      const response = await api.put<{ stock: StockUpdate }>('/inventory/ingredients', { ingredients });
+      console.log('✅ InventoryService - Ingredient stock saved');
+      return response.data.stock;
+    } catch (error) {
+      console.error('❌ InventoryService - Error saving ingredient stock:', error);
+      throw error;
+    }
+  },
+
+  // URL of the public stream of a restaurant's stock levels, for the customer menu
+  getPublicStockStreamUrl: (restaurantId: string, resume?: StreamResume) =>
+    withStreamResume(`${API_URL}/public/restaurants/${restaurantId}/stock/stream`, resume)
+};
@@ -1,6 +1,7 @@
 // services/menu.ts
 import api from './api';
-import type { Category, CreateMenuItemData, UpdateMenuItemData } from '../types';
+import type { Category, CreateMenuItemData, UpdateMenuItemData, UpdateCategoryData } from '../types';
+import type { SortOrderUpdate } from './menuOrder';
 
 // Debug function to verify authentication
 const verifyAuth = () => {
@@ -87,7 +88,8 @@ export const menuService = {
       Object.keys(menuItem).forEach(key => {
         const value = menuItem[key as keyof CreateMenuItemData];
         if (value !== undefined && value !== null) {
-          if (key === 'ingredients' && Array.isArray(value)) {
+          // Ingredients and option groups go as JSON
+          if (Array.isArray(value)) {
             formData.append(key, JSON.stringify(value));
           } else if (key === 'category' && typeof value === 'object') {
             // Handle category object - extract ID
@@ -144,7 +146,8 @@ export const menuService = {
       Object.keys(menuItem).forEach(key => {
         const value = menuItem[key as keyof UpdateMenuItemData];
         if (value !== undefined && value !== null) {
-          if (key === 'ingredients' && Array.isArray(value)) {
+          // Ingredients and option groups go as JSON
+          if (Array.isArray(value)) {
             formData.append(key, JSON.stringify(value));
           } else if (key === 'category' && typeof value === 'object') {
             // Handle category object - extract ID
@@ -180,12 +183,16 @@ export const menuService = {
   },
 
   // Delete a menu item
-  deleteMenuItem: async (id: string) => {
+  // keepalive lets the request finish when it is sent as the page is closing
+  deleteMenuItem: async (id: string, options: { keepalive?: boolean } = {}) => {
     try {
       verifyAuth();
       console.log('🗑️ MenuService - Deleting menu item:', id);
       
-      const response = await api.delete(`/menu-items/${id}`);
+      const response = await api.delete(
+        `/menu-items/${id}`,
+        options.keepalive ? { adapter: 'fetch', fetchOptions: { keepalive: true } } : undefined
+      );
       console.log('✅ MenuService - Menu item deleted successfully');
       return response.data;
     } catch (error: any) {
@@ -231,6 +238,47 @@ export const menuService = {
     }
   },
 
+  // Rename, describe or hide one of the restaurant's own categories
+  updateCategory: async (categoryId: string, category: UpdateCategoryData) => {
+    try {
+      verifyAuth();
+      console.log('📦 MenuService - Updating category:', categoryId, category);
+
+      const response = await api.put(`/categories/${categoryId}`, category);
+      console.log('✅ MenuService - Category updated successfully');
+      return response.data;
+    } catch (error) {
+      console.error('❌ MenuService - Error updating category:', error);
+      throw error;
+    }
+  },
+
+  // Save the order categories are listed in on the menu
+  reorderCategories: async (order: SortOrderUpdate[]) => {
+    try {
+      verifyAuth();
+      const response = await api.put('/categories/reorder', { categories: order });
+      console.log('✅ MenuService - Category order saved');
+      return response.data;
+    } catch (error) {
+      console.error('❌ MenuService - Error saving category order:', error);
+      throw error;
+    }
+  },
+
+  // Save the order of items within a category
+  reorderMenuItems: async (order: SortOrderUpdate[]) => {
+    try {
+      verifyAuth();
+      const response = await api.put('/menu-items/reorder', { menuItems: order });
+      console.log('✅ MenuService - Menu item order saved');
+      return response.data;
+    } catch (error) {
+      console.error('❌ MenuService - Error saving menu item order:', error);
+      throw error;
+    }
+  },
+
   // Delete a category
   deleteCategory: async (categoryId: string): Promise<any> => {
     try {
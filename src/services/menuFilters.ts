@@ -0,0 +1,112 @@
+// services/menuFilters.ts - allergen tags and the customer menu filters, kept in the URL
+import type { Allergen } from '../types';
+
+export const ALLERGENS: { id: Allergen; label: string; icon: string }[] = [
+  { id: 'gluten', label: 'Gluten', icon: 'ri-seedling-line' },
+  { id: 'dairy', label: 'Dairy', icon: 'ri-drop-line' },
+  { id: 'egg', label: 'Egg', icon: 'ri-egg-line' },
+  { id: 'nuts', label: 'Tree Nuts', icon: 'ri-plant-line' },
+  { id: 'peanuts', label: 'Peanuts', icon: 'ri-plant-fill' },
+  { id: 'soy', label: 'Soy', icon: 'ri-leaf-line' },
+  { id: 'fish', label: 'Fish', icon: 'ri-fish-line' },
+  { id: 'shellfish', label: 'Shellfish', icon: 'ri-bug-line' },
+  { id: 'sesame', label: 'Sesame', icon: 'ri-grain-line' },
+  { id: 'mustard', label: 'Mustard', icon: 'ri-flask-line' }
+];
+
+export type Diet = 'vegetarian' | 'vegan' | 'gluten-free';
+
+export const DIETS: { id: Diet; label: string; icon: string }[] = [
+  { id: 'vegetarian', label: 'Vegetarian', icon: 'ri-leaf-line' },
+  { id: 'vegan', label: 'Vegan', icon: 'ri-plant-line' },
+  { id: 'gluten-free', label: 'Gluten Free', icon: 'ri-forbid-line' }
+];
+
+export const MAX_SPICE_LEVEL = 4;
+
+export interface MenuFilters {
+  diets: Diet[];
+  excludeAllergens: Allergen[];
+  // null means any spice level
+  maxSpice: number | null;
+  minPrice: number | null;
+  maxPrice: number | null;
+}
+
+// Just the fields the filters look at, so both menu item shapes fit
+interface FilterableItem {
+  price: number;
+  isVegetarian: boolean;
+  isVegan: boolean;
+  isGlutenFree: boolean;
+  spiceLevel: number;
+  allergens?: Allergen[];
+}
+
+const PARAMS = { diets: 'diet', excludeAllergens: 'exclude', maxSpice: 'spice', minPrice: 'min', maxPrice: 'max' };
+
+export const EMPTY_MENU_FILTERS: MenuFilters = { diets: [], excludeAllergens: [], maxSpice: null, minPrice: null, maxPrice: null };
+
+export const getAllergenLabel = (allergen: Allergen) =>
+  ALLERGENS.find(entry => entry.id === allergen)?.label || allergen;
+
+const parseList = <T extends string>(value: string | null, allowed: { id: T }[]): T[] =>
+  (value || '').split(',').filter((entry): entry is T => allowed.some(option => option.id === entry));
+
+const parseNumber = (value: string | null) => {
+  if (value === null || value.trim() === '') return null;
+  const number = Number(value);
+  return Number.isFinite(number) && number >= 0 ? number : null;
+};
+
+// Unknown or malformed values in a shared link are dropped rather than failing
+export const parseMenuFilters = (searchParams: URLSearchParams): MenuFilters => {
+  const maxSpice = parseNumber(searchParams.get(PARAMS.maxSpice));
+  return {
+    diets: parseList(searchParams.get(PARAMS.diets), DIETS),
+    excludeAllergens: parseList(searchParams.get(PARAMS.excludeAllergens), ALLERGENS),
+    maxSpice: maxSpice === null ? null : Math.min(Math.floor(maxSpice), MAX_SPICE_LEVEL),
+    minPrice: parseNumber(searchParams.get(PARAMS.minPrice)),
+    maxPrice: parseNumber(searchParams.get(PARAMS.maxPrice))
+  };
+};
+
+// Writes the filters into the params, leaving table, category and the rest alone
+export const applyMenuFilters = (searchParams: URLSearchParams, filters: MenuFilters) => {
+  const params = new URLSearchParams(searchParams);
+  const values: { [param: string]: string } = {
+    [PARAMS.diets]: filters.diets.join(','),
+    [PARAMS.excludeAllergens]: filters.excludeAllergens.join(','),
+    [PARAMS.maxSpice]: filters.maxSpice === null ? '' : String(filters.maxSpice),
+    [PARAMS.minPrice]: filters.minPrice === null ? '' : String(filters.minPrice),
+    [PARAMS.maxPrice]: filters.maxPrice === null ? '' : String(filters.maxPrice)
+  };
+  Object.entries(values).forEach(([param, value]) => {
+    if (value) params.set(param, value);
+    else params.delete(param);
+  });
+  return params;
+};
+
+export const countActiveFilters = (filters: MenuFilters) =>
+  filters.diets.length
+  + filters.excludeAllergens.length
+  + (filters.maxSpice !== null ? 1 : 0)
+  + (filters.minPrice !== null || filters.maxPrice !== null ? 1 : 0);
+
+// Items nobody has tagged are hidden while allergens are excluded; we can't vouch for them
+export const matchesMenuFilters = (item: FilterableItem, filters: MenuFilters) => {
+  if (filters.diets.includes('vegetarian') && !item.isVegetarian && !item.isVegan) return false;
+  if (filters.diets.includes('vegan') && !item.isVegan) return false;
+  if (filters.diets.includes('gluten-free') && !item.isGlutenFree) return false;
+
+  if (filters.excludeAllergens.length > 0) {
+    if (!item.allergens) return false;
+    if (item.allergens.some(allergen => filters.excludeAllergens.includes(allergen))) return false;
+  }
+
+  if (filters.maxSpice !== null && (item.spiceLevel || 0) > filters.maxSpice) return false;
+  if (filters.minPrice !== null && item.price < filters.minPrice) return false;
+  if (filters.maxPrice !== null && item.price > filters.maxPrice) return false;
+  return true;
+};
@@ -0,0 +1,36 @@
+// services/menuOrder.ts - the order categories and items are listed in
+export interface SortOrderUpdate {
+  id: string;
+  sortOrder: number;
+}
+
+// Anything never reordered goes last, keeping the order it came in
+const UNSORTED = Number.MAX_SAFE_INTEGER;
+
+export const compareSortOrder = (a: { sortOrder?: number }, b: { sortOrder?: number }) =>
+  (a.sortOrder ?? UNSORTED) - (b.sortOrder ?? UNSORTED);
+
+// Items follow their category's position, then their own within it; categoryIds is in menu order
+export const sortMenuItems = <T extends { sortOrder?: number }>(
+  items: T[],
+  getCategoryId: (item: T) => string,
+  categoryIds: string[]
+) => {
+  const categoryPosition = new Map(categoryIds.map((id, index) => [id, index]));
+  const position = (item: T) => categoryPosition.get(getCategoryId(item)) ?? categoryIds.length;
+  return [...items].sort((a, b) => position(a) - position(b) || compareSortOrder(a, b));
+};
+
+// Numbers a dragged list from 1 in its new order
+export const toSortOrders = (ids: string[]): SortOrderUpdate[] =>
+  ids.map((id, index) => ({ id, sortOrder: index + 1 }));
+
+export const applySortOrders = <T extends { sortOrder?: number }>(
+  list: T[],
+  updates: SortOrderUpdate[],
+  getId: (entry: T) => string
+): T[] =>
+  list.map(entry => {
+    const update = updates.find(change => change.id === getId(entry));
+    return update ? { ...entry, sortOrder: update.sortOrder } : entry;
+  });
@@ -0,0 +1,431 @@
+// services/menuTransfer.ts - menu export to CSV/JSON and planning an import from either
+import { ALLERGENS } from './menuFilters';
+import { validateModifierGroups } from './modifiers';
+import type { Allergen, Category, CreateMenuItemData, MenuItem, ModifierGroup, UpdateMenuItemData } from '../types';
+
+export type MenuFileFormat = 'csv' | 'json';
+
+// One menu item as it appears in a file; the category goes by name so files work across restaurants
+export interface MenuTransferItem {
+  name: string;
+  description: string;
+  category: string;
+  price: number;
+  ingredients: string[];
+  preparationTime: number;
+  isVegetarian: boolean;
+  isVegan: boolean;
+  isGlutenFree: boolean;
+  spiceLevel: number;
+  isAvailable: boolean;
+  isTakeawayAvailable: boolean;
+  takeawayPrice: number;
+  packagingFee: number;
+  calories: number;
+  protein: number;
+  carbs: number;
+  fat: number;
+  fiber: number;
+  sugar: number;
+  sodium: number;
+  allergens: Allergen[];
+  modifierGroups: ModifierGroup[];
+  trackStock: boolean;
+  stockQuantity: number;
+  lowStockThreshold: number;
+}
+
+type TransferField = keyof MenuTransferItem;
+type FieldType = 'text' | 'number' | 'boolean' | 'list' | 'allergens' | 'groups';
+
+// Column order in exported files
+const FIELDS: { key: TransferField; type: FieldType }[] = [
+  { key: 'name', type: 'text' },
+  { key: 'description', type: 'text' },
+  { key: 'category', type: 'text' },
+  { key: 'price', type: 'number' },
+  { key: 'ingredients', type: 'list' },
+  { key: 'preparationTime', type: 'number' },
+  { key: 'isVegetarian', type: 'boolean' },
+  { key: 'isVegan', type: 'boolean' },
+  { key: 'isGlutenFree', type: 'boolean' },
+  { key: 'spiceLevel', type: 'number' },
+  { key: 'isAvailable', type: 'boolean' },
+  { key: 'isTakeawayAvailable', type: 'boolean' },
+  { key: 'takeawayPrice', type: 'number' },
+  { key: 'packagingFee', type: 'number' },
+  { key: 'calories', type: 'number' },
+  { key: 'protein', type: 'number' },
+  { key: 'carbs', type: 'number' },
+  { key: 'fat', type: 'number' },
+  { key: 'fiber', type: 'number' },
+  { key: 'sugar', type: 'number' },
+  { key: 'sodium', type: 'number' },
+  { key: 'allergens', type: 'allergens' },
+  { key: 'modifierGroups', type: 'groups' },
+  { key: 'trackStock', type: 'boolean' },
+  { key: 'stockQuantity', type: 'number' },
+  { key: 'lowStockThreshold', type: 'number' }
+];
+
+// Lists in CSV cells; commas are common inside ingredient names
+const LIST_SEPARATOR = ';';
+
+export interface MenuFileCategory {
+  name: string;
+  description?: string;
+}
+
+export interface MenuImportChange {
+  field: TransferField;
+  from: string;
+  to: string;
+}
+
+export interface MenuImportRow {
+  rowNumber: number;
+  name: string;
+  // Only the columns the file had
+  data: Partial<MenuTransferItem>;
+  existing: MenuItem | null;
+  changes: MenuImportChange[];
+  errors: string[];
+  // What happens unless the user picks otherwise
+  action: 'create' | 'update' | 'skip';
+}
+
+export type MenuImportAction = MenuImportRow['action'];
+
+export interface MenuImportPlan {
+  rows: MenuImportRow[];
+  // Categories a JSON export listed that this restaurant doesn't have yet, for their descriptions
+  fileCategories: MenuFileCategory[];
+}
+
+const getCategoryName = (item: MenuItem, categories: Category[]) => {
+  if (typeof item.category !== 'string') return item.category?.name || '';
+  return categories.find(category => category.id === item.category)?.name || '';
+};
+
+export const toTransferItem = (item: MenuItem, categories: Category[]): MenuTransferItem => ({
+  name: item.name,
+  description: item.description || '',
+  category: getCategoryName(item, categories),
+  price: item.price,
+  ingredients: item.ingredients || [],
+  preparationTime: item.preparationTime || 0,
+  isVegetarian: !!item.isVegetarian,
+  isVegan: !!item.isVegan,
+  isGlutenFree: !!item.isGlutenFree,
+  spiceLevel: item.spiceLevel || 0,
+  isAvailable: item.isAvailable !== false,
+  isTakeawayAvailable: !!item.takeaway?.isTakeawayAvailable,
+  takeawayPrice: item.takeaway?.takeawayPrice || 0,
+  packagingFee: item.takeaway?.packagingFee || 0,
+  calories: item.nutrition?.calories || 0,
+  protein: item.nutrition?.protein || 0,
+  carbs: item.nutrition?.carbs || 0,
+  fat: item.nutrition?.fat || 0,
+  fiber: item.nutrition?.fiber || 0,
+  sugar: item.nutrition?.sugar || 0,
+  sodium: item.nutrition?.sodium || 0,
+  allergens: item.allergens || [],
+  modifierGroups: item.modifierGroups || [],
+  trackStock: !!item.trackStock,
+  stockQuantity: item.stockQuantity || 0,
+  lowStockThreshold: item.lowStockThreshold || 0
+});
+
+// How a value reads in a CSV cell and in the import preview
+const formatValue = (value: unknown, type: FieldType) => {
+  if (type === 'groups') return (value as ModifierGroup[]).length > 0 ? JSON.stringify(value) : '';
+  if (Array.isArray(value)) return value.join(`${LIST_SEPARATOR} `);
+  if (typeof value === 'boolean') return value ? 'yes' : 'no';
+  return String(value ?? '');
+};
+
+// Spreadsheets run cells starting with these as formulas
+const FORMULA_PREFIX = /^[=+\-@\t\r]/;
+
+// A leading ' keeps a cell as text; readMenuFile takes it off again
+const escapeCsvCell = (value: string) => {
+  const text = FORMULA_PREFIX.test(value) ? `'${value}` : value;
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+export const exportMenuCsv = (items: MenuItem[], categories: Category[]) => {
+  const lines = [FIELDS.map(field => field.key).join(',')];
+  items.forEach(item => {
+    const row = toTransferItem(item, categories);
+    lines.push(FIELDS.map(field => escapeCsvCell(formatValue(row[field.key], field.type))).join(','));
+  });
+  return lines.join('\r\n');
+};
+
+export const exportMenuJson = (items: MenuItem[], categories: Category[]) =>
+  JSON.stringify({
+    exportedAt: new Date().toISOString(),
+    categories: categories.map(category => ({ name: category.name, description: category.description || '' })),
+    menuItems: items.map(item => toTransferItem(item, categories))
+  }, null, 2);
+
+export const downloadMenuFile = (content: string, format: MenuFileFormat) => {
+  const type = format === 'csv' ? 'text/csv;charset=utf-8' : 'application/json';
+  const url = URL.createObjectURL(new Blob([content], { type }));
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = `menu-${new Date().toISOString().slice(0, 10)}.${format}`;
+  link.click();
+  URL.revokeObjectURL(url);
+};
+
+// RFC 4180: quoted cells may hold commas, quotes ("") and line breaks
+const parseCsv = (text: string): string[][] => {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let cell = '';
+  let quoted = false;
+
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+    if (quoted) {
+      if (char === '"' && text[i + 1] === '"') {
+        cell += '"';
+        i++;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        cell += char;
+      }
+    } else if (char === '"') {
+      quoted = true;
+    } else if (char === ',') {
+      row.push(cell);
+      cell = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && text[i + 1] === '\n') i++;
+      row.push(cell);
+      rows.push(row);
+      row = [];
+      cell = '';
+    } else {
+      cell += char;
+    }
+  }
+  if (cell || row.length > 0) {
+    row.push(cell);
+    rows.push(row);
+  }
+  return rows.filter(cells => cells.some(value => value.trim()));
+};
+
+// Raw records keyed by column, plus any categories a JSON export listed
+export const readMenuFile = (text: string, format: MenuFileFormat) => {
+  const content = text.replace(/^\uFEFF/, '');
+  if (format === 'json') {
+    const data = JSON.parse(content);
+    const records: Record<string, unknown>[] = Array.isArray(data) ? data : data.menuItems;
+    if (!Array.isArray(records)) throw new Error('The file has no menuItems list');
+    const categories: MenuFileCategory[] = Array.isArray(data.categories) ? data.categories : [];
+    return { records, categories };
+  }
+
+  const [header, ...rows] = parseCsv(content);
+  if (!header) throw new Error('The file is empty');
+  const columns = header.map(column => column.trim());
+  const records = rows.map(cells => {
+    const record: Record<string, unknown> = {};
+    columns.forEach((column, index) => {
+      const cell = cells[index] ?? '';
+      record[column] = cell.startsWith("'") && FORMULA_PREFIX.test(cell.slice(1)) ? cell.slice(1) : cell;
+    });
+    return record;
+  });
+  return { records, categories: [] as MenuFileCategory[] };
+};
+
+const parseBoolean = (value: unknown) => {
+  if (typeof value === 'boolean') return value;
+  const text = String(value).trim().toLowerCase();
+  if (['yes', 'true', '1', 'y'].includes(text)) return true;
+  if (['no', 'false', '0', 'n'].includes(text)) return false;
+  return null;
+};
+
+const parseList = (value: unknown) =>
+  (Array.isArray(value) ? value.map(String) : String(value).split(LIST_SEPARATOR))
+    .map(entry => entry.trim())
+    .filter(Boolean);
+
+// Reads one field; returns the value, an error message, or neither when a number or yes/no cell is blank
+const parseField = (value: unknown, key: TransferField, type: FieldType): { value?: unknown; error?: string } => {
+  switch (type) {
+    case 'text':
+      return { value: String(value ?? '').trim() };
+    case 'number': {
+      // Blank isn't 0: a new item still needs its price, and an update leaves the field alone
+      if (value === null || value === undefined || String(value).trim() === '') return {};
+      const number = typeof value === 'number' ? value : Number(String(value).trim());
+      if (!Number.isFinite(number) || number < 0) return { error: `${key} must be a number of 0 or more` };
+      if (key === 'spiceLevel' && (!Number.isInteger(number) || number > 4)) return { error: 'spiceLevel must be 0 to 4' };
+      return { value: number };
+    }
+    case 'boolean': {
+      // Blank isn't "no": a new item gets the add form's default, and an update leaves the field alone
+      if (value === null || value === undefined || String(value).trim() === '') return {};
+      const parsed = parseBoolean(value);
+      return parsed === null ? { error: `${key} must be yes or no` } : { value: parsed };
+    }
+    case 'list':
+      return { value: parseList(value) };
+    case 'allergens': {
+      const allergens: Allergen[] = [];
+      for (const entry of parseList(value)) {
+        const match = ALLERGENS.find(allergen =>
+          allergen.id === entry.toLowerCase() || allergen.label.toLowerCase() === entry.toLowerCase()
+        );
+        if (!match) return { error: `Unknown allergen "${entry}"` };
+        if (!allergens.includes(match.id)) allergens.push(match.id);
+      }
+      return { value: allergens };
+    }
+    case 'groups': {
+      if (value === '' || value === null || value === undefined) return { value: [] };
+      try {
+        const groups = typeof value === 'string' ? JSON.parse(value) : value;
+        if (!Array.isArray(groups)) return { error: 'modifierGroups must be a list' };
+        const error = validateModifierGroups(groups);
+        return error ? { error } : { value: groups };
+      } catch {
+        return { error: 'modifierGroups is not valid JSON' };
+      }
+    }
+  }
+};
+
+const valuesEqual = (a: unknown, b: unknown) => JSON.stringify(a) === JSON.stringify(b);
+
+// Matches rows to existing items by name and works out what each would change
+export const planMenuImport = (
+  records: Record<string, unknown>[],
+  fileCategories: MenuFileCategory[],
+  items: MenuItem[],
+  categories: Category[]
+): MenuImportPlan => {
+  const seenNames = new Set<string>();
+
+  const rows = records.map((record, index): MenuImportRow => {
+    // Header is row 1 in a spreadsheet
+    const rowNumber = index + 2;
+    const data: Partial<MenuTransferItem> = {};
+    const errors: string[] = [];
+
+    FIELDS.forEach(field => {
+      if (!(field.key in record)) return;
+      const parsed = parseField(record[field.key], field.key, field.type);
+      if (parsed.error) errors.push(parsed.error);
+      else if (parsed.value !== undefined) (data as Record<string, unknown>)[field.key] = parsed.value;
+    });
+
+    const name = data.name || '';
+    const existing = items.find(item => item.name.trim().toLowerCase() === name.toLowerCase()) || null;
+    if (!name) errors.push('name is required');
+    else if (seenNames.has(name.toLowerCase())) errors.push(`${name} appears more than once in the file`);
+    seenNames.add(name.toLowerCase());
+
+    if (!existing) {
+      if (data.price === undefined) errors.push('price is required for a new item');
+      if (!data.category) errors.push('category is required for a new item');
+    }
+
+    const current = existing ? toTransferItem(existing, categories) : null;
+    const changes: MenuImportChange[] = [];
+    FIELDS.forEach(field => {
+      if (!(field.key in data) || field.key === 'name') return;
+      const to = data[field.key];
+      const from = current ? current[field.key] : undefined;
+      if (current && (valuesEqual(from, to) || (field.key === 'category' && String(from).toLowerCase() === String(to).toLowerCase()))) {
+        return;
+      }
+      changes.push({ field: field.key, from: current ? formatValue(from, field.type) : '', to: formatValue(to, field.type) });
+    });
+
+    return {
+      rowNumber,
+      name,
+      data,
+      existing,
+      changes,
+      errors,
+      action: errors.length > 0 || (existing && changes.length === 0) ? 'skip' : existing ? 'update' : 'create'
+    };
+  });
+
+  return {
+    rows,
+    fileCategories: fileCategories.filter(category => category.name?.trim() && !findCategory(category.name, categories))
+  };
+};
+
+export const findCategory = (name: string, categories: Category[]) =>
+  categories.find(category => category.name.trim().toLowerCase() === name.trim().toLowerCase());
+
+// Categories to create before the chosen rows can be saved; a JSON export's list only
+// supplies descriptions, so categories no chosen row uses are left out
+export const getNewCategories = (
+  plan: MenuImportPlan,
+  actions: Record<number, MenuImportAction>,
+  categories: Category[]
+): MenuFileCategory[] => {
+  const names = new Map<string, MenuFileCategory>();
+  plan.rows.forEach(row => {
+    const name = row.data.category?.trim();
+    if (actions[row.rowNumber] === 'skip' || !name || findCategory(name, categories) || names.has(name.toLowerCase())) return;
+    const listed = plan.fileCategories.find(category => category.name.trim().toLowerCase() === name.toLowerCase());
+    names.set(name.toLowerCase(), listed ? { ...listed, name: listed.name.trim() } : { name });
+  });
+  return [...names.values()];
+};
+
+// Fields for a new item; anything the file left out gets the same default as the add form
+export const toCreateMenuItemData = (row: MenuImportRow, categoryId: string, restaurantId: string): CreateMenuItemData => {
+  const data = row.data;
+  return {
+    name: row.name,
+    description: data.description || '',
+    price: data.price || 0,
+    category: categoryId,
+    restaurant: restaurantId,
+    ingredients: data.ingredients || [],
+    preparationTime: data.preparationTime || 15,
+    isVegetarian: data.isVegetarian || false,
+    isVegan: data.isVegan || false,
+    isGlutenFree: data.isGlutenFree || false,
+    spiceLevel: data.spiceLevel || 0,
+    isAvailable: data.isAvailable ?? true,
+    isTakeawayAvailable: data.isTakeawayAvailable ?? true,
+    takeawayPrice: data.takeawayPrice || data.price || 0,
+    packagingFee: data.packagingFee || 0,
+    calories: data.calories || 0,
+    protein: data.protein || 0,
+    carbs: data.carbs || 0,
+    fat: data.fat || 0,
+    fiber: data.fiber || 0,
+    sugar: data.sugar || 0,
+    sodium: data.sodium || 0,
+    allergens: data.allergens || [],
+    modifierGroups: data.modifierGroups || [],
+    trackStock: data.trackStock || false,
+    stockQuantity: data.stockQuantity || 0,
+    lowStockThreshold: data.lowStockThreshold || 0
+  };
+};
+
+// Only the fields that changed, so an update never resets what the file left out
+export const toUpdateMenuItemData = (row: MenuImportRow, categoryId?: string): UpdateMenuItemData => {
+  const update: Record<string, unknown> = {};
+  row.changes.forEach(change => {
+    update[change.field] = change.field === 'category' ? categoryId : row.data[change.field];
+  });
+  return update as UpdateMenuItemData;
+};
@@ -0,0 +1,76 @@
+// services/modifiers.ts - option groups on menu items and the options picked on cart and order lines
+import type { ModifierGroup, SelectedModifier } from '../types';
+
+const CART_KEY_SEPARATOR = '::';
+
+// How many options a group takes; a required group always needs at least one
+export const getSelectionRange = (group: ModifierGroup) => {
+  const min = Math.max(group.required ? 1 : 0, group.minSelections || 0);
+  const max = group.maxSelections > 0 ? Math.max(min, group.maxSelections) : group.options.length;
+  return { min, max };
+};
+
+// Customer-facing hint, e.g. "Required", "Up to 3", "Choose 2"
+export const describeSelectionRange = (group: ModifierGroup) => {
+  const { min, max } = getSelectionRange(group);
+  if (min === max) return min === 1 ? 'Required' : `Choose ${min}`;
+  if (min > 0) return `Choose ${min} to ${max}`;
+  return max === 1 ? 'Optional' : `Up to ${max}`;
+};
+
+export const getModifierTotal = (modifiers?: SelectedModifier[]) =>
+  (modifiers || []).reduce((sum, modifier) => sum + (modifier.priceDelta || 0), 0);
+
+// First rule the picked options break, if any
+export const validateModifiers = (groups: ModifierGroup[], modifiers: SelectedModifier[]): string | null => {
+  for (const group of groups) {
+    const count = modifiers.filter(modifier => modifier.group === group.name).length;
+    const { min, max } = getSelectionRange(group);
+    if (count < min) {
+      return min === 1 ? `Please choose a ${group.name}` : `Please choose at least ${min} for ${group.name}`;
+    }
+    if (count > max) {
+      return `You can choose up to ${max} for ${group.name}`;
+    }
+  }
+  return null;
+};
+
+// Checks the groups a manager set up before they are saved
+export const validateModifierGroups = (groups: ModifierGroup[]): string | null => {
+  const names = new Set<string>();
+  for (const group of groups) {
+    const name = group.name.trim();
+    if (!name) return 'Every option group needs a name';
+    if (names.has(name.toLowerCase())) return `There are two option groups called ${name}`;
+    names.add(name.toLowerCase());
+
+    const options = group.options.filter(option => option.name.trim());
+    if (options.length === 0) return `${name} needs at least one option`;
+    const { min } = getSelectionRange(group);
+    if (min > options.length) return `${name} asks for ${min} options but only has ${options.length}`;
+    if (group.maxSelections > 0 && group.maxSelections < group.minSelections) {
+      return `${name} allows fewer options than it requires`;
+    }
+  }
+  return null;
+};
+
+// The same item with different options gets its own cart line
+export const getCartKey = (itemId: string, modifiers?: SelectedModifier[]) => {
+  if (!modifiers || modifiers.length === 0) return itemId;
+  const signature = modifiers.map(modifier => `${modifier.group}:${modifier.option}`).sort().join('|');
+  return `${itemId}${CART_KEY_SEPARATOR}${signature}`;
+};
+
+export const getCartKeyItemId = (key: string) => key.split(CART_KEY_SEPARATOR)[0];
+
+// Options grouped for display: "Size: Large · Extras: Cheese, Bacon"
+export const formatModifiers = (modifiers?: SelectedModifier[]) => {
+  const groups: { [group: string]: string[] } = {};
+  (modifiers || []).forEach(modifier => {
+    if (!groups[modifier.group]) groups[modifier.group] = [];
+    groups[modifier.group].push(modifier.option);
+  });
+  return Object.entries(groups).map(([group, options]) => `${group}: ${options.join(', ')}`).join(' · ');
+};
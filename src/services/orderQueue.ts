@@ -0,0 +1,107 @@
+// services/orderQueue.ts
+import axios from 'axios';
+import { orderService } from './orders';
+import type { CreateOrderData, Order, QueuedOrder } from '../types';
+
+const QUEUE_KEY = 'pending_orders';
+
+// True when the request never reached the server (offline, DNS, timeout)
+export const isNetworkError = (error: unknown) => axios.isAxiosError(error) && !error.response;
+
+export const createIdempotencyKey = () => {
+  if (typeof crypto !== 'undefined' && 'randomUUID' in crypto) {
+    return crypto.randomUUID();
+  }
+  return `order_${Date.now()}_${Math.random().toString(36).substr(2, 12)}`;
+};
+
+const readQueue = (): QueuedOrder[] => {
+  try {
+    const saved = localStorage.getItem(QUEUE_KEY);
+    return saved ? JSON.parse(saved) : [];
+  } catch (error) {
+    console.error('❌ OrderQueue - Failed to read queue:', error);
+    return [];
+  }
+};
+
+const writeQueue = (queue: QueuedOrder[]) => {
+  localStorage.setItem(QUEUE_KEY, JSON.stringify(queue));
+};
+
+interface EnqueueOptions {
+  tableNumber: string;
+  restaurantInfo?: QueuedOrder['restaurantInfo'];
+  // Reuse the key of a submit that may have reached the server before failing
+  idempotencyKey?: string;
+}
+
+interface FlushCallbacks {
+  onSubmitted: (order: Order, entry: QueuedOrder) => void;
+  onRejected: (error: unknown, entry: QueuedOrder) => void;
+}
+
+// Only one replay at a time, so the same order is never posted twice in parallel
+let activeFlush: Promise<void> | null = null;
+
+export const orderQueue = {
+  getAll: (): QueuedOrder[] => readQueue(),
+
+  // Persist an order for later submission
+  enqueue: (orderData: CreateOrderData, { tableNumber, restaurantInfo, idempotencyKey }: EnqueueOptions): QueuedOrder => {
+    const entry: QueuedOrder = {
+      idempotencyKey: idempotencyKey || createIdempotencyKey(),
+      orderData,
+      tableNumber,
+      restaurantInfo,
+      queuedAt: new Date().toISOString(),
+      attempts: 0
+    };
+    writeQueue([...readQueue(), entry]);
+    console.log('📥 OrderQueue - Order queued:', entry.idempotencyKey);
+    return entry;
+  },
+
+  remove: (idempotencyKey: string) => {
+    writeQueue(readQueue().filter(entry => entry.idempotencyKey !== idempotencyKey));
+  },
+
+  // Replay queued orders in the order they were placed. Stops at the first
+  // network failure; orders the server rejects outright are dropped.
+  flush: (callbacks: FlushCallbacks): Promise<void> => {
+    if (activeFlush) return activeFlush;
+
+    activeFlush = (async () => {
+      for (const entry of readQueue()) {
+        try {
+          const order = await orderService.createOrder(entry.orderData, entry.idempotencyKey);
+          orderQueue.remove(entry.idempotencyKey);
+          console.log('✅ OrderQueue - Replayed order:', order.orderNumber);
+          callbacks.onSubmitted(order, entry);
+        } catch (error) {
+          if (isNetworkError(error)) {
+            console.log('📴 OrderQueue - Still offline, will retry later');
+            break;
+          }
+
+          const status = axios.isAxiosError(error) ? error.response?.status : undefined;
+          if (status && status >= 500) {
+            // Server trouble: keep the order and try again on the next flush
+            writeQueue(readQueue().map(queued =>
+              queued.idempotencyKey === entry.idempotencyKey ? { ...queued, attempts: queued.attempts + 1 } : queued
+            ));
+            break;
+          }
+
+          console.error('❌ OrderQueue - Order rejected by server:', error);
+          orderQueue.remove(entry.idempotencyKey);
+          callbacks.onRejected(error, entry);
+        }
+      }
+    })().finally(() => {
+      activeFlush = null;
+    });
+
+    return activeFlush;
+  },
+};
@@ -0,0 +1,177 @@
+// services/orders.ts
+import api, { API_URL, publicApi } from './api';
+import type { CreateOrderData, Order, OrderItem, OrderResponse, OrdersResponse, OrderStatus, RecordPaymentData, StreamResume } from '../types';
+
+// On reconnect, `since` and `lastEventId` let the server replay whatever was
+// emitted during the outage
+export const withStreamResume = (url: string, resume?: StreamResume) => {
+  const params = new URLSearchParams();
+  if (resume?.since) params.set('since', resume.since);
+  if (resume?.lastEventId) params.set('lastEventId', resume.lastEventId);
+  const query = params.toString();
+  return `${url}${query ? `?${query}` : ''}`;
+};
+
+export const orderService = {
+  // Get orders for the authenticated restaurant ('all' or a single status)
+  getOrders: async (status: OrderStatus | 'all' = 'all', signal?: AbortSignal): Promise<Order[]> => {
+    try {
+      const response = await api.get<OrdersResponse>('/orders', { params: { status }, signal });
+      return response.data.orders || [];
+    } catch (error) {
+      console.error('❌ OrderService - Error fetching orders:', error);
+      throw error;
+    }
+  },
+
+  // Update order status. The server adjusts stock in the same transition (accepting deducts,
+  // cancelling an accepted order restores) and broadcasts stock_updated to every client.
+  updateOrderStatus: async (orderId: string, status: OrderStatus): Promise<Order> => {
+    try {
+      const response = await api.put<OrderResponse>(`/orders/${orderId}/status`, { status });
+      return response.data.order;
+    } catch (error) {
+      console.error('❌ OrderService - Error updating order status:', error);
+      throw error;
+    }
+  },
+
+  // Mark order as paid
+  markAsPaid: async (orderId: string): Promise<Order> => {
+    try {
+      const response = await api.put<OrderResponse>(`/orders/${orderId}/pay`);
+      return response.data.order;
+    } catch (error) {
+      console.error('❌ OrderService - Error marking order as paid:', error);
+      throw error;
+    }
+  },
+
+  // Mark order as unpaid
+  markAsUnpaid: async (orderId: string): Promise<Order> => {
+    try {
+      const response = await api.put<OrderResponse>(`/orders/${orderId}/unpay`);
+      return response.data.order;
+    } catch (error) {
+      console.error('❌ OrderService - Error marking order as unpaid:', error);
+      throw error;
+    }
+  },
+
+  // Record a (partial) payment; the server moves the order to partially_paid
+  // or paid depending on the remaining balance
+  recordPayment: async (orderId: string, payment: RecordPaymentData): Promise<Order> => {
+    try {
+      const response = await api.post<OrderResponse>(`/orders/${orderId}/payments`, payment);
+      return response.data.order;
+    } catch (error) {
+      console.error('❌ OrderService - Error recording payment:', error);
+      throw error;
+    }
+  },
+
+  // Place an order from the customer menu (public). The idempotency key lets
+  // the server drop duplicates when a queued order is replayed.
+  createOrder: async (orderData: CreateOrderData, idempotencyKey?: string): Promise<Order> => {
+    try {
+      console.log('📦 OrderService - Creating order:', orderData);
+      const response = await publicApi.post<OrderResponse>('/orders', orderData, {
+        headers: idempotencyKey ? { 'Idempotency-Key': idempotencyKey } : undefined
+      });
+      return response.data.order;
+    } catch (error) {
+      console.error('❌ OrderService - Error creating order:', error);
+      throw error;
+    }
+  },
+
+  // Get a single order for the customer (public)
+  getPublicOrder: async <T = Order>(orderId: string): Promise<T> => {
+    const response = await publicApi.get<{ order: T }>(`/public/orders/${orderId}`);
+    return response.data.order;
+  },
+
+  // Get a single order by its order number (public)
+  getPublicOrderByNumber: async <T = Order>(orderNumber: string): Promise<T> => {
+    const response = await publicApi.get<{ order: T }>(`/public/orders/by-number/${orderNumber}`);
+    return response.data.order;
+  },
+
+  // URL of the live orders stream for a restaurant (staff only: it carries every order)
+  getStreamUrl: (restaurantId: string, resume?: StreamResume) =>
+    withStreamResume(`${API_URL}/orders/stream/${restaurantId}`, resume),
+
+  // URL of the public stream of one order's updates, for the customer tracking it
+  getPublicStreamUrl: (orderId: string, resume?: StreamResume) =>
+    withStreamResume(`${API_URL}/public/orders/${orderId}/stream`, resume),
+};
+
+// Merge a fresh server snapshot into local state. Returns the merged list plus
+// the orders that were missing locally, so callers can surface recovered tickets.
+export const reconcileOrders = (current: Order[], fresh: Order[]) => {
+  const currentById = new Map(current.map(order => [order._id, order]));
+  const added: Order[] = [];
+
+  const merged = fresh.map(serverOrder => {
+    const localOrder = currentById.get(serverOrder._id);
+    if (!localOrder) {
+      added.push(serverOrder);
+      return serverOrder;
+    }
+    // Keep the local copy only if it is strictly newer (e.g. an optimistic update in flight)
+    return new Date(localOrder.updatedAt).getTime() > new Date(serverOrder.updatedAt).getTime()
+      ? localOrder
+      : serverOrder;
+  });
+
+  return { orders: merged, added };
+};
+
+// Amount already collected on an order
+export const getAmountPaid = (order: Order) => {
+  if (order.paymentStatus === 'paid') return order.totalAmount;
+  if (order.amountPaid !== undefined) return order.amountPaid;
+  return (order.payments || []).reduce((sum, payment) => sum + payment.amount, 0);
+};
+
+// How much of each line (by index) earlier by-item payments already covered
+export const getPaidItemQuantities = (order: Order) => {
+  const paid: Record<number, number> = {};
+  (order.payments || []).forEach(payment => {
+    (payment.items || []).forEach(item => {
+      paid[item.itemIndex] = (paid[item.itemIndex] || 0) + item.quantity;
+    });
+  });
+  return paid;
+};
+
+// What is still owed on an order
+export const getRemainingBalance = (order: Order) => Math.max(0, order.totalAmount - getAmountPaid(order));
+
+const DEFAULT_PREP_MINUTES = 15;
+
+// Prep time for an order: its own value, else the slowest item on it, else the
+// default when no item has a prep time
+export const getPrepMinutes = (order: Order) => {
+  if (order.preparationTime) return order.preparationTime;
+  const itemTimes = order.items.map(item => item.menuItem?.preparationTime || 0).filter(minutes => minutes > 0);
+  return itemTimes.length > 0 ? Math.max(...itemTimes) : DEFAULT_PREP_MINUTES;
+};
+
+// Orders that still owe money (the "Unpaid" tab)
+export const isAwaitingPayment = (order: Order) =>
+  order.paymentStatus === 'pending' || order.paymentStatus === 'partially_paid';
+
+// Orders placed before lines carried isTakeaway marked takeaway by setting the
+// whole special instructions to "Takeaway"
+const LEGACY_TAKEAWAY_MARKER = 'Takeaway';
+
+const isLegacyTakeaway = (item: Pick<OrderItem, 'isTakeaway' | 'specialInstructions'>) =>
+  item.isTakeaway === undefined && item.specialInstructions?.trim() === LEGACY_TAKEAWAY_MARKER;
+
+export const isTakeawayItem = (item: Pick<OrderItem, 'isTakeaway' | 'specialInstructions'>) =>
+  item.isTakeaway ?? isLegacyTakeaway(item);
+
+// The customer's note on a line
+export const getItemNote = (item: Pick<OrderItem, 'isTakeaway' | 'specialInstructions'>) =>
+  isLegacyTakeaway(item) ? '' : (item.specialInstructions || '').trim();
@@ -0,0 +1,347 @@
+// services/print.ts - receipts and kitchen tickets, as HTML or ESC/POS text
+import { isTakeawayItem, getItemNote } from './orders';
+import type { Order, OrderItem, PaymentMethod, Restaurant, SelectedModifier } from '../types';
+
+export type PrintDocument = 'receipt' | 'kitchen';
+export type PaperWidth = 58 | 80;
+
+// Characters per line in the printer's default font
+const CHARS_PER_LINE: Record<PaperWidth, number> = { 58: 32, 80: 48 };
+
+const PAYMENT_METHOD_LABELS: Record<PaymentMethod, string> = {
+  cash: 'Cash',
+  mobile_money: 'Mobile Money',
+  card: 'Card'
+};
+
+// One line of thermal output; double size halves the characters per line
+interface ThermalLine {
+  text: string;
+  bold?: boolean;
+  double?: boolean;
+}
+
+// Shared order facts used by every template
+const getItemName = (item: OrderItem) => item.menuItem?.name || 'Item';
+
+const getPackagingFee = (item: OrderItem) =>
+  isTakeawayItem(item) ? (item.menuItem?.takeaway?.packagingFee || 0) * item.quantity : 0;
+
+const formatAmount = (amount: number) => amount.toLocaleString('en-US');
+
+// Item prices already include their options, so a delta is only shown for reference
+const formatModifier = (modifier: SelectedModifier, withPrice: boolean) =>
+  `+ ${modifier.option}${withPrice && modifier.priceDelta
+    ? ` (${modifier.priceDelta > 0 ? '+' : '-'}${formatAmount(Math.abs(modifier.priceDelta))})`
+    : ''}`;
+
+const formatDateTime = (dateString: string) => new Date(dateString).toLocaleString('en-US', {
+  day: '2-digit',
+  month: 'short',
+  hour: '2-digit',
+  minute: '2-digit'
+});
+
+const getAddressLines = (restaurant?: Partial<Restaurant> | null) => {
+  const address = restaurant?.address;
+  if (!address) return [];
+  return [address.street, [address.city, address.state].filter(Boolean).join(', ')].filter(Boolean) as string[];
+};
+
+const getPaymentLines = (order: Order) => {
+  const payments = order.payments || [];
+  if (payments.length > 0) {
+    return payments.map(payment => ({
+      label: `Paid (${PAYMENT_METHOD_LABELS[payment.method]}${payment.payerName ? `, ${payment.payerName}` : ''})`,
+      amount: payment.amount
+    }));
+  }
+  return order.paymentStatus === 'paid' ? [{ label: 'Paid', amount: order.totalAmount }] : [];
+};
+
+const getRemaining = (order: Order) => {
+  if (order.paymentStatus === 'paid') return 0;
+  const paid = getPaymentLines(order).reduce((sum, line) => sum + line.amount, 0);
+  return Math.max(0, order.totalAmount - paid);
+};
+
+// ---- Thermal (plain text / ESC/POS) ----
+
+// Thermal printers only know their code page, so keep output ASCII
+const toPrintable = (text: string) => text.normalize('NFD').replace(/[\u0300-\u036f]/g, '').replace(/[^\x20-\x7e]/g, '?');
+
+const center = (text: string, width: number) => {
+  const trimmed = text.slice(0, width);
+  return ' '.repeat(Math.floor((width - trimmed.length) / 2)) + trimmed;
+};
+
+const columns = (left: string, right: string, width: number) => {
+  const available = width - right.length - 1;
+  const leftText = left.length > available ? left.slice(0, available) : left;
+  return leftText + ' '.repeat(width - leftText.length - right.length) + right;
+};
+
+const wrap = (text: string, width: number, indent = '') => {
+  const lines: string[] = [];
+  let current = '';
+  text.split(/\s+/).filter(Boolean).forEach(word => {
+    if ((current + ' ' + word).trim().length > width - indent.length) {
+      if (current) lines.push(indent + current);
+      current = word.slice(0, width - indent.length);
+    } else {
+      current = (current + ' ' + word).trim();
+    }
+  });
+  if (current) lines.push(indent + current);
+  return lines;
+};
+
+const buildReceiptLines = (order: Order, restaurant: Partial<Restaurant> | null | undefined, width: number): ThermalLine[] => {
+  const divider = { text: '-'.repeat(width) };
+  const lines: ThermalLine[] = [];
+
+  lines.push({ text: center(restaurant?.name || 'Receipt', width / 2), bold: true, double: true });
+  getAddressLines(restaurant).forEach(line => lines.push({ text: center(line, width) }));
+  if (restaurant?.contact?.phone) lines.push({ text: center(`Tel: ${restaurant.contact.phone}`, width) });
+  lines.push(divider);
+
+  lines.push({ text: columns(`Order #${order.orderNumber}`, formatDateTime(order.createdAt), width), bold: true });
+  lines.push({ text: order.table ? `Table ${order.table.tableNumber}` : order.orderType.toUpperCase() });
+  if (order.customerName) lines.push({ text: `Customer: ${order.customerName}` });
+  lines.push(divider);
+
+  order.items.forEach(item => {
+    lines.push({ text: columns(`${item.quantity}x ${getItemName(item)}`, formatAmount(item.price * item.quantity), width) });
+    item.modifiers?.forEach(modifier => lines.push({ text: `   ${formatModifier(modifier, true)}`.slice(0, width) }));
+    const packagingFee = getPackagingFee(item);
+    if (isTakeawayItem(item)) {
+      lines.push({ text: `   Takeaway${packagingFee ? ` (incl. packaging ${formatAmount(packagingFee)})` : ''}` });
+    }
+    if (item.guestName) lines.push({ text: `   For: ${item.guestName}` });
+  });
+  lines.push(divider);
+
+  const packagingTotal = order.items.reduce((sum, item) => sum + getPackagingFee(item), 0);
+  if (packagingTotal > 0) {
+    lines.push({ text: columns('Packaging fees', formatAmount(packagingTotal), width) });
+  }
+  lines.push({ text: columns('TOTAL', `${formatAmount(order.totalAmount)} CFA`, width), bold: true });
+
+  getPaymentLines(order).forEach(payment => {
+    lines.push({ text: columns(payment.label, formatAmount(payment.amount), width) });
+  });
+  const remaining = getRemaining(order);
+  lines.push(remaining > 0
+    ? { text: columns('Balance due', `${formatAmount(remaining)} CFA`, width), bold: true }
+    : { text: center('*** PAID ***', width), bold: true });
+
+  lines.push(divider);
+  lines.push({ text: center('Thank you!', width) });
+  return lines;
+};
+
+const buildKitchenLines = (order: Order, width: number): ThermalLine[] => {
+  const divider = { text: '='.repeat(width) };
+  const lines: ThermalLine[] = [];
+
+  lines.push({ text: center(`#${order.orderNumber}`, width / 2), bold: true, double: true });
+  lines.push({ text: center([
+    new Date(order.createdAt).toLocaleTimeString('en-US', { hour: '2-digit', minute: '2-digit' }),
+    order.table ? `Table ${order.table.tableNumber}` : order.orderType.toUpperCase()
+  ].join(' | '), width) });
+  lines.push(divider);
+
+  order.items.forEach(item => {
+    lines.push({ text: `${item.quantity} x ${getItemName(item)}`.slice(0, width / 2), bold: true, double: true });
+    item.modifiers?.forEach(modifier => lines.push({ text: `   ${formatModifier(modifier, false)}`.slice(0, width), bold: true }));
+    if (isTakeawayItem(item)) lines.push({ text: '   ** TAKEAWAY **', bold: true });
+    if (getItemNote(item)) {
+      wrap(getItemNote(item), width, '   > ').forEach(text => lines.push({ text, bold: true }));
+    }
+    if (item.guestName) lines.push({ text: `   (${item.guestName})` });
+  });
+
+  if (order.customerNotes) {
+    lines.push(divider);
+    wrap(`NOTE: ${order.customerNotes}`, width).forEach(text => lines.push({ text, bold: true }));
+  }
+  lines.push(divider);
+  if (order.customerName) lines.push({ text: center(order.customerName, width) });
+  return lines;
+};
+
+const getThermalLines = (documentType: PrintDocument, order: Order, restaurant: Partial<Restaurant> | null | undefined, paperWidth: PaperWidth) => {
+  const width = CHARS_PER_LINE[paperWidth];
+  const lines = documentType === 'receipt' ? buildReceiptLines(order, restaurant, width) : buildKitchenLines(order, width);
+  return lines.map(line => ({ ...line, text: toPrintable(line.text) }));
+};
+
+// Plain-text rendering, for previews and "print as text"
+export const buildThermalText = (documentType: PrintDocument, order: Order, restaurant: Partial<Restaurant> | null | undefined, paperWidth: PaperWidth) =>
+  getThermalLines(documentType, order, restaurant, paperWidth).map(line => line.text).join('\n');
+
+// Raw ESC/POS bytes: init, text with bold/double-size toggles, feed and cut
+export const buildEscPos = (documentType: PrintDocument, order: Order, restaurant: Partial<Restaurant> | null | undefined, paperWidth: PaperWidth) => {
+  const ESC = 0x1b;
+  const GS = 0x1d;
+  const bytes: number[] = [ESC, 0x40];
+
+  getThermalLines(documentType, order, restaurant, paperWidth).forEach(line => {
+    bytes.push(ESC, 0x45, line.bold ? 1 : 0);
+    bytes.push(GS, 0x21, line.double ? 0x11 : 0x00);
+    for (let i = 0; i < line.text.length; i++) {
+      bytes.push(line.text.charCodeAt(i));
+    }
+    bytes.push(0x0a);
+  });
+
+  bytes.push(ESC, 0x45, 0, GS, 0x21, 0x00);
+  bytes.push(ESC, 0x64, 4); // Feed 4 lines
+  bytes.push(GS, 0x56, 0x42, 0x00); // Partial cut
+  return new Uint8Array(bytes);
+};
+
+// ---- HTML ----
+
+export const escapeHtml = (text: string) => text
+  .replace(/&/g, '&amp;')
+  .replace(/</g, '&lt;')
+  .replace(/>/g, '&gt;')
+  .replace(/"/g, '&quot;');
+
+const wrapHtml = (title: string, body: string, pageCss: string) => `<!doctype html>
+<html>
+<head>
+<meta charset="utf-8" />
+<title>${escapeHtml(title)}</title>
+<style>
+  ${pageCss}
+  body { font-family: -apple-system, 'Segoe UI', Roboto, sans-serif; color: #111; margin: 0; padding: 16px; }
+  h1 { font-size: 20px; margin: 4px 0; }
+  .center { text-align: center; }
+  .muted { color: #666; font-size: 12px; }
+  .divider { border-top: 1px dashed #999; margin: 10px 0; }
+  .row { display: flex; justify-content: space-between; gap: 8px; font-size: 14px; margin: 3px 0; }
+  .sub { font-size: 12px; color: #555; padding-left: 18px; }
+  .total { font-weight: 700; font-size: 16px; }
+  .logo { max-height: 60px; max-width: 160px; }
+  .ticket-item { font-size: 20px; font-weight: 700; margin: 6px 0; }
+  .tag { display: inline-block; border: 2px solid #111; padding: 0 6px; font-weight: 700; font-size: 13px; }
+  pre { font-family: 'Courier New', monospace; font-size: 12px; margin: 0; white-space: pre; }
+</style>
+</head>
+<body>${body}</body>
+</html>`;
+
+export const buildReceiptHtml = (order: Order, restaurant?: Partial<Restaurant> | null) => {
+  const itemRows = order.items.map(item => {
+    const packagingFee = getPackagingFee(item);
+    return `
+      <div class="row"><span>${item.quantity}x ${escapeHtml(getItemName(item))}</span><span>${formatAmount(item.price * item.quantity)}</span></div>
+      ${(item.modifiers || []).map(modifier => `<div class="sub">${escapeHtml(formatModifier(modifier, true))}</div>`).join('')}
+      ${isTakeawayItem(item) ? `<div class="sub">Takeaway${packagingFee ? ` (incl. packaging ${formatAmount(packagingFee)})` : ''}</div>` : ''}
+      ${item.guestName ? `<div class="sub">For: ${escapeHtml(item.guestName)}</div>` : ''}`;
+  }).join('');
+
+  const packagingTotal = order.items.reduce((sum, item) => sum + getPackagingFee(item), 0);
+  const remaining = getRemaining(order);
+  const paymentRows = getPaymentLines(order)
+    .map(payment => `<div class="row"><span>${escapeHtml(payment.label)}</span><span>${formatAmount(payment.amount)}</span></div>`)
+    .join('');
+
+  const body = `
+    <div class="center">
+      ${restaurant?.logo ? `<img class="logo" src="${escapeHtml(restaurant.logo)}" alt="" />` : ''}
+      <h1>${escapeHtml(restaurant?.name || 'Receipt')}</h1>
+      ${getAddressLines(restaurant).map(line => `<div class="muted">${escapeHtml(line)}</div>`).join('')}
+      ${restaurant?.contact?.phone ? `<div class="muted">Tel: ${escapeHtml(restaurant.contact.phone)}</div>` : ''}
+      ${restaurant?.contact?.email ? `<div class="muted">${escapeHtml(restaurant.contact.email)}</div>` : ''}
+    </div>
+    <div class="divider"></div>
+    <div class="row"><strong>Order #${escapeHtml(order.orderNumber)}</strong><span>${formatDateTime(order.createdAt)}</span></div>
+    <div class="row"><span>${order.table ? `Table ${escapeHtml(order.table.tableNumber)}` : escapeHtml(order.orderType)}</span><span>${escapeHtml(order.customerName || '')}</span></div>
+    <div class="divider"></div>
+    ${itemRows}
+    <div class="divider"></div>
+    ${packagingTotal > 0 ? `<div class="row"><span>Packaging fees</span><span>${formatAmount(packagingTotal)}</span></div>` : ''}
+    <div class="row total"><span>Total</span><span>${formatAmount(order.totalAmount)} CFA</span></div>
+    ${paymentRows}
+    ${remaining > 0
+      ? `<div class="row total"><span>Balance due</span><span>${formatAmount(remaining)} CFA</span></div>`
+      : '<div class="center total">PAID</div>'}
+    <div class="divider"></div>
+    <div class="center muted">Thank you for dining with us!</div>`;
+
+  return wrapHtml(`Receipt #${order.orderNumber}`, body, '@page { size: auto; margin: 10mm; } body { max-width: 360px; margin: 0 auto; }');
+};
+
+export const buildKitchenTicketHtml = (order: Order) => {
+  const itemRows = order.items.map(item => `
+    <div class="ticket-item">${item.quantity} × ${escapeHtml(getItemName(item))}</div>
+    ${(item.modifiers || []).map(modifier => `<div class="sub"><strong>${escapeHtml(formatModifier(modifier, false))}</strong></div>`).join('')}
+    ${isTakeawayItem(item) ? '<div class="sub"><span class="tag">TAKEAWAY</span></div>' : ''}
+    ${getItemNote(item) ? `<div class="sub"><strong>› ${escapeHtml(getItemNote(item))}</strong></div>` : ''}
+    ${item.guestName ? `<div class="sub">(${escapeHtml(item.guestName)})</div>` : ''}`).join('');
+
+  const body = `
+    <div class="center">
+      <h1>#${escapeHtml(order.orderNumber)}</h1>
+      <div>${new Date(order.createdAt).toLocaleTimeString('en-US', { hour: '2-digit', minute: '2-digit' })}
+        · ${order.table ? `Table ${escapeHtml(order.table.tableNumber)}` : escapeHtml(order.orderType.toUpperCase())}</div>
+    </div>
+    <div class="divider"></div>
+    ${itemRows}
+    ${order.customerNotes ? `<div class="divider"></div><div><strong>Note:</strong> ${escapeHtml(order.customerNotes)}</div>` : ''}
+    <div class="divider"></div>
+    <div class="center muted">${escapeHtml(order.customerName || '')}</div>`;
+
+  return wrapHtml(`Ticket #${order.orderNumber}`, body, '@page { size: auto; margin: 8mm; } body { max-width: 360px; margin: 0 auto; }');
+};
+
+// Thermal text wrapped in a page sized to the roll, for printers driven by the OS
+export const buildThermalHtml = (text: string, paperWidth: PaperWidth) => wrapHtml(
+  'Thermal print',
+  `<pre>${escapeHtml(text)}</pre>`,
+  `@page { size: ${paperWidth}mm auto; margin: 0; } body { padding: 2mm; width: ${paperWidth - 4}mm; }`
+);
+
+// How long a print frame is kept if the browser never reports the dialog closing
+const PRINT_FRAME_FALLBACK_MS = 5 * 60 * 1000;
+
+// Print an HTML document through a hidden iframe
+export const printHtml = (html: string) => {
+  const frame = document.createElement('iframe');
+  frame.style.position = 'fixed';
+  frame.style.width = '0';
+  frame.style.height = '0';
+  frame.style.border = '0';
+  frame.srcdoc = html;
+
+  frame.onload = () => {
+    const frameWindow = frame.contentWindow;
+    if (!frameWindow) return;
+
+    // Safari and some Android browsers print blank pages if the frame goes while the dialog is open,
+    // so wait for afterprint; the fallback only covers browsers that never fire it
+    const fallback = setTimeout(() => frame.remove(), PRINT_FRAME_FALLBACK_MS);
+    frameWindow.addEventListener('afterprint', () => {
+      clearTimeout(fallback);
+      frame.remove();
+    }, { once: true });
+
+    frameWindow.focus();
+    frameWindow.print();
+  };
+
+  document.body.appendChild(frame);
+};
+
+// Save raw ESC/POS bytes for sending straight to a thermal printer
+export const downloadEscPos = (bytes: Uint8Array<ArrayBuffer>, filename: string) => {
+  const url = URL.createObjectURL(new Blob([bytes], { type: 'application/octet-stream' }));
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = filename;
+  link.click();
+  URL.revokeObjectURL(url);
+};
@@ -0,0 +1,87 @@
+// services/public.ts
+import { publicApi } from './api';
+import type {
+  Category,
+  LikeResponse,
+  MenuItem,
+  MenuItemRatingResponse,
+  Restaurant,
+  RestaurantRatingResponse,
+  UserRatingResponse
+} from '../types';
+
+// Customer-facing endpoints. Entity getters are generic because the customer
+// screens work with the populated shapes the public API returns.
+export const publicService = {
+  // Get all restaurants
+  getRestaurants: async <T = Restaurant>(): Promise<T[]> => {
+    const response = await publicApi.get<{ restaurants: T[] }>('/restaurants');
+    return response.data.restaurants || [];
+  },
+
+  // Get restaurants serving a category
+  getRestaurantsByCategory: async <T = Restaurant>(categoryName: string): Promise<T[]> => {
+    const response = await publicApi.get<{ restaurants: T[] }>(
+      `/public/restaurants/by-category/${encodeURIComponent(categoryName)}`
+    );
+    return response.data.restaurants || [];
+  },
+
+  // Get all public categories
+  getCategories: async <T = Category>(): Promise<T[]> => {
+    const response = await publicApi.get<{ categories: T[] }>('/public/categories');
+    return response.data.categories || [];
+  },
+
+  // Get a single restaurant
+  getRestaurant: async <T = Restaurant>(restaurantId: string): Promise<T> => {
+    const response = await publicApi.get<{ restaurant?: T }>(`/public/restaurants/${restaurantId}`);
+    return response.data.restaurant || (response.data as T);
+  },
+
+  // Get a restaurant's menu
+  getRestaurantMenu: async <T = MenuItem>(restaurantId: string): Promise<T[]> => {
+    const response = await publicApi.get<{ menuItems: T[] }>(`/public/restaurants/${restaurantId}/menu`);
+    return response.data.menuItems || [];
+  },
+
+  // Get a restaurant's categories
+  getRestaurantCategories: async <T = Category>(restaurantId: string): Promise<T[]> => {
+    const response = await publicApi.get<{ categories: T[] }>(`/public/restaurants/${restaurantId}/categories`);
+    return response.data.categories || [];
+  },
+
+  // Like or unlike a menu item
+  likeMenuItem: async (itemId: string, sessionId: string, action: 'like' | 'unlike'): Promise<LikeResponse> => {
+    const response = await publicApi.post<LikeResponse>(`/public/menu-items/${itemId}/like`, { sessionId, action });
+    return response.data;
+  },
+
+  // Rate a menu item
+  rateMenuItem: async (itemId: string, sessionId: string, rating: number): Promise<MenuItemRatingResponse> => {
+    const response = await publicApi.post<MenuItemRatingResponse>(`/public/menu-items/${itemId}/rate`, {
+      rating,
+      sessionId,
+      action: 'set'
+    });
+    return response.data;
+  },
+
+  // Rate a restaurant
+  rateRestaurant: async (restaurantId: string, sessionId: string, rating: number): Promise<RestaurantRatingResponse> => {
+    const response = await publicApi.post<RestaurantRatingResponse>(`/public/restaurants/${restaurantId}/rate`, {
+      rating,
+      sessionId,
+      action: 'set'
+    });
+    return response.data;
+  },
+
+  // Get the rating this session gave a restaurant
+  getRestaurantUserRating: async (restaurantId: string, sessionId: string): Promise<number> => {
+    const response = await publicApi.get<UserRatingResponse>(`/public/restaurants/${restaurantId}/user-rating`, {
+      params: { sessionId }
+    });
+    return response.data.userRating || 0;
+  },
+};
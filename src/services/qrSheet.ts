@@ -0,0 +1,131 @@
+// services/qrSheet.ts - bulk table lists and print-ready QR sheets
+import { escapeHtml } from './print';
+
+export type PaperSize = 'a4' | 'letter';
+
+export interface QRSheetCard {
+  title: string;
+  // e.g. the table's zone on the floor plan
+  subtitle?: string;
+  svg: string;
+}
+
+interface QRSheetOptions {
+  paperSize: PaperSize;
+  restaurantName?: string;
+  logoUrl?: string;
+}
+
+// Keeps a typo like "1-4000" from freezing the page
+export const MAX_BULK_TABLES = 200;
+
+// Page size in millimetres
+const PAPER_SIZES: Record<PaperSize, { width: number; height: number }> = {
+  a4: { width: 210, height: 297 },
+  letter: { width: 215.9, height: 279.4 }
+};
+
+const SHEET_MARGIN = 10;
+const SHEET_COLUMNS = 3;
+const SHEET_ROWS = 4;
+
+// Expand "5", "1-40", "A1-A12", "Terrace A-F" and comma or newline separated
+// lists into table names, in order and without duplicates
+export const parseTableList = (input: string): string[] => {
+  const tables: string[] = [];
+  const add = (table: string) => {
+    if (!tables.includes(table)) tables.push(table);
+    if (tables.length > MAX_BULK_TABLES) {
+      throw new Error(`You can generate up to ${MAX_BULK_TABLES} tables at a time`);
+    }
+  };
+
+  input.split(/[,;\n]/).map(token => token.trim()).filter(Boolean).forEach((token) => {
+    const numeric = token.match(/^(.*?)(\d+)\s*[-–]\s*(?:\1)?(\d+)$/);
+    if (numeric) {
+      const [, prefix, from, to] = numeric;
+      const start = parseInt(from, 10);
+      const end = parseInt(to, 10);
+      const step = start <= end ? 1 : -1;
+      for (let n = start; n !== end + step; n += step) add(`${prefix}${n}`);
+      return;
+    }
+
+    const letters = token.match(/^(.*?)\b([A-Za-z])\s*[-–]\s*([A-Za-z])$/);
+    if (letters) {
+      const [, prefix, from, to] = letters;
+      const start = from.charCodeAt(0);
+      const end = to.charCodeAt(0);
+      // Mixed case like "a-Z" is more likely a name than a range
+      if ((from === from.toUpperCase()) === (to === to.toUpperCase())) {
+        const step = start <= end ? 1 : -1;
+        for (let code = start; code !== end + step; code += step) add(`${prefix}${String.fromCharCode(code)}`);
+        return;
+      }
+    }
+
+    add(token);
+  });
+
+  return tables;
+};
+
+// Multi-up sheet of QR cards with corner cut marks, split into pages
+export const buildQRSheetHtml = (cards: QRSheetCard[], { paperSize, restaurantName, logoUrl }: QRSheetOptions) => {
+  const paper = PAPER_SIZES[paperSize];
+  const cellWidth = (paper.width - SHEET_MARGIN * 2) / SHEET_COLUMNS;
+  const cellHeight = (paper.height - SHEET_MARGIN * 2) / SHEET_ROWS;
+  const perPage = SHEET_COLUMNS * SHEET_ROWS;
+
+  const pages: QRSheetCard[][] = [];
+  for (let i = 0; i < cards.length; i += perPage) {
+    pages.push(cards.slice(i, i + perPage));
+  }
+
+  const renderCard = (card: QRSheetCard) => `
+    <div class="cell">
+      <span class="mark tl"></span><span class="mark tr"></span><span class="mark bl"></span><span class="mark br"></span>
+      <div class="card">
+        ${logoUrl ? `<img class="logo" src="${escapeHtml(logoUrl)}" alt="" />` : ''}
+        <div class="title">${escapeHtml(card.title)}</div>
+        ${card.subtitle ? `<div class="subtitle">${escapeHtml(card.subtitle)}</div>` : ''}
+        <div class="qr">${card.svg}</div>
+        <div class="footer">${restaurantName ? `${escapeHtml(restaurantName)} · ` : ''}Scan to order</div>
+      </div>
+    </div>`;
+
+  const body = pages.map(page => `<div class="page">${page.map(renderCard).join('')}</div>`).join('');
+
+  return `<!doctype html>
+<html>
+<head>
+<meta charset="utf-8" />
+<title>${escapeHtml(restaurantName ? `${restaurantName} QR codes` : 'QR codes')}</title>
+<style>
+  @page { size: ${paperSize === 'a4' ? 'A4' : 'letter'}; margin: 0; }
+  * { box-sizing: border-box; }
+  body { margin: 0; font-family: -apple-system, 'Segoe UI', Roboto, sans-serif; color: #111; }
+  .page {
+    width: ${paper.width}mm; height: ${paper.height}mm; padding: ${SHEET_MARGIN}mm;
+    display: grid; grid-template-columns: repeat(${SHEET_COLUMNS}, ${cellWidth}mm); grid-auto-rows: ${cellHeight}mm;
+    page-break-after: always; break-after: page;
+  }
+  .page:last-child { page-break-after: auto; break-after: auto; }
+  .cell { position: relative; padding: 5mm; }
+  .mark { position: absolute; width: 4mm; height: 4mm; border: 0 solid #999; }
+  .mark.tl { top: 0; left: 0; border-top-width: 0.2mm; border-left-width: 0.2mm; }
+  .mark.tr { top: 0; right: 0; border-top-width: 0.2mm; border-right-width: 0.2mm; }
+  .mark.bl { bottom: 0; left: 0; border-bottom-width: 0.2mm; border-left-width: 0.2mm; }
+  .mark.br { bottom: 0; right: 0; border-bottom-width: 0.2mm; border-right-width: 0.2mm; }
+  .card { height: 100%; display: flex; flex-direction: column; align-items: center; justify-content: center; text-align: center; }
+  .logo { height: 8mm; max-width: 30mm; object-fit: contain; margin-bottom: 1mm; }
+  .title { font-weight: 700; font-size: 13pt; margin-bottom: 1mm; }
+  .subtitle { font-size: 8pt; color: #555; text-transform: uppercase; letter-spacing: 0.05em; margin: -1mm 0 1mm; }
+  .qr { width: ${Math.min(cellWidth, cellHeight) - 32}mm; }
+  .qr svg { display: block; width: 100%; height: auto; }
+  .footer { font-size: 8pt; color: #555; margin-top: 1mm; }
+</style>
+</head>
+<body>${body}</body>
+</html>`;
+};
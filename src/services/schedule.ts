@@ -0,0 +1,141 @@
+// services/schedule.ts - opening hours and the time windows scheduled menus are served in
+import type { MenuSchedule, OperatingHours, Weekday } from '../types';
+
+// Indexed like Date.getDay()
+export const WEEKDAYS: { id: Weekday; label: string; short: string }[] = [
+  { id: 'sunday', label: 'Sunday', short: 'Sun' },
+  { id: 'monday', label: 'Monday', short: 'Mon' },
+  { id: 'tuesday', label: 'Tuesday', short: 'Tue' },
+  { id: 'wednesday', label: 'Wednesday', short: 'Wed' },
+  { id: 'thursday', label: 'Thursday', short: 'Thu' },
+  { id: 'friday', label: 'Friday', short: 'Fri' },
+  { id: 'saturday', label: 'Saturday', short: 'Sat' }
+];
+
+const MINUTES_PER_DAY = 24 * 60;
+
+// Where a window sits on one day, in minutes from midnight; end may pass midnight
+type DayWindow = { start: number; end: number } | null;
+
+export interface WindowStatus {
+  isOpen: boolean;
+  opensAt: Date | null;
+  closesAt: Date | null;
+}
+
+export interface CategoryAvailability {
+  // hidden and unorderable only apply outside every window the category is scheduled in
+  state: 'available' | 'hidden' | 'unorderable';
+  opensAt: Date | null;
+}
+
+export const parseTime = (value?: string) => {
+  const match = /^(\d{1,2}):(\d{2})$/.exec((value || '').trim());
+  if (!match) return null;
+  const hours = Number(match[1]);
+  const minutes = Number(match[2]);
+  if (hours > 23 || minutes > 59) return null;
+  return hours * 60 + minutes;
+};
+
+const toDayWindow = (start?: string, end?: string): DayWindow => {
+  const startMinutes = parseTime(start);
+  const endMinutes = parseTime(end);
+  if (startMinutes === null || endMinutes === null || startMinutes === endMinutes) return null;
+  return { start: startMinutes, end: endMinutes > startMinutes ? endMinutes : endMinutes + MINUTES_PER_DAY };
+};
+
+const atMinutes = (day: Date, minutes: number) => {
+  const date = new Date(day.getFullYear(), day.getMonth(), day.getDate());
+  date.setMinutes(minutes);
+  return date;
+};
+
+// Looks from yesterday (a window may still be running past midnight) to a week ahead
+const getWindowStatus = (getDayWindow: (day: Weekday) => DayWindow, now: Date): WindowStatus => {
+  let opensAt: Date | null = null;
+  for (let offset = -1; offset <= 7; offset++) {
+    const day = new Date(now.getFullYear(), now.getMonth(), now.getDate() + offset);
+    const window = getDayWindow(WEEKDAYS[day.getDay()].id);
+    if (!window) continue;
+    const start = atMinutes(day, window.start);
+    const end = atMinutes(day, window.end);
+    if (start <= now && now < end) {
+      return { isOpen: true, opensAt: null, closesAt: end };
+    }
+    if (start > now && (!opensAt || start < opensAt)) {
+      opensAt = start;
+    }
+  }
+  return { isOpen: false, opensAt, closesAt: null };
+};
+
+// null when the restaurant hasn't set any hours, so callers can leave the status out
+export const getOpeningStatus = (operatingHours: OperatingHours | undefined, now: Date): WindowStatus | null => {
+  if (!operatingHours || !WEEKDAYS.some(day => toDayWindow(operatingHours[day.id]?.open, operatingHours[day.id]?.close))) {
+    return null;
+  }
+  return getWindowStatus(day => toDayWindow(operatingHours[day]?.open, operatingHours[day]?.close), now);
+};
+
+export const getScheduleStatus = (schedule: MenuSchedule, now: Date) =>
+  getWindowStatus(
+    day => (schedule.days.length === 0 || schedule.days.includes(day) ? toDayWindow(schedule.start, schedule.end) : null),
+    now
+  );
+
+// A category in several schedules is available while any of them is running
+export const getCategoryAvailability = (
+  categoryId: string,
+  schedules: MenuSchedule[] | undefined,
+  now: Date
+): CategoryAvailability => {
+  const covering = (schedules || []).filter(schedule => schedule.categoryIds.includes(categoryId));
+  if (covering.length === 0) return { state: 'available', opensAt: null };
+
+  let opensAt: Date | null = null;
+  for (const schedule of covering) {
+    const status = getScheduleStatus(schedule, now);
+    if (status.isOpen) return { state: 'available', opensAt: null };
+    if (status.opensAt && (!opensAt || status.opensAt < opensAt)) opensAt = status.opensAt;
+  }
+  return {
+    state: covering.some(schedule => schedule.outsideWindow === 'show') ? 'unorderable' : 'hidden',
+    opensAt
+  };
+};
+
+const formatClock = (date: Date) =>
+  `${String(date.getHours()).padStart(2, '0')}:${String(date.getMinutes()).padStart(2, '0')}`;
+
+// "07:00", "tomorrow at 07:00" or "Monday at 07:00"
+export const formatUpcomingTime = (date: Date, now: Date) => {
+  const days = Math.round(
+    (new Date(date.getFullYear(), date.getMonth(), date.getDate()).getTime()
+      - new Date(now.getFullYear(), now.getMonth(), now.getDate()).getTime()) / (MINUTES_PER_DAY * 60000)
+  );
+  if (days === 0) return formatClock(date);
+  if (days === 1) return `tomorrow at ${formatClock(date)}`;
+  return `${WEEKDAYS[date.getDay()].label} at ${formatClock(date)}`;
+};
+
+// "Mon, Tue · 07:00–11:00" summary for the schedule list
+export const describeSchedule = (schedule: MenuSchedule) => {
+  const days = schedule.days.length === 0 || schedule.days.length === 7
+    ? 'Every day'
+    : WEEKDAYS.filter(day => schedule.days.includes(day.id)).map(day => day.short).join(', ');
+  return `${days} · ${schedule.start}–${schedule.end}`;
+};
+
+// Checks a schedule a manager set up before it is saved
+export const validateSchedule = (schedule: MenuSchedule): string | null => {
+  if (!schedule.name.trim()) return 'Every menu schedule needs a name';
+  if (parseTime(schedule.start) === null || parseTime(schedule.end) === null) {
+    return `${schedule.name} needs a start and end time`;
+  }
+  if (parseTime(schedule.start) === parseTime(schedule.end)) {
+    return `${schedule.name} starts and ends at the same time`;
+  }
+  if (schedule.categoryIds.length === 0) return `Pick at least one category for ${schedule.name}`;
+  return null;
+};
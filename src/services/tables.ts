@@ -0,0 +1,68 @@
+// services/tables.ts
+import api, { publicApi } from './api';
+import type { CreateTableData, Table, TableResponse, TablesResponse, TableTokenResponse, UpdateTableData } from '../types';
+
+export const tableService = {
+  // Get tables for the authenticated restaurant
+  getTables: async (): Promise<Table[]> => {
+    try {
+      const response = await api.get<TablesResponse>('/tables');
+      return response.data.tables || [];
+    } catch (error) {
+      console.error('❌ TableService - Error fetching tables:', error);
+      throw error;
+    }
+  },
+
+  // Register a table for the authenticated restaurant
+  addTable: async (tableData: CreateTableData): Promise<Table> => {
+    try {
+      const response = await api.post<TableResponse>('/tables', tableData);
+      console.log('✅ TableService - Table created:', response.data.table);
+      return response.data.table;
+    } catch (error) {
+      console.error('❌ TableService - Error creating table:', error);
+      throw error;
+    }
+  },
+
+  updateTable: async (tableId: string, tableData: UpdateTableData): Promise<Table> => {
+    try {
+      const response = await api.put<TableResponse>(`/tables/${tableId}`, tableData);
+      return response.data.table;
+    } catch (error) {
+      console.error('❌ TableService - Error updating table:', error);
+      throw error;
+    }
+  },
+
+  // Issue a new signed QR token for a table; any previous token stops working
+  issueQrToken: async (tableId: string): Promise<TableTokenResponse> => {
+    try {
+      const response = await api.post<TableTokenResponse>(`/tables/${tableId}/qr-token`);
+      return response.data;
+    } catch (error) {
+      console.error('❌ TableService - Error issuing QR token:', error);
+      throw error;
+    }
+  },
+
+  revokeQrToken: async (tableId: string): Promise<Table> => {
+    try {
+      const response = await api.delete<TableResponse>(`/tables/${tableId}/qr-token`);
+      return response.data.table;
+    } catch (error) {
+      console.error('❌ TableService - Error revoking QR token:', error);
+      throw error;
+    }
+  },
+
+  // Check a scanned table token (public); the server rejects unknown, revoked
+  // or tampered tokens and tokens from another restaurant
+  verifyQrToken: async (restaurantId: string, token: string): Promise<Table> => {
+    const response = await publicApi.get<TableResponse>(`/public/restaurants/${restaurantId}/tables/verify`, {
+      params: { token }
+    });
+    return response.data.table;
+  },
+};
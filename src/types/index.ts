@@ -50,16 +50,11 @@ export interface Restaurant {
     textColor?: string;
     accentColor?: string;
   };
-  operatingHours?: {
-    monday: { open: string; close: string };
-    tuesday: { open: string; close: string };
-    wednesday: { open: string; close: string };
-    thursday: { open: string; close: string };
-    friday: { open: string; close: string };
-    saturday: { open: string; close: string };
-    sunday: { open: string; close: string };
-  };
+  operatingHours?: OperatingHours;
   isActive?: boolean;
+  floorPlan?: FloorPlan;
+  menuSchedules?: MenuSchedule[];
+  ingredientStock?: IngredientStock[];
   createdAt?: string;
   updatedAt?: string;
   rating?: {
@@ -91,18 +86,52 @@ export interface RestaurantSettings {
     zipCode?: string;
     country?: string;
   };
-  operatingHours?: {
-    monday: { open: string; close: string };
-    tuesday: { open: string; close: string };
-    wednesday: { open: string; close: string };
-    thursday: { open: string; close: string };
-    friday: { open: string; close: string };
-    saturday: { open: string; close: string };
-    sunday: { open: string; close: string };
-  };
+  operatingHours?: OperatingHours;
   logo?: string;
   theme?: RestaurantTheme;
   isActive?: boolean;
+  floorPlan?: FloorPlan;
+  menuSchedules?: MenuSchedule[];
+  ingredientStock?: IngredientStock[];
+}
+
+export type Weekday = 'monday' | 'tuesday' | 'wednesday' | 'thursday' | 'friday' | 'saturday' | 'sunday';
+
+// Times are "HH:MM"; a close earlier than open runs past midnight, and empty times mean closed that day
+export type OperatingHours = Record<Weekday, { open: string; close: string }>;
+
+// A named menu (breakfast, happy hour) whose categories are only served during its window
+export interface MenuSchedule {
+  id: string;
+  name: string;
+  categoryIds: string[];
+  // Empty means every day
+  days: Weekday[];
+  start: string;
+  end: string;
+  // Outside the window the categories are either hidden or shown but not orderable
+  outsideWindow: 'hide' | 'show';
+}
+
+// Floor plan types
+export type TableShape = 'square' | 'round' | 'rectangle';
+
+// Where a table sits on its zone's plan, in grid cells from the top left
+export interface TableLayout {
+  x: number;
+  y: number;
+  shape: TableShape;
+  rotated?: boolean;
+}
+
+// A zone is an area of the floor (indoor, terrace, bar); tables join one through Table.location
+export interface FloorZone {
+  name: string;
+  color: string;
+}
+
+export interface FloorPlan {
+  zones: FloorZone[];
 }
 
 export interface AdminSettings {
@@ -165,8 +194,12 @@ export interface Category {
   restaurant: string;
   sortOrder: number;
   isPredefined?: boolean;
+  // Hidden categories stay on their items but are left off the customer menu
+  isHidden?: boolean;
 }
 
+export type UpdateCategoryData = Partial<Pick<Category, 'name' | 'description' | 'isHidden'>>;
+
 // NEW: Nutrition interface
 export interface Nutrition {
   calories: number;
@@ -222,6 +255,45 @@ export interface MenuItemFormData {
   fiber: number;
   sugar: number;
   sodium: number;
+  modifierGroups: ModifierGroup[];
+  allergens: Allergen[];
+  trackStock: boolean;
+  stockQuantity: number;
+  lowStockThreshold: number;
+}
+
+// Allergens a dish contains; undefined on a menu item means nobody has tagged it yet
+export type Allergen =
+  | 'gluten'
+  | 'dairy'
+  | 'egg'
+  | 'nuts'
+  | 'peanuts'
+  | 'soy'
+  | 'fish'
+  | 'shellfish'
+  | 'sesame'
+  | 'mustard';
+
+// Option groups on a menu item, e.g. size, extras, sauces
+export interface ModifierOption {
+  name: string;
+  priceDelta: number; // Added to the item price, can be negative
+}
+
+export interface ModifierGroup {
+  name: string;
+  required: boolean;
+  minSelections: number;
+  maxSelections: number; // 0 means no limit
+  options: ModifierOption[];
+}
+
+// An option picked for a cart or order line, copied so later menu edits don't change it
+export interface SelectedModifier {
+  group: string;
+  option: string;
+  priceDelta: number;
 }
 
 // UPDATED: MenuItem interface with new fields
@@ -245,6 +317,14 @@ export interface MenuItem {
   rating?: Rating;
   nutrition?: Nutrition;
   takeaway?: Takeaway;
+  modifierGroups?: ModifierGroup[];
+  allergens?: Allergen[];
+  // Stock is only counted when trackStock is on; the item sells out at zero
+  trackStock?: boolean;
+  stockQuantity?: number;
+  lowStockThreshold?: number;
+  // Position within its category; set by dragging items in menu management
+  sortOrder?: number;
   likes?: number;
   popularity?: number;
   viewCount?: number;
@@ -278,6 +358,11 @@ export interface CreateMenuItemData {
   fiber?: number;
   sugar?: number;
   sodium?: number;
+  modifierGroups?: ModifierGroup[];
+  allergens?: Allergen[];
+  trackStock?: boolean;
+  stockQuantity?: number;
+  lowStockThreshold?: number;
 }
 
 export interface UpdateMenuItemData {
@@ -304,6 +389,11 @@ export interface UpdateMenuItemData {
   fiber?: number;
   sugar?: number;
   sodium?: number;
+  modifierGroups?: ModifierGroup[];
+  allergens?: Allergen[];
+  trackStock?: boolean;
+  stockQuantity?: number;
+  lowStockThreshold?: number;
 }
 
 export interface Table {
@@ -347,6 +437,12 @@ export interface TableResponse {
   table: Table;
 }
 
+export interface TableTokenResponse {
+  message?: string;
+  table: Table;
+  token: string;
+}
+
 export interface RestaurantResponse {
   message: string;
   restaurant: Restaurant;
@@ -412,9 +508,37 @@ export type OrderStatus =
 
 export type PaymentStatus = 
   | 'pending' 
+  | 'partially_paid' 
   | 'paid' 
   | 'refunded';
 
+export type PaymentMethod = 
+  | 'cash' 
+  | 'mobile_money' 
+  | 'card';
+
+// How a bill was divided when a payment was taken
+export type SplitMode = 
+  | 'even' 
+  | 'by_item' 
+  | 'custom';
+
+// Order lines a by-item payment covered, by their index in order.items
+export interface PaidItem {
+  itemIndex: number;
+  quantity: number;
+}
+
+export interface Payment {
+  _id?: string;
+  amount: number;
+  method: PaymentMethod;
+  payerName?: string;
+  splitMode?: SplitMode;
+  items?: PaidItem[];
+  paidAt: string;
+}
+
 export type OrderType = 
   | 'dine-in' 
   | 'takeaway' 
@@ -424,8 +548,11 @@ export interface OrderItem {
   _id?: string;
   menuItem: MenuItem;
   quantity: number;
-  price: number;
-  specialInstructions?: string;
+  price: number; // Per unit, options included
+  modifiers?: SelectedModifier[];
+  isTakeaway?: boolean; // Missing on older orders, see services/orders
+  specialInstructions?: string; // The customer's note for the line
+  guestName?: string; // Who ordered it, for group orders
 }
 
 export interface Order {
@@ -442,6 +569,8 @@ export interface Order {
   totalAmount: number;
   status: OrderStatus;
   paymentStatus: PaymentStatus;
+  payments?: Payment[];
+  amountPaid?: number;
   orderType: OrderType;
   customerNotes?: string;
   preparationTime?: number;
@@ -458,10 +587,183 @@ export interface Table {
   capacity: number;
   status: 'available' | 'occupied' | 'reserved' | 'maintenance';
   restaurant: string | Restaurant;
+  layout?: TableLayout;
+  // When staff last marked the table cleaned (or put it back in service)
+  cleanedAt?: string;
   createdAt?: string;
   updatedAt?: string;
 }
 
+// Order API Types
+export interface OrdersResponse {
+  message?: string;
+  orders: Order[];
+}
+
+export interface OrderResponse {
+  message?: string;
+  order: Order;
+}
+
+export interface CreateOrderItemData {
+  menuItem: string;
+  quantity: number;
+  price: number;
+  modifiers?: SelectedModifier[];
+  isTakeaway?: boolean;
+  specialInstructions?: string;
+  guestName?: string;
+}
+
+export interface CreateOrderData {
+  restaurant: string;
+  customerName: string;
+  table: string | null;
+  // Signed token from the table's QR code, checked again by the server
+  tableToken?: string;
+  items: CreateOrderItemData[];
+  totalAmount: number;
+  orderType: OrderType;
+  customerNotes?: string; // For the whole order, e.g. allergies
+}
+
+// Customer cart: cart key (menu item id, plus chosen options) -> cart line
+export interface CartLine {
+  quantity: number;
+  isTakeaway: boolean;
+  modifiers?: SelectedModifier[];
+  note?: string; // e.g. "no onions"
+}
+
+export type CartItems = Record<string, CartLine>;
+
+// Cart persisted per restaurant and table, optionally synced so a table can share it
+export interface SharedCart {
+  cartId: string;
+  restaurant: string;
+  tableNumber: string;
+  items: CartItems;
+  guests?: Record<string, CartItems>; // Group ordering: each guest's items by name
+  updatedAt: string;
+}
+
+export interface SharedCartResponse {
+  cart: SharedCart;
+}
+
+// Order placed while offline, replayed once connectivity returns
+export interface QueuedOrder {
+  idempotencyKey: string;
+  orderData: CreateOrderData;
+  tableNumber: string; // For display only; orderData already carries the verified table id and token
+  restaurantInfo?: { name?: string; logo?: string }; // For order history once submitted
+  queuedAt: string;
+  attempts: number;
+}
+
+export interface RecordPaymentData {
+  amount: number;
+  method: PaymentMethod;
+  payerName?: string;
+  splitMode: SplitMode;
+  items?: PaidItem[];
+}
+
+export interface CreateTableData {
+  restaurant: string;
+  tableNumber: number | string;
+  capacity: number;
+  status: Table['status'];
+  location?: string;
+  qrCode?: string;
+}
+
+// qrCode: null revokes the table's code
+export interface UpdateTableData {
+  capacity?: number;
+  status?: Table['status'];
+  location?: string;
+  qrCode?: string | null;
+  layout?: TableLayout | null;
+  cleanedAt?: string;
+}
+
+// Likes & Ratings API Types
+export interface LikeResponse {
+  message?: string;
+  menuItem: {
+    _id: string;
+    likes: number;
+  };
+}
+
+export interface MenuItemRatingResponse {
+  message?: string;
+  menuItem: {
+    _id: string;
+    averageRating: number;
+    ratingCount: number;
+  };
+}
+
+export interface RestaurantRatingResponse {
+  message?: string;
+  restaurant: {
+    _id: string;
+    rating: {
+      average: number;
+      count: number;
+    };
+  };
+}
+
+export interface UserRatingResponse {
+  userRating: number;
+}
+
+// Only ingredients listed here are counted; each item sold uses one of every ingredient it lists
+export interface IngredientStock {
+  name: string;
+  quantity: number;
+  lowStockThreshold: number;
+}
+
+// New stock levels after a sale, restock or manual change
+export interface StockUpdate {
+  menuItems: { id: string; trackStock: boolean; stockQuantity: number }[];
+  ingredients?: IngredientStock[];
+}
+
+// Realtime Types
+export type RealtimeEventType = 
+  | 'new_order' 
+  | 'order_updated' 
+  | 'order_paid';
+
+export interface RealtimeEvent {
+  type: RealtimeEventType;
+  order: Order;
+  timestamp?: string;
+}
+
+// Where a reconnecting stream left off, so the server can replay what was missed
+export interface StreamResume {
+  since?: string | null;
+  lastEventId?: string | null;
+}
+
+// A public page's own stream: one order's updates for the customer tracking it,
+// or a restaurant's stock levels (and nothing else) for its menu
+export interface PublicStream {
+  scope: 'order' | 'stock';
+  id: string;
+}
+
+export type ConnectionState = 
+  | 'connecting' 
+  | 'connected' 
+  | 'disconnected';
+
 export interface OrderManagementProps {
   selectedOrderId?: string | null;
   autoScroll?: boolean;